@@ -46,6 +46,12 @@ jest.unstable_mockModule('fs-extra', () => ({
   default: mockFs
 }));
 
+// Mock snapshots
+const mockCleanSessionSnapshots = jest.fn<(workDir: string, before: number) => Promise<number>>();
+jest.unstable_mockModule('@/core/snapshot', () => ({
+  cleanSessionSnapshots: mockCleanSessionSnapshots
+}));
+
 // Import the module after mocking
 const { cleanupCommand } = await import('../cleanup.js');
 
@@ -86,6 +92,7 @@ describe('cleanupCommand', () => {
     mockFs.remove.mockResolvedValue(undefined);
     mockCreateLogger.mockReturnValue(mockLogger);
     mockLogger.cleanup.mockResolvedValue(undefined);
+    mockCleanSessionSnapshots.mockResolvedValue(0);
   });
 
   afterEach(() => {
@@ -217,6 +224,17 @@ describe('cleanupCommand', () => {
     });
   });
 
+  describe('session snapshot cleanup', () => {
+    it('should clean session snapshots older than the kept days', async () => {
+      mockCleanSessionSnapshots.mockResolvedValue(2);
+
+      await cleanupCommand({ days: '7', force: true });
+
+      expect(mockCleanSessionSnapshots).toHaveBeenCalledWith('/test/project', 1672574400000 - 7 * 24 * 60 * 60 * 1000);
+      expect(console.log).toHaveBeenCalledWith('Removed 2 old session snapshot(s)');
+    });
+  });
+
   describe('error handling', () => {
     it('should handle prompt errors', async () => {
       mockPrompt.mockRejectedValue(new Error('Prompt failed'));
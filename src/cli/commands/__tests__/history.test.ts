@@ -0,0 +1,119 @@
+/**
+ * Tests for history command
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { BuildHistoryEntry, BuildHistoryFilter } from '../../../types/index.js';
+
+// Mock BuildHistory
+const mockHistory = {
+  list: jest.fn<(filter?: BuildHistoryFilter) => Promise<BuildHistoryEntry[]>>(),
+  get: jest.fn<(idOrRevision: string) => Promise<BuildHistoryEntry | undefined>>()
+};
+const mockBuildHistory = jest.fn(() => mockHistory) as jest.Mock;
+
+jest.unstable_mockModule('@/core/history', () => ({
+  BuildHistory: mockBuildHistory
+}));
+
+// Import the module after mocking
+const { createHistoryCommand, parseDate } = await import('../history.js');
+
+const entry: BuildHistoryEntry = {
+  id: 'lp0abc-abc123',
+  success: true,
+  revision: 'abc123',
+  branch: 'main',
+  timestamp: 1672574400000,
+  duration: 4200,
+  artifacts: [{ type: 'diff', url: 'https://artifacts.test.com/diff-abc123.html', path: '', timestamp: 1 }],
+  testResults: { status: 'passed', passed: 3, failed: 0, skipped: 1, duration: 100 }
+};
+
+describe('history command', () => {
+  let originalExit: typeof process.exit;
+
+  beforeEach(() => {
+    originalExit = process.exit;
+    process.exit = jest.fn() as unknown as typeof process.exit;
+    jest.clearAllMocks();
+    mockHistory.list.mockResolvedValue([entry]);
+    mockHistory.get.mockResolvedValue(entry);
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+  });
+
+  it('should list builds with default limit', async () => {
+    await createHistoryCommand().parseAsync(['-w', '/project'], { from: 'user' });
+
+    expect(mockBuildHistory).toHaveBeenCalledWith('/project');
+    expect(mockHistory.list).toHaveBeenCalledWith(expect.objectContaining({ limit: 20 }));
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('https://artifacts.test.com/diff-abc123.html'));
+  });
+
+  it('should pass filters to the history store', async () => {
+    await createHistoryCommand().parseAsync(
+      ['--branch', 'feature', '--status', 'failed', '--since', '2023-01-01', '--limit', '5'],
+      { from: 'user' }
+    );
+
+    expect(mockHistory.list).toHaveBeenCalledWith({
+      branch: 'feature',
+      sessionId: undefined,
+      status: 'failed',
+      since: Date.parse('2023-01-01'),
+      until: undefined,
+      limit: 5
+    });
+  });
+
+  it('should filter by session', async () => {
+    await createHistoryCommand().parseAsync(['--session', '3f2a9c1e'], { from: 'user' });
+
+    expect(mockHistory.list).toHaveBeenCalledWith(expect.objectContaining({ sessionId: '3f2a9c1e' }));
+  });
+
+  it('should reject an invalid status', async () => {
+    await createHistoryCommand().parseAsync(['--status', 'broken'], { from: 'user' });
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid status: broken'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should print JSON output', async () => {
+    await createHistoryCommand().parseAsync(['--json'], { from: 'user' });
+
+    expect(console.log).toHaveBeenCalledWith(JSON.stringify([entry], null, 2));
+  });
+
+  it('should show the details of a single build', async () => {
+    await createHistoryCommand().parseAsync(['abc123'], { from: 'user' });
+
+    expect(mockHistory.get).toHaveBeenCalledWith('abc123');
+    expect(console.log).toHaveBeenCalledWith('Revision: abc123');
+    expect(console.log).toHaveBeenCalledWith('  Passed: 3, Failed: 0, Skipped: 1');
+  });
+
+  it('should exit when a build is not found', async () => {
+    mockHistory.get.mockResolvedValue(undefined);
+
+    await createHistoryCommand().parseAsync(['missing'], { from: 'user' });
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Build not found: missing'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  describe('parseDate', () => {
+    it('should parse relative durations', () => {
+      const now = 1672574400000;
+      expect(parseDate('12h', now)).toBe(now - 12 * 3600000);
+      expect(parseDate('7d', now)).toBe(now - 7 * 86400000);
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => parseDate('yesterday-ish')).toThrow('Invalid date: yesterday-ish');
+    });
+  });
+});
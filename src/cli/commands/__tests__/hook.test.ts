@@ -0,0 +1,150 @@
+/**
+ * Tests for hook command
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { ClaudeHookContext, ClaudeHookResult } from '../../../core/claude-hook.js';
+import type { HookInput } from '../../../core/hook-input.js';
+
+type HookHandler = (context: ClaudeHookContext) => Promise<ClaudeHookResult>;
+
+// Mock ClaudeHooks
+const mockHandlers = {
+  Stop: jest.fn<HookHandler>(),
+  SessionStart: jest.fn<HookHandler>(),
+  PreToolUse: jest.fn<HookHandler>()
+};
+
+jest.unstable_mockModule('@/core/claude-hook', () => ({
+  ClaudeHooks: {
+    getHookHandlers: jest.fn(() => mockHandlers)
+  }
+}));
+
+// Mock hook input
+const mockReadHookInput = jest.fn<() => Promise<HookInput>>();
+const mockCreateHookContext = jest.fn((input: HookInput, workingDir: string) => ({
+  workingDir,
+  sessionId: input.sessionId
+}));
+
+jest.unstable_mockModule('@/core/hook-input', () => ({
+  readHookInput: mockReadHookInput,
+  createHookContext: mockCreateHookContext
+}));
+
+// Import the module after mocking
+const { createHookCommand } = await import('../hook.js');
+
+describe('hook command', () => {
+  let originalExit: typeof process.exit;
+  let originalProjectDir: string | undefined;
+
+  beforeEach(() => {
+    originalExit = process.exit;
+    originalProjectDir = process.env.CLAUDE_PROJECT_DIR;
+    process.exit = jest.fn() as unknown as typeof process.exit;
+    delete process.env.CLAUDE_PROJECT_DIR;
+    jest.clearAllMocks();
+    mockHandlers.SessionStart.mockResolvedValue({ success: true, message: 'SessionStart hook completed' });
+    mockReadHookInput.mockResolvedValue({ raw: {} });
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+    if (originalProjectDir === undefined) {
+      delete process.env.CLAUDE_PROJECT_DIR;
+    } else {
+      process.env.CLAUDE_PROJECT_DIR = originalProjectDir;
+    }
+  });
+
+  it('should run the handler of the event in the work dir', async () => {
+    await createHookCommand().parseAsync(['SessionStart', '-w', '/project'], { from: 'user' });
+
+    expect(mockHandlers.SessionStart).toHaveBeenCalledWith({ workingDir: '/project' });
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('SessionStart hook completed'));
+  });
+
+  it('should default to the Claude Code project dir', async () => {
+    process.env.CLAUDE_PROJECT_DIR = '/claude/project';
+
+    await createHookCommand().parseAsync(['SessionStart'], { from: 'user' });
+
+    expect(mockHandlers.SessionStart).toHaveBeenCalledWith({ workingDir: '/claude/project' });
+  });
+
+  it('should pass the session of the hook input to the handler', async () => {
+    const input = { sessionId: 'session-123', cwd: '/from/input', raw: {} };
+    mockReadHookInput.mockResolvedValue(input);
+
+    await createHookCommand().parseAsync(['SessionStart'], { from: 'user' });
+
+    expect(mockCreateHookContext).toHaveBeenCalledWith(input, '/from/input');
+    expect(mockHandlers.SessionStart).toHaveBeenCalledWith({ workingDir: '/from/input', sessionId: 'session-123' });
+  });
+
+  it('should report a PreToolUse decision to Claude Code as JSON', async () => {
+    mockHandlers.PreToolUse.mockResolvedValue({
+      success: true,
+      message: 'Approved remotely by alice',
+      block: false,
+      decision: 'allow'
+    });
+
+    await createHookCommand().parseAsync(['PreToolUse', '-w', '/project'], { from: 'user' });
+
+    expect(console.log).toHaveBeenCalledTimes(1);
+    expect(JSON.parse((console.log as jest.Mock).mock.calls[0]![0] as string)).toEqual({
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'allow',
+        permissionDecisionReason: 'Approved remotely by alice'
+      }
+    });
+  });
+
+  it('should keep handler logs off stdout for PreToolUse', async () => {
+    mockHandlers.PreToolUse.mockImplementation(async () => {
+      console.log('[INFO] Running CCanywhere PreToolUse hook');
+      console.info('[INFO] Policy loaded');
+      console.debug('[DEBUG] No rule matched');
+      return { success: true, message: 'Denied remotely', block: true, decision: 'deny' };
+    });
+    const { info, debug } = console;
+
+    await createHookCommand().parseAsync(['PreToolUse', '-w', '/project'], { from: 'user' });
+
+    expect(console.error).toHaveBeenCalledWith('[INFO] Running CCanywhere PreToolUse hook');
+    expect(console.error).toHaveBeenCalledWith('[INFO] Policy loaded');
+    expect(console.error).toHaveBeenCalledWith('[DEBUG] No rule matched');
+    expect(console.log).toHaveBeenCalledTimes(1);
+    expect(console.info).toBe(info);
+    expect(console.debug).toBe(debug);
+  });
+
+  it('should deny blocked tool calls', async () => {
+    mockHandlers.PreToolUse.mockResolvedValue({ success: true, message: 'Dangerous operation blocked', block: true });
+
+    await createHookCommand().parseAsync(['PreToolUse', '-w', '/project'], { from: 'user' });
+
+    expect(JSON.parse((console.log as jest.Mock).mock.calls[0]![0] as string).hookSpecificOutput).toEqual(
+      expect.objectContaining({ permissionDecision: 'deny', permissionDecisionReason: 'Dangerous operation blocked' })
+    );
+  });
+
+  it('should leave the decision to Claude Code when there is none', async () => {
+    mockHandlers.PreToolUse.mockResolvedValue({ success: true, message: 'PreToolUse hook completed' });
+
+    await createHookCommand().parseAsync(['PreToolUse', '-w', '/project'], { from: 'user' });
+
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('PreToolUse hook completed'));
+  });
+
+  it('should reject unknown events', async () => {
+    await createHookCommand().parseAsync(['Unknown'], { from: 'user' });
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unknown hook event: Unknown'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -19,13 +19,15 @@ jest.unstable_mockModule('chalk', () => ({
 const mockLockManager = {
   isLocked: jest.fn() as any,
   getLockInfo: jest.fn() as any,
+  listLocks: jest.fn() as any,
   clean: jest.fn() as any,
   forceRelease: jest.fn() as any
 };
 const mockFileLockManager = jest.fn(() => mockLockManager) as jest.Mock;
 
 jest.unstable_mockModule('@/core/lock-manager', () => ({
-  FileLockManager: mockFileLockManager
+  FileLockManager: mockFileLockManager,
+  LOCK_DIR: '/tmp/ccanywhere-locks'
 }));
 
 // Import the module after mocking
@@ -57,12 +59,58 @@ describe('lock command', () => {
   });
 
   describe('status subcommand', () => {
-    it('should show unlocked status', async () => {
-      mockLockManager.isLocked.mockResolvedValue(false);
+    it('should report when no project is locked', async () => {
+      mockLockManager.listLocks.mockResolvedValue([]);
+
+      const command = lockCommand.commands.find(cmd => cmd.name() === 'status');
+      await command?.parseAsync(['status'], { from: 'user' });
+
+      expect(mockLockManager.listLocks).toHaveBeenCalledWith('/tmp/ccanywhere-locks');
+      expect(console.log).toHaveBeenCalledWith('🔓 No builds are locked');
+    });
+
+    it('should list the locks of all projects and branches', async () => {
+      mockLockManager.listLocks.mockResolvedValue([
+        {
+          name: 'owner_repo',
+          file: '/tmp/ccanywhere-locks/owner_repo.lock',
+          info: { pid: 12345, revision: 'abc123', timestamp: 1672574400000, acquired: true },
+          active: true
+        },
+        {
+          name: 'other_repo--feature_x',
+          file: '/tmp/ccanywhere-locks/other_repo--feature_x.lock',
+          info: { pid: 999, revision: 'def456', timestamp: 1672574400000, acquired: true },
+          active: false
+        }
+      ]);
+
+      const command = lockCommand.commands.find(cmd => cmd.name() === 'status');
+      await command?.parseAsync(['status'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('🔒 owner_repo');
+      expect(console.log).toHaveBeenCalledWith('  PID: 12345');
+      expect(console.log).toHaveBeenCalledWith('💤 other_repo--feature_x (stale)');
+      expect(mockLockManager.isLocked).not.toHaveBeenCalled();
+    });
+
+    it('should handle listLocks errors', async () => {
+      mockLockManager.listLocks.mockRejectedValue(new Error('Permission denied'));
 
       const command = lockCommand.commands.find(cmd => cmd.name() === 'status');
       await command?.parseAsync(['status'], { from: 'user' });
 
+      expect(console.error).toHaveBeenCalledWith('Error checking lock status:');
+      expect(console.error).toHaveBeenCalledWith('Permission denied');
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+
+    it('should show unlocked status of a lock file', async () => {
+      mockLockManager.isLocked.mockResolvedValue(false);
+
+      const command = lockCommand.commands.find(cmd => cmd.name() === 'status');
+      await command?.parseAsync(['status', '-f', '/tmp/ccanywhere-locks/main.lock'], { from: 'user' });
+
       expect(mockFileLockManager).toHaveBeenCalled();
       expect(mockLockManager.isLocked).toHaveBeenCalledWith('/tmp/ccanywhere-locks/main.lock');
       expect(console.log).toHaveBeenCalledWith('🔓 Build is not locked');
@@ -165,13 +213,22 @@ describe('lock command', () => {
   });
 
   describe('force-release subcommand', () => {
-    it('should force release lock', async () => {
+    it('should require a lock name or file', async () => {
+      const command = lockCommand.commands.find(cmd => cmd.name() === 'force-release');
+      await command?.parseAsync([], { from: 'user' });
+
+      expect(console.error).toHaveBeenCalledWith('Specify a lock name or --file');
+      expect(process.exit).toHaveBeenCalledWith(1);
+      expect(mockLockManager.forceRelease).not.toHaveBeenCalled();
+    });
+
+    it('should force release lock by name', async () => {
       mockLockManager.forceRelease.mockResolvedValue(undefined);
 
       const command = lockCommand.commands.find(cmd => cmd.name() === 'force-release');
-      await command?.parseAsync(['force-release'], { from: 'user' });
+      await command?.parseAsync(['owner_repo'], { from: 'user' });
 
-      expect(mockLockManager.forceRelease).toHaveBeenCalledWith('/tmp/ccanywhere-locks/main.lock');
+      expect(mockLockManager.forceRelease).toHaveBeenCalledWith('/tmp/ccanywhere-locks/owner_repo.lock');
       expect(console.log).toHaveBeenCalledWith('✅ Lock force released');
     });
 
@@ -4,6 +4,9 @@
 
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 
+type AsyncFn = (...args: unknown[]) => Promise<unknown>;
+type SyncFn = (...args: unknown[]) => unknown;
+
 // Mock chalk
 const mockChalk = {
   blue: jest.fn((text: string) => text) as jest.Mock,
@@ -19,10 +22,10 @@ jest.unstable_mockModule('chalk', () => ({
 
 // Mock Logger
 const mockLogger = {
-  info: jest.fn() as any,
-  warn: jest.fn() as any,
-  error: jest.fn() as any,
-  debug: jest.fn() as any
+  info: jest.fn<SyncFn>(),
+  warn: jest.fn<SyncFn>(),
+  error: jest.fn<SyncFn>(),
+  debug: jest.fn<SyncFn>()
 };
 const mockLoggerGetInstance = jest.fn(() => mockLogger) as jest.Mock;
 
@@ -34,10 +37,10 @@ jest.unstable_mockModule('@/utils/logger', () => ({
 
 // Mock ClaudeCodeDetector
 const mockClaudeCodeDetector = {
-  detectEnvironment: jest.fn() as any,
-  getClaudeCodePaths: jest.fn() as any,
-  isClaudeCodeAvailable: jest.fn() as any,
-  ensureConfigDirectory: jest.fn() as any
+  detectEnvironment: jest.fn<AsyncFn>(),
+  getClaudeCodePaths: jest.fn<AsyncFn>(),
+  isClaudeCodeAvailable: jest.fn<AsyncFn>(),
+  ensureConfigDirectory: jest.fn<AsyncFn>()
 };
 
 jest.unstable_mockModule('@/utils/claude-detector', () => ({
@@ -46,23 +49,42 @@ jest.unstable_mockModule('@/utils/claude-detector', () => ({
 
 // Mock HookInjector
 const mockHookInjector = {
-  injectHooks: jest.fn() as any,
-  removeHooks: jest.fn() as any,
-  restoreFromBackup: jest.fn() as any,
-  listBackups: jest.fn() as any,
-  areHooksInjected: jest.fn() as any
+  injectHooks: jest.fn<AsyncFn>(),
+  removeHooks: jest.fn<AsyncFn>(),
+  restoreFromBackup: jest.fn<AsyncFn>(),
+  listBackups: jest.fn<AsyncFn>(),
+  areHooksInjected: jest.fn<AsyncFn>(),
+  getInjectedHooks: jest.fn<AsyncFn>()
 };
 
 jest.unstable_mockModule('@/utils/hook-injector', () => ({
-  HookInjector: mockHookInjector
+  HookInjector: mockHookInjector,
+  HOOK_EVENTS: ['SessionStart', 'UserPromptSubmit', 'PreToolUse', 'PostToolUse', 'Stop', 'SessionEnd']
+}));
+
+// Mock agent adapters
+const mockAgentAdapter = {
+  name: 'codex',
+  displayName: 'Codex CLI',
+  detect: jest.fn<AsyncFn>(),
+  injectHooks: jest.fn<AsyncFn>(),
+  removeHooks: jest.fn<AsyncFn>(),
+  areHooksInjected: jest.fn<AsyncFn>()
+};
+const mockGetAgentAdapter = jest.fn(() => mockAgentAdapter);
+
+jest.unstable_mockModule('@/core/agents/index', () => ({
+  AGENT_NAMES: ['claude-code', 'codex'],
+  CODEX_NOTIFY_COMMAND: ['npx', 'ccanywhere', 'run', '--hook-mode', '--agent', 'codex', '--payload'],
+  getAgentAdapter: mockGetAgentAdapter
 }));
 
 // Import the module after mocking
 const { registerCommand } = await import('../register.js');
 
 describe('registerCommand', () => {
-  let originalConsole: any;
-  let originalExit: any;
+  let originalConsole: Console;
+  let originalExit: typeof process.exit;
 
   beforeEach(() => {
     // Mock console methods
@@ -72,7 +94,7 @@ describe('registerCommand', () => {
 
     // Mock process.exit
     originalExit = process.exit;
-    process.exit = jest.fn() as any;
+    process.exit = jest.fn() as unknown as typeof process.exit;
 
     // Reset all mocks
     jest.clearAllMocks();
@@ -85,7 +107,7 @@ describe('registerCommand', () => {
       version: '1.0.0',
       installationType: 'user'
     });
-    
+
     mockClaudeCodeDetector.getClaudeCodePaths.mockResolvedValue({
       configDir: '/mock/config',
       hooksConfig: '/mock/config/hooks.js',
@@ -93,6 +115,7 @@ describe('registerCommand', () => {
     });
 
     mockHookInjector.areHooksInjected.mockResolvedValue(false);
+    mockHookInjector.getInjectedHooks.mockResolvedValue({});
     mockHookInjector.listBackups.mockResolvedValue([]);
   });
 
@@ -115,6 +138,17 @@ describe('registerCommand', () => {
       expect(console.log).toHaveBeenCalledWith(expect.stringContaining('CCanywhere Claude Code Hook Status'));
     });
 
+    it('should show the matcher of each registered event', async () => {
+      mockHookInjector.areHooksInjected.mockResolvedValue(true);
+      mockHookInjector.listBackups.mockResolvedValue([]);
+      mockHookInjector.getInjectedHooks.mockResolvedValue({ Stop: '.*', PreToolUse: 'Bash' });
+
+      await registerCommand({ status: true });
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/● PreToolUse.*matcher: Bash/));
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('○ SessionEnd'));
+    });
+
     it('should handle status check errors', async () => {
       mockClaudeCodeDetector.detectEnvironment.mockRejectedValue(new Error('Status check failed'));
 
@@ -126,11 +160,11 @@ describe('registerCommand', () => {
 
   describe('remove option', () => {
     it('should remove hooks', async () => {
-      mockHookInjector.removeHooks.mockResolvedValue({ 
-        success: true, 
+      mockHookInjector.removeHooks.mockResolvedValue({
+        success: true,
         message: 'Removed 2 hooks',
-        hooksAdded: ['Stop'], 
-        hooksSkipped: [] 
+        hooksAdded: ['Stop'],
+        hooksSkipped: []
       });
 
       await registerCommand({ remove: true });
@@ -140,11 +174,11 @@ describe('registerCommand', () => {
     });
 
     it('should handle remove with warning message', async () => {
-      mockHookInjector.removeHooks.mockResolvedValue({ 
-        success: false, 
+      mockHookInjector.removeHooks.mockResolvedValue({
+        success: false,
         message: 'No hooks found',
-        hooksAdded: [], 
-        hooksSkipped: [] 
+        hooksAdded: [],
+        hooksSkipped: []
       });
 
       await registerCommand({ remove: true });
@@ -211,10 +245,10 @@ describe('registerCommand', () => {
 
   describe('hook installation', () => {
     it('should install Stop hook', async () => {
-      mockHookInjector.injectHooks.mockResolvedValue({ 
+      mockHookInjector.injectHooks.mockResolvedValue({
         success: true,
         message: 'Success',
-        hooksAdded: ['Stop'], 
+        hooksAdded: ['Stop'],
         hooksSkipped: [],
         backupPath: '/backup/path'
       });
@@ -224,6 +258,8 @@ describe('registerCommand', () => {
       expect(mockHookInjector.injectHooks).toHaveBeenCalledWith(
         expect.objectContaining({
           enableStop: true,
+          enableSessionStart: true,
+          enablePreToolUse: false,
           createBackup: true,
           force: undefined
         })
@@ -231,15 +267,28 @@ describe('registerCommand', () => {
       expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Successfully registered'));
     });
 
+    it('should install the PreToolUse hook for remote approval', async () => {
+      mockHookInjector.injectHooks.mockResolvedValue({
+        success: true,
+        message: 'Success',
+        hooksAdded: ['Stop', 'SessionStart', 'PreToolUse'],
+        hooksSkipped: []
+      });
+
+      await registerCommand({ approval: true });
+
+      expect(mockHookInjector.injectHooks).toHaveBeenCalledWith(expect.objectContaining({ enablePreToolUse: true }));
+    });
+
     it('should handle installation with force flag', async () => {
-      mockHookInjector.injectHooks.mockResolvedValue({ 
+      mockHookInjector.injectHooks.mockResolvedValue({
         success: true,
         message: 'Success',
-        hooksAdded: ['Stop'], 
+        hooksAdded: ['Stop'],
         hooksSkipped: []
       });
 
-      await registerCommand({ 
+      await registerCommand({
         force: true
       });
 
@@ -251,10 +300,10 @@ describe('registerCommand', () => {
     });
 
     it('should handle installation failures', async () => {
-      mockHookInjector.injectHooks.mockResolvedValue({ 
+      mockHookInjector.injectHooks.mockResolvedValue({
         success: false,
         message: 'Failed to inject hooks',
-        hooksAdded: [], 
+        hooksAdded: [],
         hooksSkipped: []
       });
 
@@ -276,10 +325,10 @@ describe('registerCommand', () => {
 
   describe('backup functionality', () => {
     it('should create backup when hooks are injected', async () => {
-      mockHookInjector.injectHooks.mockResolvedValue({ 
+      mockHookInjector.injectHooks.mockResolvedValue({
         success: true,
         message: 'Success',
-        hooksAdded: ['Stop'], 
+        hooksAdded: ['Stop'],
         hooksSkipped: [],
         backupPath: '/backup/path/hooks.backup'
       });
@@ -289,6 +338,47 @@ describe('registerCommand', () => {
       expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Backup created'));
     });
 
+    it('should install a chosen subset of hooks with matchers', async () => {
+      mockHookInjector.areHooksInjected.mockResolvedValue(true);
+      mockHookInjector.injectHooks.mockResolvedValue({
+        success: true,
+        message: 'Success',
+        hooksAdded: ['PostToolUse'],
+        hooksUpdated: ['PreToolUse'],
+        hooksSkipped: []
+      });
+
+      await registerCommand({ events: 'preToolUse, PostToolUse', matcher: ['PreToolUse=Bash|Edit'] });
+
+      expect(mockHookInjector.injectHooks).toHaveBeenCalledWith(
+        expect.objectContaining({
+          events: ['PreToolUse', 'PostToolUse'],
+          matchers: { PreToolUse: 'Bash|Edit' }
+        })
+      );
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Hooks updated'));
+    });
+
+    it('should reject unknown events and malformed matchers', async () => {
+      await registerCommand({ events: 'Stop,Shutdown' });
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Unknown hook event: Shutdown'));
+      expect(process.exit).toHaveBeenCalledWith(1);
+
+      await registerCommand({ matcher: ['PreToolUse'] });
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Invalid matcher "PreToolUse"'));
+      expect(mockHookInjector.injectHooks).not.toHaveBeenCalled();
+    });
+
+    it('should remove only the chosen hooks', async () => {
+      mockHookInjector.removeHooks.mockResolvedValue({ success: true, message: 'Removed 1 CCanywhere hooks' });
+
+      await registerCommand({ remove: true, events: 'PostToolUse' });
+
+      expect(mockHookInjector.removeHooks).toHaveBeenCalledWith(['PostToolUse'], { scope: 'user' });
+    });
+
     it('should handle hooks already registered', async () => {
       mockHookInjector.areHooksInjected.mockResolvedValue(true);
 
@@ -299,6 +389,131 @@ describe('registerCommand', () => {
     });
   });
 
+  describe('project scope', () => {
+    it('should register hooks in the project settings without Claude Code', async () => {
+      mockClaudeCodeDetector.detectEnvironment.mockResolvedValue({ isClaudeCode: false });
+      mockHookInjector.injectHooks.mockResolvedValue({
+        success: true,
+        message: 'Success',
+        configPath: '/repo/.claude/settings.json',
+        hooksAdded: ['Stop'],
+        hooksSkipped: []
+      });
+
+      await registerCommand({ project: true });
+
+      expect(mockHookInjector.areHooksInjected).toHaveBeenCalledWith({ scope: 'project', projectDir: process.cwd() });
+      expect(mockHookInjector.injectHooks).toHaveBeenCalledWith(
+        expect.objectContaining({ scope: 'project', projectDir: process.cwd(), createBackup: true })
+      );
+      expect(mockClaudeCodeDetector.detectEnvironment).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('/repo/.claude/settings.json'));
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Commit .claude/settings.json'));
+    });
+
+    it('should prefer the local settings with --local', async () => {
+      mockHookInjector.removeHooks.mockResolvedValue({ success: true, message: 'Removed 2 CCanywhere hooks' });
+
+      await registerCommand({ remove: true, project: true, local: true });
+
+      expect(mockHookInjector.removeHooks).toHaveBeenCalledWith(undefined, {
+        scope: 'local',
+        projectDir: process.cwd()
+      });
+    });
+
+    it('should list the backups of the project', async () => {
+      mockHookInjector.listBackups.mockResolvedValue(['/repo/.ccanywhere/hooks-project.ccanywhere.1.backup']);
+
+      await registerCommand({ status: true, project: true });
+
+      expect(mockHookInjector.listBackups).toHaveBeenCalledWith({ scope: 'project', projectDir: process.cwd() });
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Scope: project'));
+    });
+  });
+
+  describe('restore option', () => {
+    it('should restore the settings from a backup', async () => {
+      mockHookInjector.restoreFromBackup.mockResolvedValue(true);
+
+      await registerCommand({ restore: '/repo/.ccanywhere/hooks-project.ccanywhere.1.backup', project: true });
+
+      expect(mockHookInjector.restoreFromBackup).toHaveBeenCalledWith(
+        '/repo/.ccanywhere/hooks-project.ccanywhere.1.backup',
+        { scope: 'project', projectDir: process.cwd() }
+      );
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Restored settings from backup'));
+      expect(mockHookInjector.injectHooks).not.toHaveBeenCalled();
+    });
+
+    it('should exit when the backup cannot be restored', async () => {
+      mockHookInjector.restoreFromBackup.mockResolvedValue(false);
+
+      await registerCommand({ restore: '/missing.backup' });
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Failed to restore backup'));
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('other agents', () => {
+    beforeEach(() => {
+      mockAgentAdapter.detect.mockResolvedValue({ installed: true, version: '0.46.0', configDir: '/home/.codex' });
+      mockAgentAdapter.areHooksInjected.mockResolvedValue(false);
+    });
+
+    it('should register the hook of the chosen agent', async () => {
+      mockAgentAdapter.injectHooks.mockResolvedValue({
+        success: true,
+        message: 'Set notify',
+        configPath: '/home/.codex/config.toml',
+        backupPath: '/home/.codex/config.toml.ccanywhere.1.backup'
+      });
+
+      await registerCommand({ agent: 'codex' });
+
+      expect(mockGetAgentAdapter).toHaveBeenCalledWith('codex');
+      expect(mockAgentAdapter.injectHooks).toHaveBeenCalledWith({ createBackup: true, force: undefined });
+      expect(mockHookInjector.injectHooks).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith('✅ Codex CLI detected!');
+      expect(console.log).toHaveBeenCalledWith('   Settings: /home/.codex/config.toml');
+    });
+
+    it('should exit when the agent refuses the hook', async () => {
+      mockAgentAdapter.injectHooks.mockResolvedValue({
+        success: false,
+        message: 'Codex already runs another notify program'
+      });
+
+      await registerCommand({ agent: 'codex' });
+
+      expect(console.log).toHaveBeenCalledWith('Codex already runs another notify program');
+      expect(process.exit).toHaveBeenCalledWith(1);
+    });
+
+    it('should not register when the agent is not installed', async () => {
+      mockAgentAdapter.detect.mockResolvedValue({ installed: false });
+
+      await registerCommand({ agent: 'codex' });
+
+      expect(console.log).toHaveBeenCalledWith('❌ Codex CLI not detected');
+      expect(mockAgentAdapter.injectHooks).not.toHaveBeenCalled();
+    });
+
+    it('should show the status and remove the hook of the agent', async () => {
+      mockAgentAdapter.areHooksInjected.mockResolvedValue(true);
+      mockAgentAdapter.removeHooks.mockResolvedValue({ success: true, message: 'Removed notify' });
+
+      await registerCommand({ agent: 'codex', status: true });
+      await registerCommand({ agent: 'codex', remove: true });
+
+      expect(console.log).toHaveBeenCalledWith('📊 CCanywhere Codex CLI Hook Status');
+      expect(console.log).toHaveBeenCalledWith('✅ CCanywhere hooks are already registered');
+      expect(mockAgentAdapter.removeHooks).toHaveBeenCalled();
+      expect(mockHookInjector.removeHooks).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle non-Error objects', async () => {
       mockHookInjector.injectHooks.mockRejectedValue('String error');
@@ -309,4 +524,4 @@ describe('registerCommand', () => {
       expect(process.exit).toHaveBeenCalledWith(1);
     });
   });
-});
\ No newline at end of file
+});
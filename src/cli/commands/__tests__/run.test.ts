@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { ScheduledRun } from '../../../core/debounce.js';
 
 // Mock ora
 const mockOra = jest.fn(() => ({
@@ -61,6 +62,23 @@ jest.unstable_mockModule('@/core/pipeline', () => ({
   BuildPipeline: mockBuildPipeline
 }));
 
+// Mock agent adapters
+const mockReadHookInput = jest.fn() as any;
+const mockGetAgentAdapter = jest.fn(() => ({ readHookInput: mockReadHookInput })) as any;
+jest.unstable_mockModule('@/core/agents/index', () => ({
+  getAgentAdapter: mockGetAgentAdapter
+}));
+
+// Mock debounced Stop handling
+const mockDebouncer = {
+  schedule: jest.fn<(args: string[], seconds: number) => Promise<ScheduledRun>>(),
+  waitForQuiet: jest.fn<(id: string) => Promise<boolean>>()
+};
+const mockStopDebouncer = jest.fn((_workDir: string) => mockDebouncer);
+jest.unstable_mockModule('@/core/debounce', () => ({
+  StopDebouncer: mockStopDebouncer
+}));
+
 // Mock inquirer
 const mockInquirer = {
   prompt: jest.fn() as any
@@ -120,6 +138,8 @@ describe('runCommand', () => {
       notifications: { channels: ['telegram'] }
     });
     
+    mockReadHookInput.mockResolvedValue({ raw: {} });
+
     // Reset pipeline mock to not throw by default
     mockBuildPipeline.mockImplementation(() => mockPipeline);
     mockPipeline.run.mockResolvedValue({
@@ -497,6 +517,110 @@ describe('runCommand', () => {
       expect(process.exit).toHaveBeenCalledWith(0);
     });
 
+    it('should pass the session id from the hook input to the pipeline', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+      mockReadHookInput.mockResolvedValue({ sessionId: 'session-123', raw: { session_id: 'session-123' } });
+
+      await runCommand({ hookMode: true });
+
+      expect(mockReadHookInput).toHaveBeenCalled();
+      expect(mockBuildPipeline).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-123' }));
+    });
+
+    it('should pass the transcript path from the hook input to the pipeline', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+      mockReadHookInput.mockResolvedValue({ transcriptPath: '/tmp/session.jsonl', raw: {} });
+
+      await runCommand({ hookMode: true });
+
+      expect(mockBuildPipeline).toHaveBeenCalledWith(expect.objectContaining({ transcriptPath: '/tmp/session.jsonl' }));
+    });
+
+    it('should read the hook input of the given agent', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+      mockReadHookInput.mockResolvedValue({ sessionId: 'thread-1', raw: {} });
+
+      await runCommand({ hookMode: true, agent: 'codex', payload: '{"thread-id":"thread-1"}' });
+
+      expect(mockGetAgentAdapter).toHaveBeenCalledWith('codex');
+      expect(mockReadHookInput).toHaveBeenCalledWith('{"thread-id":"thread-1"}');
+      expect(mockBuildPipeline).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'thread-1' }));
+    });
+
+    it('should schedule a detached build when Stop is debounced', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+      mockConfigLoader.loadConfig.mockResolvedValue({ hooks: { debounceSeconds: 30 } });
+      mockReadHookInput.mockResolvedValue({ sessionId: 'session-123', raw: { session_id: 'session-123' } });
+
+      await runCommand({ hookMode: true });
+
+      expect(mockStopDebouncer).toHaveBeenCalledWith('/test/project');
+      expect(mockDebouncer.schedule).toHaveBeenCalledWith(
+        ['run', '--hook-mode', '--work-dir', '/test/project', '--payload', '{"session_id":"session-123"}'],
+        30
+      );
+      expect(mockBuildPipeline).not.toHaveBeenCalled();
+    });
+
+    it('should forward the run options to the scheduled build', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+      mockConfigLoader.loadConfig.mockResolvedValue({ hooks: { debounceSeconds: 30 } });
+      mockReadHookInput.mockResolvedValue(undefined);
+
+      await runCommand({
+        hookMode: true,
+        config: 'ccanywhere.config.json',
+        verbose: true,
+        dryRun: true,
+        base: 'main',
+        head: 'feature',
+        agent: 'codex'
+      });
+
+      expect(mockDebouncer.schedule).toHaveBeenCalledWith(
+        [
+          '--config',
+          'ccanywhere.config.json',
+          '--verbose',
+          '--dry-run',
+          'run',
+          '--hook-mode',
+          '--work-dir',
+          '/test/project',
+          '--base',
+          'main',
+          '--head',
+          'feature',
+          '--agent',
+          'codex'
+        ],
+        30
+      );
+      expect(mockBuildPipeline).not.toHaveBeenCalled();
+    });
+
+    it('should build in the scheduled run once Stop has been quiet', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+      mockConfigLoader.loadConfig.mockResolvedValue({ hooks: { debounceSeconds: 30 } });
+      mockDebouncer.waitForQuiet.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+      await runCommand({ hookMode: true, debounced: 'run-1' });
+      expect(mockBuildPipeline).not.toHaveBeenCalled();
+
+      await runCommand({ hookMode: true, debounced: 'run-2' });
+      expect(mockDebouncer.waitForQuiet).toHaveBeenLastCalledWith('run-2');
+      expect(mockDebouncer.schedule).not.toHaveBeenCalled();
+      expect(mockBuildPipeline).toHaveBeenCalled();
+    });
+
+    it('should not read hook input outside hook mode', async () => {
+      mockFsExtra.pathExists.mockResolvedValue(true);
+
+      await runCommand({});
+
+      expect(mockReadHookInput).not.toHaveBeenCalled();
+    });
+
     it('should skip initialization prompt when CCANYWHERE_HOOK_MODE is set', async () => {
       mockFsExtra.pathExists.mockResolvedValue(false);
       const originalValue = process.env.CCANYWHERE_HOOK_MODE;
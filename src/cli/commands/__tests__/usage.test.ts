@@ -0,0 +1,88 @@
+/**
+ * Tests for usage command
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { UsageRecord } from '../../../core/usage.js';
+
+// Mock UsageStore, keeping the grouping and formatting
+const mockStore = {
+  list: jest.fn<(since?: number) => Promise<UsageRecord[]>>()
+};
+const mockUsageStore = jest.fn(() => mockStore) as jest.Mock;
+const actualUsage = await import('@/core/usage');
+
+jest.unstable_mockModule('@/core/usage', () => ({
+  ...actualUsage,
+  UsageStore: mockUsageStore
+}));
+
+// Import the module after mocking
+const { createUsageCommand } = await import('../usage.js');
+
+const record: UsageRecord = {
+  sessionId: '3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60',
+  timestamp: new Date(2024, 0, 1, 10).getTime(),
+  inputTokens: 1200,
+  outputTokens: 3400,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 2_500_000,
+  models: {},
+  cost: 1.234,
+  unpricedModels: []
+};
+
+describe('usage command', () => {
+  let originalExit: typeof process.exit;
+
+  beforeEach(() => {
+    originalExit = process.exit;
+    process.exit = jest.fn() as unknown as typeof process.exit;
+    jest.clearAllMocks();
+    mockStore.list.mockResolvedValue([record]);
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+  });
+
+  const output = () => (console.log as jest.Mock).mock.calls.map(call => String(call[0])).join('\n');
+
+  it('should report the usage of the current project by day', async () => {
+    await createUsageCommand().parseAsync([], { from: 'user' });
+
+    expect(mockUsageStore).toHaveBeenCalledWith(process.cwd());
+    expect(mockStore.list).toHaveBeenCalledWith(undefined);
+    expect(output()).toContain('2024-01-01');
+    expect(output()).toContain('2.5M');
+    expect(output()).toContain('$1.23');
+  });
+
+  it('should report several projects with a total per project', async () => {
+    await createUsageCommand().parseAsync(['/repos/app', '/repos/api', '--by', 'session', '--since', '2023-12-01'], {
+      from: 'user'
+    });
+
+    expect(mockUsageStore).toHaveBeenCalledWith('/repos/app');
+    expect(mockUsageStore).toHaveBeenCalledWith('/repos/api');
+    expect(mockStore.list).toHaveBeenCalledWith(Date.parse('2023-12-01'));
+    expect(output()).toContain('3f2a9c1e');
+    expect(output()).toContain('$2.47');
+  });
+
+  it('should print JSON', async () => {
+    await createUsageCommand().parseAsync(['/repos/app', '--by', 'week', '--json'], { from: 'user' });
+
+    const [report] = JSON.parse((console.log as jest.Mock).mock.calls[0]![0] as string);
+    expect(report.project).toBe('/repos/app');
+    expect(report.total).toEqual(expect.objectContaining({ key: 'app', sessions: 1, cost: 1.234 }));
+    expect(report.periods[0].key).toBe('2024-01-01');
+  });
+
+  it('should reject an unknown period', async () => {
+    await createUsageCommand().parseAsync(['--by', 'month'], { from: 'user' });
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid period: month'));
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -10,7 +10,8 @@ const inquirer = inquirerModule;
 import fsExtraModule from 'fs-extra';
 const fs = fsExtraModule;
 import { createLogger } from '../../core/logger.js';
-import { FileLockManager } from '../../core/lock-manager.js';
+import { FileLockManager, LOCK_DIR } from '../../core/lock-manager.js';
+import { cleanSessionSnapshots } from '../../core/snapshot.js';
 import type { CliOptions } from '../../types/index.js';
 
 interface CleanupOptions extends CliOptions {
@@ -30,12 +31,14 @@ export async function cleanupCommand(options: CleanupOptions): Promise<void> {
     console.log();
 
     if (!options.force) {
-      const { confirm } = await inquirer.prompt([{
-        type: 'confirm',
-        name: 'confirm',
-        message: 'Continue with cleanup?',
-        default: false
-      }]);
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Continue with cleanup?',
+          default: false
+        }
+      ]);
 
       if (!confirm) {
         console.log(chalk.yellow('Cleanup cancelled.'));
@@ -55,8 +58,10 @@ export async function cleanupCommand(options: CleanupOptions): Promise<void> {
     // Cleanup stale locks
     await cleanupLocks();
 
-    console.log(chalk.green('✅ Cleanup completed!'));
+    // Cleanup baselines of old Claude Code sessions
+    await cleanupSessionSnapshots(workDir, days);
 
+    console.log(chalk.green('✅ Cleanup completed!'));
   } catch (error) {
     console.error(chalk.red('Cleanup failed:'));
     console.error(error instanceof Error ? error.message : String(error));
@@ -70,7 +75,7 @@ async function cleanupArtifacts(artifactsDir: string, daysToKeep: number): Promi
     return;
   }
 
-  const cutoffTime = Date.now() - (daysToKeep * 24 * 60 * 60 * 1000);
+  const cutoffTime = Date.now() - daysToKeep * 24 * 60 * 60 * 1000;
   const files = await fs.readdir(artifactsDir);
   let removedCount = 0;
 
@@ -95,21 +100,24 @@ async function cleanupArtifacts(artifactsDir: string, daysToKeep: number): Promi
 async function cleanupLocks(): Promise<void> {
   try {
     const lockManager = new FileLockManager();
-    const lockDir = '/tmp/ccanywhere-locks';
-    
+
     // Check if lock directory exists
-    if (!(await fs.pathExists(lockDir))) {
+    if (!(await fs.pathExists(LOCK_DIR))) {
       console.log(chalk.gray('No locks directory found'));
       return;
     }
-    
-    // Clean stale locks
-    const cleaned = await lockManager.clean(lockDir);
-    console.log(chalk.gray(`Cleaned stale locks`));
-    
+
+    // Clean stale locks of all projects and branches
+    const cleaned = await lockManager.clean(LOCK_DIR);
+    console.log(chalk.gray(`Cleaned ${cleaned} stale lock(s)`));
   } catch (error) {
     // Lock cleanup is not critical, so just log a warning
     console.log(chalk.yellow('Warning: Could not clean locks'));
     console.log(chalk.gray(`  ${error instanceof Error ? error.message : String(error)}`));
   }
-}
\ No newline at end of file
+}
+
+async function cleanupSessionSnapshots(workDir: string, daysToKeep: number): Promise<void> {
+  const removed = await cleanSessionSnapshots(workDir, Date.now() - daysToKeep * 24 * 60 * 60 * 1000);
+  console.log(`Removed ${removed} old session snapshot(s)`);
+}
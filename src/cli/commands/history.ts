@@ -0,0 +1,188 @@
+/**
+ * History command - List and inspect past builds
+ */
+
+import { resolve } from 'path';
+import { Command } from 'commander';
+import chalkModule from 'chalk';
+const chalk = chalkModule;
+import Table from 'cli-table3';
+import { BuildHistory } from '../../core/history.js';
+import type { BuildHistoryEntry, BuildHistoryFilter } from '../../types/index.js';
+
+interface HistoryOptions {
+  branch?: string;
+  session?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+  json?: boolean;
+  workDir?: string;
+}
+
+export async function historyCommand(id: string | undefined, options: HistoryOptions): Promise<void> {
+  try {
+    const history = new BuildHistory(resolve(options.workDir || process.cwd()));
+
+    if (id) {
+      const entry = await history.get(id);
+      if (!entry) {
+        console.error(chalk.red(`Build not found: ${id}`));
+        process.exit(1);
+        return;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(entry, null, 2));
+      } else {
+        printDetails(entry);
+      }
+      return;
+    }
+
+    const entries = await history.list(parseFilter(options));
+
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.gray('No builds recorded yet'));
+      return;
+    }
+
+    const table = new Table({
+      head: ['ID', 'Date', 'Branch', 'Revision', 'Status', 'Duration', 'Diff']
+    });
+
+    for (const entry of entries) {
+      table.push([
+        entry.id,
+        new Date(entry.timestamp).toLocaleString(),
+        entry.branch,
+        entry.revision,
+        entry.success ? chalk.green('success') : chalk.red('failed'),
+        `${Math.round(entry.duration / 1000)}s`,
+        entry.artifacts.find(a => a.type === 'diff')?.url || chalk.gray(entry.message || '-')
+      ]);
+    }
+
+    console.log(table.toString());
+  } catch (error) {
+    console.error(chalk.red('Failed to read build history:'));
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+export function createHistoryCommand(): Command {
+  return new Command('history')
+    .description('List past builds or show the details of one build')
+    .argument('[id]', 'Build id or revision to show')
+    .option('-b, --branch <name>', 'Only show builds of a branch')
+    .option('--session <id>', 'Only show builds of a Claude Code session (id or prefix)')
+    .option('-s, --status <status>', 'Only show builds with status: success or failed')
+    .option('--since <date>', 'Only show builds after a date (ISO date or relative, e.g. 7d, 12h)')
+    .option('--until <date>', 'Only show builds before a date (ISO date or relative, e.g. 1d)')
+    .option('-n, --limit <number>', 'Maximum number of builds to list', '20')
+    .option('-j, --json', 'Output in JSON format')
+    .option('-w, --work-dir <path>', 'Working directory', process.cwd())
+    .action(historyCommand);
+}
+
+/**
+ * Convert CLI options to a history filter
+ */
+function parseFilter(options: HistoryOptions): BuildHistoryFilter {
+  if (options.status && options.status !== 'success' && options.status !== 'failed') {
+    throw new Error(`Invalid status: ${options.status} (expected success or failed)`);
+  }
+
+  const limit = parseInt(options.limit || '', 10);
+
+  return {
+    branch: options.branch,
+    sessionId: options.session,
+    status: options.status as BuildHistoryFilter['status'],
+    since: options.since ? parseDate(options.since) : undefined,
+    until: options.until ? parseDate(options.until) : undefined,
+    limit: limit > 0 ? limit : undefined
+  };
+}
+
+/**
+ * Parse an ISO date or a relative duration (30m, 12h, 7d, 2w) into a timestamp
+ */
+export function parseDate(value: string, now: number = Date.now()): number {
+  const relative = value.match(/^(\d+)([mhdw])$/);
+  if (relative) {
+    const units: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+    return now - parseInt(relative[1]!, 10) * units[relative[2]!]!;
+  }
+
+  const timestamp = Date.parse(value);
+  if (isNaN(timestamp)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return timestamp;
+}
+
+function printDetails(entry: BuildHistoryEntry): void {
+  console.log(chalk.blue.bold(`📜 Build ${entry.id}`));
+  console.log(chalk.gray('='.repeat(60)));
+  console.log(`Status: ${entry.success ? chalk.green('✅ success') : chalk.red('❌ failed')}`);
+  console.log(`Date: ${new Date(entry.timestamp).toISOString()}`);
+  console.log(`Branch: ${entry.branch}`);
+  console.log(`Revision: ${entry.revision}`);
+  if (entry.sessionId) {
+    console.log(`Session: ${entry.sessionId}`);
+  }
+  console.log(`Duration: ${Math.round(entry.duration / 1000)}s`);
+
+  if (entry.message) {
+    console.log(`Message: ${entry.message}`);
+  }
+
+  if (entry.commitInfo) {
+    console.log(`Commit: ${entry.commitInfo.message} by ${entry.commitInfo.author}`);
+  }
+
+  if (entry.artifacts.length > 0) {
+    console.log();
+    console.log(chalk.blue('📦 Artifacts:'));
+    entry.artifacts.forEach(artifact => console.log(`  ${artifact.type}: ${chalk.cyan(artifact.url)}`));
+  }
+
+  if (entry.deploymentUrl) {
+    console.log();
+    console.log(chalk.blue('🌐 Deployment URL:'));
+    console.log(`  ${chalk.cyan(entry.deploymentUrl)}`);
+  }
+
+  if (entry.testResults) {
+    console.log();
+    console.log(chalk.blue('🧪 Test results:'));
+    console.log(`  Status: ${entry.testResults.status}`);
+    console.log(
+      `  Passed: ${entry.testResults.passed}, Failed: ${entry.testResults.failed}, Skipped: ${entry.testResults.skipped}`
+    );
+  }
+
+  if (entry.stepResults) {
+    console.log();
+    console.log(chalk.blue('🛠️  Steps:'));
+    entry.stepResults.forEach(step =>
+      console.log(`  ${step.name}: ${step.status}${step.error ? ` (${step.error})` : ''}`)
+    );
+  }
+
+  if (entry.error) {
+    console.log();
+    console.log(chalk.red('Error details:'));
+    console.log(chalk.gray(entry.error));
+  }
+}
+
+export default createHistoryCommand;
@@ -0,0 +1,72 @@
+/**
+ * Hook command - Run a CCanywhere hook handler from a Claude Code hook
+ */
+
+import { resolve } from 'path';
+import { Command } from 'commander';
+import chalkModule from 'chalk';
+const chalk = chalkModule;
+import { ClaudeHooks } from '../../core/claude-hook.js';
+import { createHookContext, readHookInput } from '../../core/hook-input.js';
+
+interface HookOptions {
+  workDir?: string;
+}
+
+export async function hookCommand(event: string, options: HookOptions): Promise<void> {
+  const handlers = ClaudeHooks.getHookHandlers();
+  const handler = handlers[event as keyof typeof handlers];
+
+  if (!handler) {
+    console.error(chalk.red(`Unknown hook event: ${event}`));
+    console.error(chalk.gray(`Supported events: ${Object.keys(handlers).join(', ')}`));
+    process.exit(1);
+    return;
+  }
+
+  // Claude Code passes the session metadata and tool input as JSON on stdin
+  const input = await readHookInput();
+  const workingDir = resolve(options.workDir || process.env.CLAUDE_PROJECT_DIR || input.cwd || process.cwd());
+
+  // Handlers never throw, so a failing hook cannot interrupt Claude Code. Claude Code parses the stdout of
+  // PreToolUse as JSON, so handler logs at every level go to stderr there.
+  const { log, info, debug } = console;
+  if (event === 'PreToolUse') {
+    console.log = console.info = console.debug = console.error;
+  }
+
+  let result;
+  try {
+    result = await handler(createHookContext(input, workingDir));
+  } finally {
+    Object.assign(console, { log, info, debug });
+  }
+
+  // A PreToolUse decision goes back to Claude Code as JSON on stdout instead of its own permission prompt
+  if (event === 'PreToolUse' && (result.decision || result.block)) {
+    console.log(
+      JSON.stringify({
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: result.decision || 'deny',
+          permissionDecisionReason: result.message
+        }
+      })
+    );
+    return;
+  }
+
+  if (result.message) {
+    console.log(chalk.gray(`[CCanywhere] ${result.message}`));
+  }
+}
+
+export function createHookCommand(): Command {
+  return new Command('hook')
+    .description('Run the handler of a Claude Code hook event (e.g. SessionStart)')
+    .argument('<event>', 'Hook event name')
+    .option('-w, --work-dir <path>', 'Project directory (default: $CLAUDE_PROJECT_DIR, or the cwd of the hook input)')
+    .action(hookCommand);
+}
+
+export default createHookCommand;
@@ -8,7 +8,7 @@ const chalk = chalkModule;
 import { ConfigLoader } from '../../config/index.js';
 import { getVersion } from '../../utils/version.js';
 import { detectGitInfo } from '../../utils/git.js';
-import { FileLockManager } from '../../core/lock-manager.js';
+import { FileLockManager, getLockFilePath } from '../../core/lock-manager.js';
 import Table from 'cli-table3';
 
 const infoCommand = new Command('info');
@@ -204,7 +204,7 @@ infoCommand
         
         try {
           const lockManager = new FileLockManager();
-          const lockFile = '/tmp/ccanywhere-locks/main.lock';
+          const lockFile = getLockFilePath(config, process.cwd(), gitInfo.repoBranch);
           const isLocked = await lockManager.isLocked(lockFile);
           
           if (isLocked) {
@@ -220,6 +220,7 @@ infoCommand
           } else {
             lockTable.push(['Status', chalk.green('🔓 Unlocked')]);
           }
+          lockTable.push(['Lock File', chalk.gray(lockFile)]);
         } catch (error) {
           lockTable.push(['Status', chalk.gray('Unable to check lock status')]);
         }
@@ -5,29 +5,44 @@
 import { Command } from 'commander';
 import chalkModule from 'chalk';
 const chalk = chalkModule;
-import { FileLockManager } from '../../core/lock-manager.js';
+import { join } from 'path';
+import { FileLockManager, LOCK_DIR } from '../../core/lock-manager.js';
+import type { LockInfo } from '../../types/index.js';
 
 const lockCommand = new Command('lock');
 
 lockCommand
   .command('status')
-  .description('Show lock status')
-  .option('-f, --file <path>', 'Lock file path', '/tmp/ccanywhere-locks/main.lock')
+  .description('Show lock status of all projects, or of a single lock file')
+  .option('-f, --file <path>', 'Lock file path')
+  .option('-d, --directory <path>', 'Lock directory', LOCK_DIR)
   .action(async (options) => {
     try {
       const lockManager = new FileLockManager();
-      const isLocked = await lockManager.isLocked(options.file);
-      
-      if (isLocked) {
-        const lockInfo = await lockManager.getLockInfo(options.file);
-        console.log(chalk.yellow('🔒 Build is currently locked'));
-        if (lockInfo) {
-          console.log(chalk.gray(`  PID: ${lockInfo.pid}`));
-          console.log(chalk.gray(`  Revision: ${lockInfo.revision}`));
-          console.log(chalk.gray(`  Since: ${new Date(lockInfo.timestamp).toISOString()}`));
+
+      if (options.file) {
+        const isLocked = await lockManager.isLocked(options.file);
+
+        if (isLocked) {
+          const lockInfo = await lockManager.getLockInfo(options.file);
+          console.log(chalk.yellow('🔒 Build is currently locked'));
+          printLockInfo(lockInfo);
+        } else {
+          console.log(chalk.green('🔓 Build is not locked'));
         }
-      } else {
-        console.log(chalk.green('🔓 Build is not locked'));
+        return;
+      }
+
+      const locks = await lockManager.listLocks(options.directory);
+
+      if (locks.length === 0) {
+        console.log(chalk.green('🔓 No builds are locked'));
+        return;
+      }
+
+      for (const lock of locks) {
+        console.log(lock.active ? chalk.yellow(`🔒 ${lock.name}`) : chalk.gray(`💤 ${lock.name} (stale)`));
+        printLockInfo(lock.info);
       }
       
     } catch (error) {
@@ -40,7 +55,7 @@ lockCommand
 lockCommand
   .command('clean')
   .description('Clean stale locks')
-  .option('-d, --directory <path>', 'Lock directory', '/tmp/ccanywhere-locks')
+  .option('-d, --directory <path>', 'Lock directory', LOCK_DIR)
   .action(async (options) => {
     try {
       const lockManager = new FileLockManager();
@@ -57,11 +72,20 @@ lockCommand
 lockCommand
   .command('force-release')
   .description('Force release a lock (use with caution)')
-  .option('-f, --file <path>', 'Lock file path', '/tmp/ccanywhere-locks/main.lock')
-  .action(async (options) => {
+  .argument('[name]', 'Lock name as shown by "lock status"')
+  .option('-f, --file <path>', 'Lock file path')
+  .option('-d, --directory <path>', 'Lock directory', LOCK_DIR)
+  .action(async (name: string | undefined, options) => {
     try {
+      const lockFile = options.file || (name ? join(options.directory, `${name}.lock`) : undefined);
+      if (!lockFile) {
+        console.error(chalk.red('Specify a lock name or --file'));
+        process.exit(1);
+        return;
+      }
+
       const lockManager = new FileLockManager();
-      await lockManager.forceRelease(options.file);
+      await lockManager.forceRelease(lockFile);
       console.log(chalk.green('✅ Lock force released'));
       
     } catch (error) {
@@ -71,4 +95,12 @@ lockCommand
     }
   });
 
+function printLockInfo(lockInfo: LockInfo | null): void {
+  if (lockInfo) {
+    console.log(chalk.gray(`  PID: ${lockInfo.pid}`));
+    console.log(chalk.gray(`  Revision: ${lockInfo.revision}`));
+    console.log(chalk.gray(`  Since: ${new Date(lockInfo.timestamp).toISOString()}`));
+  }
+}
+
 export { lockCommand };
\ No newline at end of file
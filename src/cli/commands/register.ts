@@ -7,14 +7,68 @@ import chalkModule from 'chalk';
 const chalk = chalkModule;
 import { Command } from 'commander';
 import { ClaudeCodeDetector } from '../../utils/claude-detector.js';
-import { HookInjector } from '../../utils/hook-injector.js';
+import { HookInjector, HOOK_EVENTS, type HookEvent, type HookTarget } from '../../utils/hook-injector.js';
 import { Logger } from '../../utils/logger.js';
+import { AGENT_NAMES, CODEX_NOTIFY_COMMAND, getAgentAdapter, type AgentAdapter } from '../../core/agents/index.js';
 
 interface RegisterOptions {
   force?: boolean;
   remove?: boolean;
   status?: boolean;
   manual?: boolean;
+  approval?: boolean;
+  events?: string; // Comma separated hook events
+  matcher?: string[]; // event=pattern pairs
+  project?: boolean; // .claude/settings.json of the current repository
+  local?: boolean; // .claude/settings.local.json of the current repository
+  restore?: string; // Backup file to restore
+  agent?: string; // Agent to register with (default: claude-code)
+}
+
+interface HookSelection {
+  events?: HookEvent[];
+  matchers: Partial<Record<HookEvent, string>>;
+}
+
+/**
+ * Parse --events and --matcher into the hook selection, throwing on unknown events
+ */
+export function parseHookSelection(options: Pick<RegisterOptions, 'events' | 'matcher'>): HookSelection {
+  const toEvent = (name: string): HookEvent => {
+    const event = HOOK_EVENTS.find(e => e.toLowerCase() === name.trim().toLowerCase());
+    if (!event) {
+      throw new Error(`Unknown hook event: ${name.trim()} (supported: ${HOOK_EVENTS.join(', ')})`);
+    }
+    return event;
+  };
+
+  const events = options.events
+    ? options.events
+        .split(',')
+        .filter(name => name.trim())
+        .map(toEvent)
+    : undefined;
+
+  const matchers: Partial<Record<HookEvent, string>> = {};
+  for (const pair of options.matcher || []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0 || separator === pair.length - 1) {
+      throw new Error(`Invalid matcher "${pair}", expected <event>=<pattern> (e.g. PreToolUse=Bash|Edit)`);
+    }
+    matchers[toEvent(pair.substring(0, separator))] = pair.substring(separator + 1);
+  }
+
+  return { events, matchers };
+}
+
+/**
+ * Settings file the command works on: the user-level one, or the current repository's with --project/--local
+ */
+export function getHookTarget(options: Pick<RegisterOptions, 'project' | 'local'>): HookTarget {
+  if (options.local) {
+    return { scope: 'local', projectDir: process.cwd() };
+  }
+  return options.project ? { scope: 'project', projectDir: process.cwd() } : { scope: 'user' };
 }
 
 /**
@@ -24,6 +78,23 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
   const logger = Logger.getInstance();
 
   try {
+    let selection: HookSelection;
+    try {
+      selection = parseHookSelection(options);
+    } catch (error) {
+      console.log(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+      return;
+    }
+    // Other agents have a single hook and none of the Claude Code event options
+    if (options.agent && options.agent !== 'claude-code' && !options.manual) {
+      await registerAgent(getAgentAdapter(options.agent), options);
+      return;
+    }
+
+    const target = getHookTarget(options);
+    const isUserScope = target.scope === 'user';
+
     // Handle status option
     if (options.status) {
       console.log(chalk.blue('📊 CCanywhere Claude Code Hook Status'));
@@ -31,8 +102,8 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
 
       try {
         const environment = await ClaudeCodeDetector.detectEnvironment();
-        const hooksInjected = await HookInjector.areHooksInjected();
-        const backups = await HookInjector.listBackups();
+        const hooksInjected = await HookInjector.areHooksInjected(target);
+        const backups = await HookInjector.listBackups(target);
 
         if (environment.isClaudeCode) {
           console.log(chalk.green('✅ Claude Code detected!'));
@@ -41,6 +112,9 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
         } else {
           console.log(chalk.red('❌ Claude Code environment not detected'));
         }
+        if (!isUserScope) {
+          console.log(chalk.gray(`   Scope: ${target.scope} (${target.projectDir})`));
+        }
 
         console.log();
         if (hooksInjected) {
@@ -49,6 +123,16 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
           console.log(chalk.yellow('⚠️  CCanywhere hooks are not registered'));
         }
 
+        const injected = await HookInjector.getInjectedHooks(target);
+        for (const event of HOOK_EVENTS) {
+          const matcher = injected[event];
+          console.log(
+            matcher === undefined
+              ? chalk.gray(`   ○ ${event}`)
+              : chalk.green(`   ● ${event}`) + chalk.gray(` (matcher: ${matcher})`)
+          );
+        }
+
         if (backups.length > 0) {
           console.log();
           console.log(chalk.blue('Available backups:'));
@@ -69,10 +153,23 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
       return;
     }
 
+    // Handle restore option
+    if (options.restore) {
+      const restored = await HookInjector.restoreFromBackup(options.restore, target);
+      if (restored) {
+        console.log(chalk.green('✅ Restored settings from backup'));
+        console.log(chalk.gray(`   ${options.restore}`));
+      } else {
+        console.log(chalk.red(`❌ Failed to restore backup: ${options.restore}`));
+        process.exit(1);
+      }
+      return;
+    }
+
     // Handle remove option
     if (options.remove) {
       try {
-        const result = await HookInjector.removeHooks();
+        const result = await HookInjector.removeHooks(selection.events, target);
         if (result.success) {
           console.log(chalk.green('✅ Successfully removed CCanywhere hooks'));
           if (result.message) {
@@ -88,31 +185,45 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
       return;
     }
 
-    // Detect Claude Code environment
-    const environment = await ClaudeCodeDetector.detectEnvironment();
+    // Project settings are committed with the repository, so they don't need Claude Code on this machine
+    if (isUserScope) {
+      // Detect Claude Code environment
+      const environment = await ClaudeCodeDetector.detectEnvironment();
 
-    if (!environment.isClaudeCode) {
-      console.log(chalk.red('❌ Claude Code environment not detected'));
-      console.log(chalk.yellow('Please ensure Claude Code is installed and configured'));
-      return;
-    }
+      if (!environment.isClaudeCode) {
+        console.log(chalk.red('❌ Claude Code environment not detected'));
+        console.log(chalk.yellow('Please ensure Claude Code is installed and configured'));
+        return;
+      }
 
-    console.log(chalk.green('✅ Claude Code detected!'));
-    console.log(chalk.gray(`   Version: ${environment.version || 'unknown'}`));
-    console.log(chalk.gray(`   Config: ${environment.configDir}`));
-    console.log();
+      console.log(chalk.green('✅ Claude Code detected!'));
+      console.log(chalk.gray(`   Version: ${environment.version || 'unknown'}`));
+      console.log(chalk.gray(`   Config: ${environment.configDir}`));
+      console.log();
+    }
 
     // Check if hooks are already registered
-    const alreadyInjected = await HookInjector.areHooksInjected();
-    if (alreadyInjected && !options.force) {
+    const alreadyInjected = await HookInjector.areHooksInjected(target);
+    if (alreadyInjected && !options.force && !selection.events) {
       console.log(chalk.yellow('⚠️  CCanywhere hooks are already registered'));
       console.log(chalk.gray('Use --force to overwrite existing hooks'));
       return;
     }
 
-    // Simple Stop hook configuration
+    // Stop builds and notifies, SessionStart records the baseline for session-scoped diffs,
+    // PreToolUse applies security.policies and asks for remote approval (security.approval)
+    // --events registers exactly that subset, updating hooks registered with another matcher
+    const events =
+      selection.events && options.approval && !selection.events.includes('PreToolUse')
+        ? [...selection.events, 'PreToolUse' as const]
+        : selection.events;
     const hookOptions = {
-      enableStop: true, // Only use Stop event for Claude Code sessions
+      ...target,
+      events,
+      matchers: selection.matchers,
+      enableStop: true,
+      enableSessionStart: true,
+      enablePreToolUse: options.approval === true,
       createBackup: true,
       force: options.force
     };
@@ -122,6 +233,9 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
 
     if (result.success) {
       console.log(chalk.green('✅ Successfully registered CCanywhere hooks!'));
+      if (!isUserScope) {
+        console.log(chalk.gray(`   Settings: ${result.configPath}`));
+      }
       
       if (result.hooksAdded.length > 0) {
         console.log(chalk.blue('Hooks added:'));
@@ -130,6 +244,13 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
         });
       }
 
+      if (result.hooksUpdated && result.hooksUpdated.length > 0) {
+        console.log(chalk.blue('Hooks updated:'));
+        result.hooksUpdated.forEach(hook => {
+          console.log(chalk.gray(`   • ${hook}`));
+        });
+      }
+
       if (result.hooksSkipped.length > 0) {
         console.log(chalk.yellow('Hooks skipped (already exist):'));
         result.hooksSkipped.forEach(hook => {
@@ -142,6 +263,11 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
         console.log(chalk.blue('Backup created at:'));
         console.log(chalk.gray(`   ${result.backupPath}`));
       }
+
+      if (target.scope === 'project') {
+        console.log();
+        console.log(chalk.gray('Commit .claude/settings.json to share the hooks with your team'));
+      }
     } else {
       console.log(chalk.red('❌ Failed to register hooks:'));
       console.log(chalk.red(result.message));
@@ -159,6 +285,76 @@ export async function registerCommand(options: RegisterOptions): Promise<void> {
   }
 }
 
+/**
+ * Show the status of, register or remove the hook of an agent other than Claude Code
+ */
+async function registerAgent(adapter: AgentAdapter, options: RegisterOptions): Promise<void> {
+  const environment = await adapter.detect();
+  const printEnvironment = () => {
+    if (environment.installed) {
+      console.log(chalk.green(`✅ ${adapter.displayName} detected!`));
+      console.log(chalk.gray(`   Version: ${environment.version || 'unknown'}`));
+      if (environment.configDir) {
+        console.log(chalk.gray(`   Config: ${environment.configDir}`));
+      }
+    } else {
+      console.log(chalk.red(`❌ ${adapter.displayName} not detected`));
+    }
+  };
+
+  if (options.status) {
+    console.log(chalk.blue(`📊 CCanywhere ${adapter.displayName} Hook Status`));
+    console.log(chalk.gray('='.repeat(50)));
+    printEnvironment();
+    console.log();
+    if (await adapter.areHooksInjected()) {
+      console.log(chalk.green('✅ CCanywhere hooks are already registered'));
+    } else {
+      console.log(chalk.yellow('⚠️  CCanywhere hooks are not registered'));
+    }
+    return;
+  }
+
+  if (options.remove) {
+    const result = await adapter.removeHooks();
+    if (result.success) {
+      console.log(chalk.green('✅ Successfully removed CCanywhere hooks'));
+      console.log(chalk.gray(`   ${result.message}`));
+    } else {
+      console.log(chalk.yellow(`⚠️  ${result.message}`));
+    }
+    return;
+  }
+
+  printEnvironment();
+  if (!environment.installed) {
+    console.log(chalk.yellow(`Please ensure ${adapter.displayName} is installed and configured`));
+    return;
+  }
+  console.log();
+
+  if ((await adapter.areHooksInjected()) && !options.force) {
+    console.log(chalk.yellow('⚠️  CCanywhere hooks are already registered'));
+    console.log(chalk.gray('Use --force to overwrite existing hooks'));
+    return;
+  }
+
+  const result = await adapter.injectHooks({ createBackup: true, force: options.force });
+  if (result.success) {
+    console.log(chalk.green('✅ Successfully registered CCanywhere hooks!'));
+    console.log(chalk.gray(`   Settings: ${result.configPath}`));
+    if (result.backupPath) {
+      console.log();
+      console.log(chalk.blue('Backup created at:'));
+      console.log(chalk.gray(`   ${result.backupPath}`));
+    }
+  } else {
+    console.log(chalk.red('❌ Failed to register hooks:'));
+    console.log(chalk.red(result.message));
+    process.exit(1);
+  }
+}
+
 /**
  * Show manual instructions for configuring hooks
  */
@@ -166,7 +362,7 @@ function showManualInstructions(): void {
   console.log(chalk.blue('📚 Manual Hook Configuration Instructions'));
   console.log(chalk.gray('='.repeat(50)));
   console.log();
-  console.log(chalk.yellow('For Claude Code (Stop event):'));
+  console.log(chalk.yellow('For Claude Code (Stop and SessionStart events):'));
   console.log(chalk.gray('1. Open your Claude Code settings'));
   console.log(chalk.gray('2. Add this to your hooks configuration:'));
   console.log();
@@ -185,6 +381,17 @@ function showManualInstructions(): void {
                   }
                 ]
               }
+            ],
+            SessionStart: [
+              {
+                matcher: '.*',
+                hooks: [
+                  {
+                    type: 'command',
+                    command: 'cd "$CLAUDE_PROJECT_DIR" && npx ccanywhere hook SessionStart'
+                  }
+                ]
+              }
             ]
           }
         },
@@ -197,6 +404,14 @@ function showManualInstructions(): void {
   console.log(chalk.yellow('⚠️  Important:'));
   console.log(chalk.gray('   • Use --hook-mode to skip prompts in projects without config'));
   console.log(chalk.gray('   • Using npx ensures ccanywhere is available even without global install'));
+  console.log(
+    chalk.gray(
+      `   • Other events (${HOOK_EVENTS.filter(e => e !== 'Stop').join(', ')}) run "npx ccanywhere hook <event>"`
+    )
+  );
+  console.log();
+  console.log(chalk.yellow('For Codex CLI (~/.codex/config.toml, before any [table]):'));
+  console.log(chalk.cyan(`notify = [${CODEX_NOTIFY_COMMAND.map(arg => JSON.stringify(arg)).join(', ')}]`));
 }
 
 /**
@@ -209,6 +424,18 @@ export function createRegisterCommand(): Command {
     .option('--remove', 'Remove CCanywhere hooks from Claude Code')
     .option('--status', 'Show current hook registration status')
     .option('--manual', 'Show manual configuration instructions')
+    .option('--project', "Use the repository's .claude/settings.json instead of the user settings")
+    .option('--local', "Use the repository's .claude/settings.local.json (not committed)")
+    .option('--restore <backup>', 'Restore the settings file from a backup (see --status)')
+    .option('--agent <name>', `Agent to register with: ${AGENT_NAMES.join(', ')} (default: claude-code)`)
+    .option('--approval', 'Also register the PreToolUse hook for remote approval and tool policies')
+    .option('-e, --events <events>', `Comma separated hook events to register or remove (${HOOK_EVENTS.join(', ')})`)
+    .option(
+      '-m, --matcher <event=pattern>',
+      'Matcher of a hook event, e.g. PreToolUse="Bash|Edit" (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
     .action(registerCommand);
 }
 
@@ -15,6 +15,8 @@ import { execa } from 'execa';
 import { ConfigLoader } from '../../config/index.js';
 import { createLogger } from '../../core/logger.js';
 import { BuildPipeline } from '../../core/pipeline.js';
+import { getAgentAdapter } from '../../core/agents/index.js';
+import { StopDebouncer } from '../../core/debounce.js';
 import { initCommand } from './init.js';
 import type { CliOptions } from '../../types/index.js';
 
@@ -23,11 +25,17 @@ interface RunOptions extends CliOptions {
   head?: string;
   workDir?: string;
   hookMode?: boolean;
+  agent?: string; // Agent that runs the hook (default: claude-code)
+  payload?: string; // Hook payload passed as an argument (Codex notify)
+  debounced?: string; // Id of the scheduled run this process is (hooks.debounceSeconds)
 }
 
 export async function runCommand(options: RunOptions): Promise<void> {
   // Check if running in hook mode (from Claude Code hooks or CI/CD)
   const isHookMode = options.hookMode || process.env.CCANYWHERE_HOOK_MODE === 'true';
+
+  // Claude Code passes the session metadata as JSON on stdin, Codex as the --payload argument
+  const hookInput = isHookMode ? await getAgentAdapter(options.agent).readHookInput(options.payload) : undefined;
   
   // Check if configuration exists
   const configPaths = [
@@ -99,6 +107,38 @@ export async function runCommand(options: RunOptions): Promise<void> {
     // Setup logger
     const workDir = resolve(options.workDir || process.cwd());
     const logDir = resolve(workDir, '../logs');
+
+    // Stop fires after every response, so with hooks.debounceSeconds the build runs detached once Stop has
+    // been quiet that long. Every Stop reschedules it, and only the last scheduled run builds.
+    const debounceSeconds = isHookMode ? config.hooks?.debounceSeconds || 0 : 0;
+    if (debounceSeconds > 0) {
+      const debouncer = new StopDebouncer(workDir);
+      if (!options.debounced) {
+        await debouncer.schedule(
+          [
+            ...(options.config ? ['--config', options.config] : []),
+            ...(options.verbose ? ['--verbose'] : []),
+            ...(options.dryRun ? ['--dry-run'] : []),
+            'run',
+            '--hook-mode',
+            '--work-dir',
+            workDir,
+            ...(options.base ? ['--base', options.base] : []),
+            ...(options.head ? ['--head', options.head] : []),
+            ...(options.agent ? ['--agent', options.agent] : []),
+            ...(hookInput ? ['--payload', JSON.stringify(hookInput.raw)] : [])
+          ],
+          debounceSeconds
+        );
+        console.log(chalk.gray(`[CCanywhere] Build scheduled after ${debounceSeconds}s without another Stop`));
+        return;
+      }
+
+      if (!(await debouncer.waitForQuiet(options.debounced))) {
+        console.log(chalk.gray('[CCanywhere] Rescheduled by a later Stop, skipping'));
+        return;
+      }
+    }
     
     // Check if we're in a git repository
     const gitPath = join(workDir, '.git');
@@ -190,7 +230,9 @@ export async function runCommand(options: RunOptions): Promise<void> {
       workDir,
       config,
       logger,
-      dryRun: options.dryRun
+      dryRun: options.dryRun,
+      sessionId: hookInput?.sessionId,
+      transcriptPath: hookInput?.transcriptPath
     });
 
     if (options.dryRun) {
@@ -208,7 +250,9 @@ export async function runCommand(options: RunOptions): Promise<void> {
 
     // Display results
     console.log();
-    if (result.success) {
+    if (result.superseded) {
+      console.log(chalk.yellow('⏭️  Build skipped: a newer build is queued for this project'));
+    } else if (result.success) {
       console.log(chalk.green('✅ Build completed successfully!'));
       console.log(chalk.gray(`Duration: ${Math.round(result.duration / 1000)}s`));
       console.log(chalk.gray(`Revision: ${result.revision}`));
@@ -0,0 +1,105 @@
+/**
+ * Usage command - Report the token usage and cost of Claude Code sessions
+ */
+
+import { basename, resolve } from 'path';
+import { Command } from 'commander';
+import chalkModule from 'chalk';
+const chalk = chalkModule;
+import Table from 'cli-table3';
+import { UsageStore, groupUsage, totalUsage, formatCost, formatTokens } from '../../core/usage.js';
+import type { UsagePeriod, UsageTotals } from '../../core/usage.js';
+import { parseDate } from './history.js';
+
+interface UsageOptions {
+  by?: string;
+  since?: string;
+  json?: boolean;
+}
+
+const PERIODS: UsagePeriod[] = ['day', 'week', 'session'];
+const COLUMNS = ['Sessions', 'Input', 'Output', 'Cache read', 'Cache write', 'Cost'];
+
+export async function usageCommand(projects: string[], options: UsageOptions): Promise<void> {
+  try {
+    const period = (options.by || 'day') as UsagePeriod;
+    if (!PERIODS.includes(period)) {
+      throw new Error(`Invalid period: ${options.by} (expected ${PERIODS.join(', ')})`);
+    }
+    const since = options.since ? parseDate(options.since) : undefined;
+
+    const reports = await Promise.all(
+      (projects.length > 0 ? projects : [process.cwd()]).map(async project => {
+        const workDir = resolve(project);
+        const periods = groupUsage(await new UsageStore(workDir).list(since), period);
+        return { project: workDir, total: totalUsage(periods, basename(workDir)), periods };
+      })
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2));
+      return;
+    }
+
+    for (const report of reports) {
+      console.log(chalk.blue.bold(`📊 Token usage: ${basename(report.project)}`));
+
+      if (report.periods.length === 0) {
+        console.log(chalk.gray('No sessions recorded yet'));
+        console.log();
+        continue;
+      }
+
+      const table = new Table({
+        head: [period === 'session' ? 'Session' : period === 'week' ? 'Week of' : 'Day', ...COLUMNS]
+      });
+      for (const totals of report.periods) {
+        table.push([period === 'session' ? totals.key.substring(0, 8) : totals.key, ...formatRow(totals)]);
+      }
+      table.push([chalk.bold('Total'), ...formatRow(report.total).map(cell => chalk.bold(cell))]);
+
+      console.log(table.toString());
+      console.log();
+    }
+
+    if (reports.length > 1) {
+      const table = new Table({ head: ['Project', ...COLUMNS] });
+      for (const report of reports) {
+        table.push([report.total.key, ...formatRow(report.total)]);
+      }
+      const total = totalUsage(
+        reports.map(report => report.total),
+        'Total'
+      );
+      table.push([chalk.bold('Total'), ...formatRow(total).map(cell => chalk.bold(cell))]);
+      console.log(table.toString());
+    }
+  } catch (error) {
+    console.error(chalk.red('Failed to read token usage:'));
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+export function createUsageCommand(): Command {
+  return new Command('usage')
+    .description('Report token usage and estimated cost of Claude Code sessions')
+    .argument('[projects...]', 'Project directories (default: current directory)')
+    .option('--by <period>', `Group by ${PERIODS.join(', ')}`, 'day')
+    .option('--since <date>', 'Only count sessions after a date (ISO date or relative, e.g. 7d, 4w)')
+    .option('-j, --json', 'Output in JSON format')
+    .action(usageCommand);
+}
+
+function formatRow(totals: UsageTotals): string[] {
+  return [
+    String(totals.sessions),
+    formatTokens(totals.inputTokens),
+    formatTokens(totals.outputTokens),
+    formatTokens(totals.cacheReadTokens),
+    formatTokens(totals.cacheCreationTokens),
+    formatCost(totals.cost)
+  ];
+}
+
+export default createUsageCommand;
@@ -4,7 +4,7 @@
  * CCanywhere CLI entry point
  */
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalkModule from 'chalk';
 const chalk = chalkModule;
 import { getVersion } from '../utils/version.js';
@@ -13,7 +13,11 @@ import { runCommand } from './commands/run.js';
 import { testCommand } from './commands/test-runner.js';
 import { infoCommand } from './commands/info.js';
 import { cleanupCommand } from './commands/cleanup.js';
+import { lockCommand } from './commands/lock.js';
+import { createHistoryCommand } from './commands/history.js';
+import { createUsageCommand } from './commands/usage.js';
 import { createRegisterCommand } from './commands/register.js';
+import { createHookCommand } from './commands/hook.js';
 import { checkFirstRun } from '../utils/first-run.js';
 
 const program = new Command();
@@ -48,10 +52,13 @@ program
 program
   .command('run')
   .description('Run the complete build pipeline')
-  .option('-b, --base <ref>', 'Base git reference for diff', 'origin/main')
-  .option('-h, --head <ref>', 'Head git reference for diff', 'HEAD')
+  .option('-b, --base <ref>', 'Base git reference for diff (default: build.base, or the session start snapshot)')
+  .option('-h, --head <ref>', 'Head git reference for diff (default: HEAD)')
   .option('-w, --work-dir <path>', 'Working directory', process.cwd())
   .option('--hook-mode', 'Run in hook mode (skip if no config)', false)
+  .option('--agent <name>', 'Agent running the hook: claude-code or codex (default: claude-code)')
+  .option('--payload <json>', 'Hook payload, for agents that pass it as an argument (Codex notify)')
+  .addOption(new Option('--debounced <id>', 'Run scheduled by a debounced Stop (internal)').hideHelp())
   .action(runCommand);
 
 // Test configuration
@@ -76,12 +83,24 @@ program
   .option('-f, --force', 'Force cleanup without confirmation')
   .action(cleanupCommand);
 
+// Build locks
+program.addCommand(lockCommand.description('Manage build locks'));
+
 // Claude Code integration
 program.addCommand(createRegisterCommand());
 
+// Claude Code hook handlers (run by the hooks registered above)
+program.addCommand(createHookCommand());
+
 // Build info command
 program.addCommand(infoCommand);
 
+// Build history
+program.addCommand(createHistoryCommand());
+
+// Token usage of Claude Code sessions
+program.addCommand(createUsageCommand());
+
 // Handle errors
 program.exitOverride();
 
@@ -96,7 +115,8 @@ async function main() {
   try {
     // Check for first run (allow interactive for most commands)
     const command = process.argv[2];
-    const skipFirstRunCheck = command === '--help' || command === '-h' || command === '--version' || command === '-V';
+    const skipFirstRunCheck =
+      command === '--help' || command === '-h' || command === '--version' || command === '-V' || command === 'hook';
 
     if (!skipFirstRunCheck) {
       // Allow interactive prompt for first run
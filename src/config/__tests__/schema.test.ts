@@ -200,6 +200,139 @@ describe('Configuration Schema', () => {
 
       expect(() => validateConfig(config)).toThrow('Deployment webhook must be a valid URL');
     });
+
+    it('should accept plugin module names and option objects', () => {
+      const config = {
+        plugins: ['ccanywhere-plugin-metrics', { module: './plugins/jira.js', options: { project: 'APP' } }]
+      };
+
+      const validated = validateConfig(config);
+      expect(validated.plugins).toEqual(config.plugins);
+    });
+
+    it('should reject plugin entries without a module', () => {
+      expect(() => validateConfig({ plugins: [{ options: {} }] })).toThrow('Configuration validation failed');
+    });
+
+    it('should accept custom pipeline steps', () => {
+      const config = {
+        steps: [
+          { name: 'typecheck', command: 'npx tsc --noEmit', timeout: 120 },
+          { name: 'lint', command: 'npx eslint .', cwd: 'packages/app', env: { CI: '1' }, continueOnError: true }
+        ]
+      };
+
+      const validated = validateConfig(config);
+      expect(validated.steps).toEqual(config.steps);
+    });
+
+    it('should reject duplicate step names', () => {
+      const config = {
+        steps: [
+          { name: 'lint', command: 'npm run lint' },
+          { name: 'lint', command: 'npm run lint:css' }
+        ]
+      };
+
+      expect(() => validateConfig(config)).toThrow('Step names must be unique');
+    });
+
+    it('should keep diff and hooks settings', () => {
+      const config = {
+        diff: {
+          scope: 'branch',
+          incremental: false,
+          outputFormat: 'both',
+          splitLines: 0,
+          fragmentLines: 200,
+          collapse: ['dist']
+        },
+        hooks: { Stop: true, SessionStart: true }
+      };
+
+      const validated = validateConfig(config);
+      expect(validated.diff).toEqual(config.diff);
+      expect(validated.hooks).toEqual(config.hooks);
+    });
+
+    it('should reject an unknown diff scope or output format', () => {
+      expect(() => validateConfig({ diff: { scope: 'everything' } })).toThrow('Configuration validation failed');
+      expect(() => validateConfig({ diff: { outputFormat: 'unified' } })).toThrow('Configuration validation failed');
+    });
+
+    it('should reject invalid diff split thresholds', () => {
+      expect(() => validateConfig({ diff: { splitLines: -1 } })).toThrow('Configuration validation failed');
+      expect(() => validateConfig({ diff: { fragmentLines: 0 } })).toThrow('Configuration validation failed');
+    });
+
+    it('should keep remote approval settings', () => {
+      const config = {
+        notifications: {
+          channels: ['telegram'],
+          telegram: { botToken: '123456789:test-token', chatId: '42', apiBaseUrl: 'http://localhost:8081' }
+        },
+        security: {
+          readOnly: false,
+          approval: { enabled: true, tools: ['Bash', 'mcp__github__*'], timeout: 300, defaultDecision: 'allow' }
+        }
+      };
+
+      const validated = validateConfig(config);
+      expect(validated.notifications?.telegram?.apiBaseUrl).toBe('http://localhost:8081');
+      expect(validated.security?.approval).toEqual(config.security.approval);
+    });
+
+    it('should keep policy rules', () => {
+      const policies = [
+        { name: 'protect-env', paths: ['.env*'], action: 'deny' },
+        { tool: 'Bash', command: 'git\\s+push', branch: ['main', 'release/*'], action: 'ask', reason: 'Pushing' }
+      ];
+
+      expect(validateConfig({ security: { policies } }).security?.policies).toEqual(policies);
+    });
+
+    it('should reject policy rules with an invalid command regex or action', () => {
+      expect(() => validateConfig({ security: { policies: [{ command: '(', action: 'deny' }] } })).toThrow(
+        'Policy command must be a valid regular expression'
+      );
+      expect(() => validateConfig({ security: { policies: [{ tool: 'Bash', action: 'block' }] } })).toThrow(
+        'Configuration validation failed'
+      );
+    });
+
+    it('should reject an unknown default approval decision', () => {
+      expect(() => validateConfig({ security: { approval: { defaultDecision: 'ask' } } })).toThrow(
+        'Configuration validation failed'
+      );
+    });
+
+    it('should keep usage pricing', () => {
+      const usage = { pricing: { 'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3 } } };
+
+      expect(validateConfig({ usage }).usage).toEqual(usage);
+      expect(() => validateConfig({ usage: { pricing: { 'claude-sonnet-4': { input: -1, output: 15 } } } })).toThrow(
+        'Configuration validation failed'
+      );
+    });
+
+    it('should keep the session notification settings', () => {
+      const notifications = {
+        channels: ['telegram'],
+        telegram: { botToken: '123:abc', chatId: '42' },
+        onSessionStart: false,
+        onSessionEnd: true
+      };
+
+      expect(validateConfig({ notifications }).notifications).toEqual(notifications);
+    });
+
+    it('should keep the Stop debounce period', () => {
+      expect(validateConfig({ hooks: { Stop: true, debounceSeconds: 30 } }).hooks).toEqual({
+        Stop: true,
+        debounceSeconds: 30
+      });
+      expect(() => validateConfig({ hooks: { debounceSeconds: -5 } })).toThrow('Configuration validation failed');
+    });
   });
 
   describe('getDefaultConfig', () => {
@@ -36,7 +36,8 @@ export const DeploymentConfigSchema = z
 
 export const TelegramConfigSchema = z.object({
   botToken: z.string().regex(/^\d+:[\w-]+$/, 'Invalid Telegram bot token format'),
-  chatId: z.string().min(1, 'Telegram chat ID is required')
+  chatId: z.string().min(1, 'Telegram chat ID is required'),
+  apiBaseUrl: z.string().url().optional()
 });
 
 export const DingTalkConfigSchema = z
@@ -68,7 +69,9 @@ export const NotificationsConfigSchema = z
     telegram: TelegramConfigSchema.optional(),
     dingtalk: DingTalkConfigSchema.optional(),
     wecom: WeComConfigSchema.optional(),
-    email: EmailConfigSchema.optional()
+    email: EmailConfigSchema.optional(),
+    onSessionStart: z.boolean().optional(),
+    onSessionEnd: z.boolean().optional()
   })
   .refine(data => {
     // Validate that required config exists for each enabled channel
@@ -112,7 +115,9 @@ export const BuildConfigSchema = z.object({
   base: z.string().min(1).default('origin/main'),
   lockTimeout: z.number().min(1).max(3600).default(300),
   cleanupDays: z.number().min(1).max(365).default(7),
-  excludePaths: z.array(z.string()).default(['.artifacts']).optional()
+  excludePaths: z.array(z.string()).default(['.artifacts']).optional(),
+  lockScope: z.enum(['project', 'branch']).optional(),
+  coalesce: z.boolean().optional()
 });
 
 export const TestConfigSchema = z
@@ -125,10 +130,42 @@ export const TestConfigSchema = z
   })
   .optional();
 
+export const ApprovalConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  tools: z.array(z.string().min(1)).optional(),
+  timeout: z.number().min(5).max(3600).optional(),
+  defaultDecision: z.enum(['allow', 'deny']).optional()
+});
+
+export const PolicyRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  tool: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+  command: z
+    .string()
+    .refine(
+      pattern => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Policy command must be a valid regular expression' }
+    )
+    .optional(),
+  paths: z.array(z.string().min(1)).optional(),
+  branch: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+  action: z.enum(['allow', 'deny', 'ask']),
+  reason: z.string().optional()
+});
+
 export const SecurityConfigSchema = z
   .object({
     readOnly: z.boolean().default(false),
-    linkExpiry: z.number().min(60).max(86400).optional()
+    linkExpiry: z.number().min(60).max(86400).optional(),
+    approval: ApprovalConfigSchema.optional(),
+    policies: z.array(PolicyRuleSchema).optional()
   })
   .optional();
 
@@ -192,6 +229,68 @@ export const ArtifactsConfigSchema = z
   })
   .optional();
 
+export const PluginSpecSchema = z.union([
+  z.string().min(1, 'Plugin module is required'),
+  z.object({
+    module: z.string().min(1, 'Plugin module is required'),
+    options: z.record(z.unknown()).optional(),
+    enabled: z.boolean().optional()
+  })
+]);
+
+export const PluginsConfigSchema = z.array(PluginSpecSchema).optional();
+
+export const PipelineStepSchema = z.object({
+  name: z.string().min(1, 'Step name is required'),
+  command: z.string().min(1, 'Step command is required'),
+  timeout: z.number().min(1).max(86400).optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  continueOnError: z.boolean().optional()
+});
+
+export const StepsConfigSchema = z
+  .array(PipelineStepSchema)
+  .refine(steps => new Set(steps.map(step => step.name)).size === steps.length, 'Step names must be unique')
+  .optional();
+
+export const DiffConfigSchema = z
+  .object({
+    scope: z.enum(['session', 'branch']).optional(),
+    incremental: z.boolean().optional(),
+    outputFormat: z.enum(['line-by-line', 'side-by-side', 'both']).optional(),
+    splitLines: z.number().int().min(0).optional(),
+    fragmentLines: z.number().int().positive().optional(),
+    collapse: z.array(z.string()).optional()
+  })
+  .optional();
+
+export const HooksConfigSchema = z
+  .object({
+    Stop: z.boolean().optional(),
+    PostToolUse: z.boolean().optional(),
+    PreToolUse: z.boolean().optional(),
+    UserPromptSubmit: z.boolean().optional(),
+    SessionStart: z.boolean().optional(),
+    SessionEnd: z.boolean().optional(),
+    debounceSeconds: z.number().min(0).optional()
+  })
+  .optional();
+
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheWrite: z.number().min(0).optional(),
+  cacheRead: z.number().min(0).optional()
+});
+
+export const UsageConfigSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    pricing: z.record(z.string().min(1), ModelPriceSchema).optional()
+  })
+  .optional();
+
 export const CcanywhereConfigSchema = z.object({
   repo: RepoConfigSchema,
   urls: UrlsConfigSchema, // Deprecated - kept for backward compatibility
@@ -201,6 +300,11 @@ export const CcanywhereConfigSchema = z.object({
   test: TestConfigSchema,
   security: SecurityConfigSchema,
   artifacts: ArtifactsConfigSchema,
+  diff: DiffConfigSchema,
+  hooks: HooksConfigSchema,
+  usage: UsageConfigSchema,
+  plugins: PluginsConfigSchema,
+  steps: StepsConfigSchema,
   storage: StorageConfigSchema // Deprecated - kept for backward compatibility
 });
 
@@ -0,0 +1,282 @@
+/**
+ * Tests for remote approval, run against a local stand-in for the Telegram Bot API
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { requiresApproval, formatApprovalRequest, TelegramApprover } from '../approval.js';
+
+/**
+ * Request body of a Bot API call, with the fields the tests look at
+ */
+interface ApiBody {
+  chat_id?: string;
+  message_id?: number;
+  text?: string;
+  offset?: number;
+  reply_markup?: { inline_keyboard: { text: string; callback_data: string }[][] };
+  [key: string]: unknown;
+}
+
+interface ApiCall {
+  method: string;
+  body: ApiBody;
+}
+
+interface Update {
+  update_id: number;
+  callback_query: {
+    id: string;
+    from?: { id: number; username: string };
+    message: { message_id?: number; chat?: { id: number } };
+    data: string;
+  };
+}
+
+/**
+ * Minimal Bot API: records calls, keeps pending updates and lets a test answer sent messages
+ */
+class FakeTelegram {
+  calls: ApiCall[] = [];
+  updates: Update[] = [];
+  onSendMessage?: (body: ApiBody) => void;
+  failSendMessage = false;
+  private server?: Server;
+  private nextUpdateId = 10;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        const method = (req.url || '').split('/').pop() as string;
+        const body: ApiBody = data ? JSON.parse(data) : {};
+        this.calls.push({ method, body });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(this.handle(method, body)));
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve));
+  }
+
+  press(body: ApiBody, decision: 'allow' | 'deny', chatId = body.chat_id, requestId?: string): void {
+    const data = body.reply_markup!.inline_keyboard[0]![decision === 'allow' ? 0 : 1]!.callback_data;
+    this.updates.push({
+      update_id: this.nextUpdateId++,
+      callback_query: {
+        id: `query-${this.nextUpdateId}`,
+        from: { id: 1, username: 'alice' },
+        message: { message_id: 42, chat: { id: Number(chatId) } },
+        data: requestId ? data.replace(/^(ccanywhere:\w+:)\w+/, `$1${requestId}`) : data
+      }
+    });
+  }
+
+  methods(): string[] {
+    return this.calls.map(call => call.method);
+  }
+
+  private handle(method: string, body: ApiBody): unknown {
+    switch (method) {
+      case 'sendMessage':
+        if (this.failSendMessage) {
+          return { ok: false, description: 'Bad Request: chat not found' };
+        }
+        setImmediate(() => this.onSendMessage?.(body));
+        return { ok: true, result: { message_id: 42 } };
+      case 'getUpdates':
+        if (body.offset) {
+          this.updates = this.updates.filter(update => update.update_id >= body.offset!);
+        }
+        return { ok: true, result: this.updates };
+      default:
+        return { ok: true, result: true };
+    }
+  }
+}
+
+describe('remote approval', () => {
+  describe('requiresApproval', () => {
+    it('should match the default tools', () => {
+      expect(requiresApproval('Bash')).toBe(true);
+      expect(requiresApproval('Edit')).toBe(true);
+      expect(requiresApproval('Read')).toBe(false);
+    });
+
+    it('should support wildcards', () => {
+      expect(requiresApproval('mcp__github__create_issue', ['mcp__github__*'])).toBe(true);
+      expect(requiresApproval('mcp__slack__post', ['mcp__github__*'])).toBe(false);
+      expect(requiresApproval('Anything', ['*'])).toBe(true);
+    });
+  });
+
+  describe('formatApprovalRequest', () => {
+    it('should show the command of a Bash call', () => {
+      expect(
+        formatApprovalRequest({
+          tool: 'Bash',
+          input: { command: 'rm -rf dist' },
+          workDir: '/home/user/app',
+          sessionId: '3f2a9c1e-7b4d'
+        })
+      ).toBe('🔐 Permission request\nTool: Bash\nProject: app\nSession: 3f2a9c1e\n\n$ rm -rf dist');
+    });
+
+    it('should show the file of an edit', () => {
+      expect(formatApprovalRequest({ tool: 'Write', input: { file_path: '/app/a.ts', content: '...' } })).toContain(
+        'File: /app/a.ts'
+      );
+    });
+
+    it('should truncate large inputs', () => {
+      const text = formatApprovalRequest({ tool: 'Other', input: { data: 'x'.repeat(2000) } });
+
+      expect(text.length).toBeLessThan(900);
+      expect(text.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('TelegramApprover', () => {
+    let telegram: FakeTelegram;
+    let apiBaseUrl: string;
+
+    const request = { tool: 'Bash', input: { command: 'npm publish' } };
+
+    beforeEach(async () => {
+      telegram = new FakeTelegram();
+      apiBaseUrl = await telegram.start();
+    });
+
+    afterEach(async () => {
+      await telegram.stop();
+    });
+
+    const createApprover = (config = {}) =>
+      new TelegramApprover({ botToken: '123:abc', chatId: '1001', apiBaseUrl }, { timeout: 5, ...config }, 10);
+
+    it('should send the request with Approve and Deny buttons', async () => {
+      telegram.onSendMessage = body => telegram.press(body, 'allow');
+
+      await createApprover().requestApproval(request);
+
+      const sent = telegram.calls.find(call => call.method === 'sendMessage')!.body;
+      expect(sent.chat_id).toBe('1001');
+      expect(sent.text).toContain('$ npm publish');
+      expect(sent.reply_markup!.inline_keyboard[0]!.map(button => button.text)).toEqual(['✅ Approve', '❌ Deny']);
+    });
+
+    it('should allow the call when approved', async () => {
+      telegram.onSendMessage = body => telegram.press(body, 'allow');
+
+      const result = await createApprover().requestApproval(request);
+
+      expect(result).toEqual({ decision: 'allow', reason: 'Approved remotely by alice', timedOut: false });
+      expect(telegram.methods()).toEqual(expect.arrayContaining(['answerCallbackQuery', 'editMessageText']));
+      const edited = telegram.calls.find(call => call.method === 'editMessageText')!.body;
+      expect(edited).toEqual(expect.objectContaining({ message_id: 42, text: expect.stringContaining('✅ Approved') }));
+      expect(telegram.updates).toEqual([]);
+    });
+
+    it('should deny the call when denied', async () => {
+      telegram.onSendMessage = body => telegram.press(body, 'deny');
+
+      const result = await createApprover().requestApproval(request);
+
+      expect(result.decision).toBe('deny');
+      expect(result.reason).toBe('Denied remotely by alice');
+    });
+
+    it('should ignore answers to other requests and other chats', async () => {
+      telegram.onSendMessage = body => {
+        telegram.press(body, 'allow', body.chat_id, 'other123');
+        telegram.press(body, 'allow', '999');
+        setTimeout(() => telegram.press(body, 'deny'), 50);
+      };
+
+      const result = await createApprover().requestApproval(request);
+
+      expect(result.decision).toBe('deny');
+    });
+
+    it('should fall back to the default decision on timeout', async () => {
+      const result = await createApprover({ timeout: 0.1 }).requestApproval(request);
+
+      expect(result).toEqual({ decision: 'deny', reason: 'No answer within 0.1s, denied by default', timedOut: true });
+      expect(telegram.methods()).not.toContain('answerCallbackQuery');
+      expect(telegram.calls.find(call => call.method === 'editMessageText')!.body.text).toContain('⏱️');
+    });
+
+    it('should honor an allow default decision', async () => {
+      const result = await createApprover({ timeout: 0.1, defaultDecision: 'allow' }).requestApproval(request);
+
+      expect(result.decision).toBe('allow');
+      expect(result.timedOut).toBe(true);
+    });
+
+    it('should fall back to the default decision when the request cannot be sent', async () => {
+      telegram.failSendMessage = true;
+
+      const result = await createApprover({ defaultDecision: 'allow' }).requestApproval(request);
+
+      expect(result).toEqual({
+        decision: 'allow',
+        reason:
+          'Approval request could not be sent (Telegram API error: Bad Request: chat not found), allowed by default',
+        timedOut: false
+      });
+      expect(telegram.methods()).not.toContain('getUpdates');
+    });
+
+    it('should keep the answers of concurrent requests polling the same bot', async () => {
+      const sent: ApiBody[] = [];
+      telegram.onSendMessage = body => {
+        sent.push(body);
+        if (sent.length === 2) {
+          // The second request is answered first, so its press comes before the other one
+          setTimeout(() => {
+            telegram.press(sent[1]!, 'allow');
+            telegram.press(sent[0]!, 'deny');
+          }, 50);
+        }
+      };
+
+      const [first, second] = await Promise.all([
+        createApprover().requestApproval(request),
+        // Polling slower, so the first request sees both presses first
+        new TelegramApprover({ botToken: '123:abc', chatId: '1001', apiBaseUrl }, { timeout: 5 }, 200).requestApproval({
+          tool: 'Write',
+          input: { file_path: '/app/a.ts' }
+        })
+      ]);
+
+      expect(first.decision).toBe('deny');
+      expect(second.decision).toBe('allow');
+    });
+
+    it('should answer and drop presses of expired requests', async () => {
+      telegram.updates.push(
+        { update_id: 1, callback_query: { id: 'stale-1', data: 'ccanywhere:allow:old12345:1', message: {} } },
+        { update_id: 2, callback_query: { id: 'stale-2', data: 'ccanywhere:deny:old67890', message: {} } }
+      );
+      telegram.onSendMessage = body => telegram.press(body, 'allow');
+
+      const result = await createApprover().requestApproval(request);
+
+      expect(result.decision).toBe('allow');
+      const answered = telegram.calls.filter(call => call.method === 'answerCallbackQuery').map(call => call.body);
+      expect(answered).toEqual(
+        expect.arrayContaining([
+          { callback_query_id: 'stale-1', text: 'This request has expired' },
+          { callback_query_id: 'stale-2', text: 'This request has expired' }
+        ])
+      );
+      expect(telegram.updates).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the tool usage audit and its activity timeline
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { appendFile, ensureDir, pathExists, readFile, remove } = fsExtra;
+import {
+  ToolAudit,
+  getAuditFile,
+  getToolStatus,
+  publishAuditTimeline,
+  renderAuditTimeline,
+  summarizeToolInput
+} from '../audit.js';
+
+describe('tool usage audit', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-audit-${Date.now()}`);
+    await ensureDir(testDir);
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('summarizeToolInput', () => {
+    it('should describe commands, files and searches', () => {
+      expect(summarizeToolInput('Bash', { command: 'npm test\n  -- --watch=false' })).toBe(
+        '$ npm test -- --watch=false'
+      );
+      expect(summarizeToolInput('Edit', { file_path: '/app/src/a.ts', old_string: 'a' }, '/app')).toBe('src/a.ts');
+      expect(summarizeToolInput('Grep', { pattern: 'TODO', path: 'src' })).toBe('TODO in src');
+      expect(summarizeToolInput('WebFetch', { url: 'https://example.com', prompt: 'Summarize' })).toBe(
+        'https://example.com'
+      );
+      expect(summarizeToolInput('TodoWrite')).toBe('TodoWrite');
+    });
+
+    it('should truncate long arguments', () => {
+      const summary = summarizeToolInput('Other', { data: 'x'.repeat(500) });
+
+      expect(summary).toHaveLength(200);
+      expect(summary.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('getToolStatus', () => {
+    it('should recognize failures', () => {
+      expect(getToolStatus({ stdout: 'ok', stderr: '', interrupted: false })).toEqual({ status: 'success' });
+      expect(getToolStatus({ interrupted: true })).toEqual({ status: 'interrupted' });
+      expect(getToolStatus({ exitCode: 2 })).toEqual({ status: 'error', exitCode: 2 });
+      expect(getToolStatus({ success: false })).toEqual({ status: 'error' });
+      expect(getToolStatus({ error: 'File not found' })).toEqual({ status: 'error' });
+      expect(getToolStatus('plain output')).toEqual({ status: 'success' });
+    });
+  });
+
+  describe('ToolAudit', () => {
+    it('should append tool calls to the session audit file', async () => {
+      const audit = new ToolAudit(testDir, 'session-1');
+
+      const entry = await audit.record(
+        {
+          tool: 'Write',
+          toolUseId: 'toolu_1',
+          input: { file_path: join(testDir, 'src/a.ts'), content: '...' },
+          response: { success: true }
+        },
+        1700000000000
+      );
+
+      expect(entry).toEqual({
+        timestamp: 1700000000000,
+        tool: 'Write',
+        toolUseId: 'toolu_1',
+        summary: 'src/a.ts',
+        status: 'success',
+        files: ['src/a.ts']
+      });
+      expect(audit.file).toBe(join(testDir, '.ccanywhere', 'audit', 'session-1.jsonl'));
+      expect(await audit.read()).toEqual([entry]);
+    });
+
+    it('should take the duration from the recorded start', async () => {
+      const audit = new ToolAudit(testDir, 'session-1');
+
+      await audit.start('toolu_1', 1000);
+      await audit.start('toolu_2', 1500);
+      const entry = await audit.record({ tool: 'Bash', toolUseId: 'toolu_1', input: { command: 'ls' } }, 3500);
+      const unpaired = await audit.record({ tool: 'Bash', toolUseId: 'toolu_3', input: { command: 'pwd' } }, 4000);
+
+      expect(entry.durationMs).toBe(2500);
+      expect(unpaired.durationMs).toBeUndefined();
+      expect((await audit.read()).map(e => e.summary)).toEqual(['$ ls', '$ pwd']);
+    });
+
+    it('should keep sessions apart and skip corrupt lines', async () => {
+      await new ToolAudit(testDir, 'session-1').record({ tool: 'Read', input: { file_path: 'a.ts' } });
+      await appendFile(getAuditFile(testDir, 'session-1'), '{"type":"tool"', 'utf8');
+
+      expect(await new ToolAudit(testDir, 'session-1').read()).toHaveLength(1);
+      expect(await new ToolAudit(testDir, 'session-2').read()).toEqual([]);
+      expect(getAuditFile(testDir, '../escape')).toBe(join(testDir, '.ccanywhere', 'audit', '___escape.jsonl'));
+    });
+  });
+
+  describe('renderAuditTimeline', () => {
+    it('should render every call with its outcome', () => {
+      const html = renderAuditTimeline(
+        [
+          { timestamp: 1700000000000, tool: 'Bash', summary: '$ rm <tmp>', status: 'error', exitCode: 1, files: [] },
+          {
+            timestamp: 1700000005000,
+            tool: 'Edit',
+            summary: 'src/a.ts',
+            status: 'success',
+            durationMs: 1200,
+            files: ['src/a.ts']
+          }
+        ],
+        { sessionId: '3f2a9c1e-7b4d', project: '/home/user/app' }
+      );
+
+      expect(html).toContain('<title>Activity timeline - app</title>');
+      expect(html).toContain('Session 3f2a9c1e · 2 tool call(s), 1 failed · 22:13:20 – 22:13:25 UTC');
+      expect(html).toContain('$ rm &lt;tmp&gt;');
+      expect(html).toContain('exit 1');
+      expect(html).toContain('1.2s');
+      expect(html).toContain('<code>src/a.ts</code>');
+    });
+  });
+
+  describe('publishAuditTimeline', () => {
+    const createContext = (sessionId?: string): any => ({
+      config: {},
+      timestamp: 1,
+      revision: 'abc123',
+      branch: 'main',
+      workDir: testDir,
+      artifactsDir: join(testDir, '.artifacts'),
+      logDir: 'logs',
+      lockFile: 'lock',
+      sessionId
+    });
+
+    it('should publish the timeline of the session as an artifact', async () => {
+      await new ToolAudit(testDir, '3f2a9c1e-7b4d').record({ tool: 'Bash', input: { command: 'npm test' } });
+
+      const artifact = await publishAuditTimeline(createContext('3f2a9c1e-7b4d'));
+
+      expect(artifact).toEqual(
+        expect.objectContaining({
+          type: 'timeline',
+          url: '/diffs/timeline-3f2a9c1e-abc123.html',
+          path: join(testDir, '.artifacts', 'timeline-3f2a9c1e-abc123.html')
+        })
+      );
+      expect(await readFile(artifact!.path, 'utf8')).toContain('$ npm test');
+    });
+
+    it('should skip sessions without recorded calls', async () => {
+      expect(await publishAuditTimeline(createContext('empty'))).toBeUndefined();
+      expect(await publishAuditTimeline(createContext())).toBeUndefined();
+      expect(await pathExists(join(testDir, '.artifacts'))).toBe(false);
+    });
+  });
+});
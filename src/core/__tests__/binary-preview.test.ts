@@ -0,0 +1,105 @@
+/**
+ * Tests for binary file previews in diff pages
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import * as diff2html from 'diff2html';
+import { formatBytes, insertFileSections, renderBinaryPreviews, type AssetPublisher } from '../binary-preview.js';
+
+const BINARY_DIFF = [
+  'diff --git a/icon.png b/icon.png',
+  'index f584f40..2375376 100644',
+  'Binary files a/icon.png and b/icon.png differ',
+  'diff --git a/app.ts b/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/app.ts',
+  '+++ b/app.ts',
+  '@@ -1 +1 @@',
+  '-export const a = 1;',
+  '+export const a = 2;',
+  'diff --git a/data.bin b/data.bin',
+  'new file mode 100644',
+  'index 0000000..8fbd332',
+  'Binary files /dev/null and b/data.bin differ'
+].join('\n');
+
+describe('binary previews', () => {
+  const files = diff2html.parse(BINARY_DIFF);
+  const blobs: Record<string, Buffer> = {
+    'old:icon.png': Buffer.from('old image'),
+    'new:icon.png': Buffer.from('new image!'),
+    'new:data.bin': Buffer.alloc(2048)
+  };
+  const readOld = async (path: string) => blobs[`old:${path}`] ?? null;
+  const readNew = async (path: string) => blobs[`new:${path}`] ?? null;
+
+  it('should publish both sides of changed images for comparison', async () => {
+    const publish = jest.fn<AssetPublisher>(async fileName => fileName);
+
+    const previews = await renderBinaryPreviews(files, readOld, readNew, 'diff-abc', publish);
+
+    expect(publish).toHaveBeenCalledWith('diff-abc-0-before.png', blobs['old:icon.png'], 'image/png');
+    expect(publish).toHaveBeenCalledWith('diff-abc-0-after.png', blobs['new:icon.png'], 'image/png');
+    expect(publish).toHaveBeenCalledTimes(2);
+    expect(previews[0]).toContain('<div class="image-compare" data-mode="2-up">');
+    expect(previews[0]).toContain('src="diff-abc-0-before.png"');
+    expect(previews[0]).toContain('Size 9 B → 10 B (+1 B)');
+    expect(previews[1]).toBeUndefined();
+  });
+
+  it('should summarize other binary files by size and hash', async () => {
+    const previews = await renderBinaryPreviews(files, readOld, readNew, 'diff-abc', jest.fn<AssetPublisher>());
+
+    expect(previews[2]).not.toContain('image-compare');
+    expect(previews[2]).toContain('Size — → 2.0 KB (+2.0 KB)');
+    expect(previews[2]).toMatch(/SHA-256 — → <code>[0-9a-f]{12}<\/code>/);
+  });
+
+  it('should compare changed SVG images although git diffs them as text', async () => {
+    const svgFiles = diff2html.parse(
+      [
+        'diff --git a/logo.svg b/logo.svg',
+        'index 3333333..4444444 100644',
+        '--- a/logo.svg',
+        '+++ b/logo.svg',
+        '@@ -1 +1 @@',
+        '-<svg><circle r="1"/></svg>',
+        '+<svg><circle r="2"/></svg>'
+      ].join('\n')
+    );
+    const svg = (radius: number) => Buffer.from(`<svg><circle r="${radius}"/></svg>`);
+    const publish = jest.fn<AssetPublisher>(async fileName => fileName);
+
+    const previews = await renderBinaryPreviews(
+      svgFiles,
+      async () => svg(1),
+      async () => svg(2),
+      'diff-abc',
+      publish
+    );
+
+    expect(svgFiles[0]!.isBinary).toBeFalsy();
+    expect(publish).toHaveBeenCalledWith('diff-abc-0-before.svg', svg(1), 'image/svg+xml');
+    expect(publish).toHaveBeenCalledWith('diff-abc-0-after.svg', svg(2), 'image/svg+xml');
+    expect(previews[0]).toContain('<div class="image-compare" data-mode="2-up">');
+  });
+
+  it('should insert previews before the diff of their file in both layouts', () => {
+    const previews = ['<div class="binary-preview">icon</div>', undefined, '<div class="binary-preview">data</div>'];
+
+    for (const outputFormat of ['line-by-line', 'side-by-side'] as const) {
+      const html = insertFileSections(diff2html.html(files, { outputFormat }), previews);
+      const wrappers = html.split('class="d2h-file-wrapper"').slice(1);
+
+      expect(wrappers[0]).toMatch(/<div class="binary-preview">icon<\/div><div class="d2h-files?-diff">/);
+      expect(wrappers[1]).not.toContain('binary-preview');
+      expect(wrappers[2]).toContain('<div class="binary-preview">data</div>');
+    }
+  });
+
+  it('should format byte counts', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for BuildQueue
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, pathExists, readFile } = fsExtra;
+import { BuildQueue, getPendingFilePath } from '../build-queue.js';
+import { FileLockManager } from '../lock-manager.js';
+import { LockError } from '../../types/index.js';
+
+describe('BuildQueue', () => {
+  let testDir: string;
+  let lockFile: string;
+  let lockManager: FileLockManager;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-queue-${Date.now()}`);
+    lockFile = join(testDir, 'owner_repo.lock');
+    await ensureDir(testDir);
+    lockManager = new FileLockManager();
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should derive the pending file from the lock file', () => {
+    expect(getPendingFilePath('/tmp/ccanywhere-locks/owner_repo.lock')).toBe(
+      '/tmp/ccanywhere-locks/owner_repo.pending'
+    );
+  });
+
+  it('should get its turn immediately when the lock is free', async () => {
+    const queue = new BuildQueue(lockManager, 10);
+
+    expect(await queue.waitForTurn(lockFile, 5)).toBe(true);
+    expect(await pathExists(getPendingFilePath(lockFile))).toBe(false);
+  });
+
+  it('should wait until the lock is released', async () => {
+    await lockManager.acquire(lockFile, 5);
+    const queue = new BuildQueue(lockManager, 10);
+
+    const turn = queue.waitForTurn(lockFile, 5);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(JSON.parse(await readFile(getPendingFilePath(lockFile), 'utf8')).pid).toBe(process.pid);
+    await lockManager.release(lockFile);
+
+    expect(await turn).toBe(true);
+  });
+
+  it('should only give the newest waiting run its turn', async () => {
+    await lockManager.acquire(lockFile, 5);
+    const queue = new BuildQueue(lockManager, 10);
+
+    const first = queue.waitForTurn(lockFile, 5);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const second = queue.waitForTurn(lockFile, 5);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const third = queue.waitForTurn(lockFile, 5);
+
+    expect(await first).toBe(false);
+    expect(await second).toBe(false);
+
+    await lockManager.release(lockFile);
+
+    expect(await third).toBe(true);
+    expect(await pathExists(getPendingFilePath(lockFile))).toBe(false);
+  });
+
+  it('should time out while the lock is held', async () => {
+    await lockManager.acquire(lockFile, 5);
+    const queue = new BuildQueue(lockManager, 10);
+
+    await expect(queue.waitForTurn(lockFile, 0.05)).rejects.toThrow(LockError);
+    expect(await pathExists(getPendingFilePath(lockFile))).toBe(false);
+
+    await lockManager.release(lockFile);
+  });
+});
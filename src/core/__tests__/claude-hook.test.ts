@@ -0,0 +1,188 @@
+/**
+ * Tests for Claude Code hook handlers
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, writeFile } = fsExtra;
+import { execa } from 'execa';
+import type { CcanywhereConfig, NotificationMessage } from '../../types/index.js';
+import type { ApprovalRequest, ApprovalResult } from '../approval.js';
+
+// Mock ConfigLoader
+const mockLoadConfig = jest.fn<(path?: string, workDir?: string) => Promise<CcanywhereConfig>>();
+
+jest.unstable_mockModule('@/config/index', () => ({
+  ConfigLoader: {
+    getInstance: () => ({ loadConfig: mockLoadConfig })
+  }
+}));
+
+// Mock notifications
+const mockSend = jest.fn<(message: NotificationMessage) => Promise<void>>();
+
+jest.unstable_mockModule('@/core/notifications/index', () => ({
+  NotificationManager: jest.fn(() => ({ send: mockSend }))
+}));
+
+// Mock remote approval
+const mockRequestApproval = jest.fn<(request: ApprovalRequest) => Promise<ApprovalResult>>();
+const mockTelegramApprover = jest.fn(() => ({ requestApproval: mockRequestApproval }));
+
+jest.unstable_mockModule('@/core/approval', () => ({
+  TelegramApprover: mockTelegramApprover,
+  requiresApproval: (tool: string, tools: string[] = ['Bash']) => tools.includes(tool)
+}));
+
+// Import the module after mocking
+const { ClaudeHooks } = await import('../claude-hook.js');
+const { validateConfig } = await import('../../config/schema.js');
+const { UsageStore } = await import('../usage.js');
+const { Logger } = await import('../../utils/logger.js');
+const { captureSnapshot, saveSnapshot, readSnapshot, getSessionSnapshotName } = await import('../snapshot.js');
+
+const notifications = {
+  channels: ['telegram'],
+  telegram: { botToken: '123:abc', chatId: '42' }
+};
+
+const transcript = [
+  JSON.stringify({ type: 'user', message: { role: 'user', content: 'Add a toggle' } }),
+  JSON.stringify({
+    type: 'assistant',
+    message: {
+      id: 'msg_1',
+      model: 'claude-sonnet-4-20250514',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'Done.' }],
+      usage: { input_tokens: 1200, output_tokens: 300 }
+    }
+  })
+].join('\n');
+
+describe('ClaudeHooks', () => {
+  let workDir: string;
+  let transcriptPath: string;
+
+  beforeEach(async () => {
+    workDir = join(tmpdir(), `ccanywhere-claude-hook-${Date.now()}`);
+    transcriptPath = join(workDir, 'session.jsonl');
+    await ensureDir(workDir);
+    await writeFile(transcriptPath, transcript);
+    jest.clearAllMocks();
+    mockSend.mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await remove(workDir);
+  });
+
+  describe('PreToolUse', () => {
+    const context = (command: string) => ({
+      workingDir: workDir,
+      sessionId: 'session-1',
+      data: { tool: 'Bash', args: { command } }
+    });
+    const policies = [
+      { tool: 'Bash', command: '^git push --force', action: 'deny' },
+      { tool: 'Bash', command: '^npm publish', action: 'ask', reason: 'Publishing needs a second look' }
+    ];
+
+    it('should block calls denied by policy without asking', async () => {
+      mockLoadConfig.mockResolvedValue(validateConfig({ security: { policies } }));
+      const info = jest.spyOn(Logger.getInstance(), 'info');
+
+      const result = await ClaudeHooks.PreToolUse(context('git push --force origin main'));
+
+      expect(result).toEqual(expect.objectContaining({ success: true, block: true, decision: 'deny' }));
+      expect(mockTelegramApprover).not.toHaveBeenCalled();
+      expect(info).toHaveBeenCalledWith(
+        expect.stringContaining('Bash:'),
+        expect.objectContaining({ step: 'permission', decision: 'deny', command: 'git push --force origin main' })
+      );
+    });
+
+    it.each<[string, ApprovalResult, boolean]>([
+      ['approved', { decision: 'allow', reason: 'Approved remotely by alice', timedOut: false }, false],
+      ['denied', { decision: 'deny', reason: 'Denied remotely by alice', timedOut: false }, true],
+      ['timed out', { decision: 'deny', reason: 'No answer within 120s, denied by default', timedOut: true }, true]
+    ])('should report the answer when an ask is %s', async (_, answer, block) => {
+      mockLoadConfig.mockResolvedValue(validateConfig({ notifications, security: { policies } }));
+      mockRequestApproval.mockResolvedValue(answer);
+
+      const result = await ClaudeHooks.PreToolUse(context('npm publish'));
+
+      expect(mockTelegramApprover).toHaveBeenCalledWith(notifications.telegram, undefined);
+      expect(mockRequestApproval).toHaveBeenCalledWith({
+        tool: 'Bash',
+        input: { command: 'npm publish' },
+        workDir,
+        sessionId: 'session-1'
+      });
+      expect(result).toEqual({ success: true, message: answer.reason, block, decision: answer.decision });
+    });
+
+    it('should ask for tools that require approval when no policy matches', async () => {
+      const approval = { enabled: true, tools: ['Bash'], defaultDecision: 'allow' as const };
+      mockLoadConfig.mockResolvedValue(validateConfig({ notifications, security: { approval } }));
+      mockRequestApproval.mockResolvedValue({ decision: 'allow', reason: 'Approved remotely', timedOut: false });
+
+      const result = await ClaudeHooks.PreToolUse(context('ls'));
+
+      expect(mockTelegramApprover).toHaveBeenCalledWith(notifications.telegram, approval);
+      expect(result.decision).toBe('allow');
+    });
+
+    it('should let the call through without a decision when the hook fails', async () => {
+      mockLoadConfig.mockResolvedValue(validateConfig({ notifications, security: { policies } }));
+      mockRequestApproval.mockRejectedValue(new Error('socket hang up'));
+
+      const result = await ClaudeHooks.PreToolUse(context('npm publish'));
+
+      expect(result).toEqual({ success: true, message: 'PreToolUse hook failed but allowing operation' });
+    });
+  });
+
+  describe('SessionEnd', () => {
+    const context = () => ({ workingDir: workDir, sessionId: 'session-1', transcriptPath });
+
+    it('should send the session usage when onSessionEnd is configured', async () => {
+      mockLoadConfig.mockResolvedValue(
+        validateConfig({ hooks: { SessionEnd: true }, notifications: { ...notifications, onSessionEnd: true } })
+      );
+
+      const result = await ClaudeHooks.SessionEnd(context());
+
+      expect(result.success).toBe(true);
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: '🏁 Claude Code Session Ended',
+          sessionId: 'session-1',
+          extra: expect.stringContaining('🪙 Tokens: 1.2k in, 300 out')
+        })
+      );
+    });
+
+    it('should only record usage without onSessionEnd', async () => {
+      mockLoadConfig.mockResolvedValue(validateConfig({ hooks: { SessionEnd: true }, notifications }));
+
+      await ClaudeHooks.SessionEnd(context());
+
+      expect(mockSend).not.toHaveBeenCalled();
+      const records = await new UsageStore(workDir).list();
+      expect(records).toEqual([expect.objectContaining({ sessionId: 'session-1', outputTokens: 300 })]);
+    });
+
+    it('should delete the session baseline', async () => {
+      mockLoadConfig.mockResolvedValue(validateConfig({}));
+      await execa('git', ['init', '-q'], { cwd: workDir });
+      await saveSnapshot(workDir, getSessionSnapshotName('session-1'), await captureSnapshot(workDir));
+
+      await ClaudeHooks.SessionEnd(context());
+
+      expect(await readSnapshot(workDir, getSessionSnapshotName('session-1'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for debounced Stop handling
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SpawnOptions } from 'child_process';
+import fsExtra from 'fs-extra';
+const { ensureDir, pathExists, remove } = fsExtra;
+
+// Mock child_process so no run is actually started
+const mockUnref = jest.fn<() => void>();
+const mockSpawn = jest.fn<(command: string, args: string[], options: SpawnOptions) => { unref: () => void }>(() => ({
+  unref: mockUnref
+}));
+jest.unstable_mockModule('child_process', () => ({
+  spawn: mockSpawn
+}));
+
+// Import the module after mocking
+const { StopDebouncer, getDebounceFile } = await import('../debounce.js');
+
+describe('StopDebouncer', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-debounce-${Date.now()}`);
+    await ensureDir(testDir);
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should start a detached run after the quiet period', async () => {
+    const debouncer = new StopDebouncer(testDir);
+
+    const run = await debouncer.schedule(['run', '--hook-mode'], 30, 1000);
+
+    expect(run.runAt).toBe(31000);
+    expect(await debouncer.read()).toEqual(run);
+    expect(mockSpawn).toHaveBeenCalledWith(
+      process.execPath,
+      [process.argv[1], 'run', '--hook-mode', '--debounced', run.id],
+      expect.objectContaining({ detached: true })
+    );
+    expect(mockUnref).toHaveBeenCalled();
+    expect(await pathExists(join(testDir, '.ccanywhere', 'debounce.log'))).toBe(true);
+  });
+
+  it('should let only the last scheduled run build', async () => {
+    const debouncer = new StopDebouncer(testDir);
+    const first = await debouncer.schedule(['run'], 0.05);
+    const second = await debouncer.schedule(['run'], 0.05);
+
+    expect(await debouncer.waitForQuiet(first.id)).toBe(false);
+    expect(await debouncer.waitForQuiet(second.id)).toBe(true);
+    expect(await pathExists(getDebounceFile(testDir))).toBe(false);
+  });
+
+  it('should skip a run rescheduled while it waits', async () => {
+    const debouncer = new StopDebouncer(testDir);
+    const first = await debouncer.schedule(['run'], 0.1);
+
+    const waiting = debouncer.waitForQuiet(first.id);
+    const second = await debouncer.schedule(['run'], 0.1);
+
+    expect(await waiting).toBe(false);
+    expect((await debouncer.read())?.id).toBe(second.id);
+  });
+});
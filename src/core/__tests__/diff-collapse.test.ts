@@ -0,0 +1,106 @@
+/**
+ * Tests for collapsed generated and vendored files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, writeFile } = fsExtra;
+import { execa } from 'execa';
+import * as diff2html from 'diff2html';
+import { getCollapseReasons, readCollapseAttributes, renderCollapsedFile } from '../diff-collapse.js';
+
+const fileDiff = (name: string) =>
+  [
+    `diff --git a/${name} b/${name}`,
+    'index 1111111..2222222 100644',
+    `--- a/${name}`,
+    `+++ b/${name}`,
+    '@@ -1 +1,2 @@',
+    '-a',
+    '+b',
+    '+c'
+  ].join('\n');
+
+describe('collapsed files', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-collapse-${Date.now()}`);
+    await ensureDir(join(testDir, 'src'));
+    await execa('git', ['init', '-q'], { cwd: testDir });
+    await writeFile(
+      join(testDir, '.gitattributes'),
+      'src/generated.ts linguist-generated\nthird_party/** linguist-vendored=true\n*.bin -diff\n'
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should read linguist markers from .gitattributes', async () => {
+    const reasons = await readCollapseAttributes(testDir, [
+      'src/generated.ts',
+      'third_party/lib.js',
+      'data.bin',
+      'src/app.ts'
+    ]);
+
+    expect(Object.fromEntries(reasons)).toEqual({
+      'src/generated.ts': 'marked linguist-generated',
+      'third_party/lib.js': 'marked linguist-vendored',
+      'data.bin': 'marked -diff'
+    });
+  });
+
+  it('should read markers from the repository root in a subdirectory', async () => {
+    const reasons = await readCollapseAttributes(join(testDir, 'src'), ['src/generated.ts']);
+
+    expect(reasons.get('src/generated.ts')).toBe('marked linguist-generated');
+  });
+
+  it('should collapse files by glob or marker', async () => {
+    const files = diff2html.parse(
+      ['package-lock.json', 'web/dist/app.js', 'src/generated.ts', 'src/app.ts'].map(fileDiff).join('\n')
+    );
+
+    expect(await getCollapseReasons(files, testDir)).toEqual([
+      'matches package-lock.json',
+      'matches dist',
+      'marked linguist-generated',
+      undefined
+    ]);
+    expect(await getCollapseReasons(files, testDir, ['src/app.ts'])).toEqual([
+      undefined,
+      undefined,
+      'marked linguist-generated',
+      'matches src/app.ts'
+    ]);
+  });
+
+  it('should ignore markers outside a git repository', async () => {
+    const outside = join(tmpdir(), `ccanywhere-collapse-none-${Date.now()}`);
+    await ensureDir(outside);
+    try {
+      expect((await readCollapseAttributes(outside, ['a.ts'])).size).toBe(0);
+    } finally {
+      await remove(outside);
+    }
+  });
+
+  it('should render a one-line stat entry', () => {
+    const [file] = diff2html.parse(fileDiff('yarn.lock'));
+
+    expect(renderCollapsedFile(file!, 'matches yarn.lock')).toBe(
+      '<div class="diff-collapsed"><span>Collapsed (matches yarn.lock): ' +
+        '<span class="d2h-lines-added">+2</span> <span class="d2h-lines-deleted">−1</span></span>' +
+        '<button type="button" class="diff-expand">Show diff</button></div>'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for the diff page generator
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, readFile, remove, writeFile } = fsExtra;
+import { execa } from 'execa';
+import { HtmlDiffGenerator } from '../diff-generator.js';
+import type { DiffOutputFormat } from '../../types/index.js';
+
+const git = (cwd: string, ...args: string[]) =>
+  execa('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd });
+
+describe('HtmlDiffGenerator', () => {
+  let testDir: string;
+
+  const createContext = (outputFormat?: DiffOutputFormat, diff: object = {}): any => ({
+    config: { diff: { outputFormat, ...diff } },
+    timestamp: 1,
+    revision: 'abc123',
+    branch: 'main',
+    workDir: testDir,
+    artifactsDir: join(testDir, '.artifacts'),
+    logDir: 'logs',
+    lockFile: 'lock'
+  });
+
+  const renderPage = async (outputFormat?: DiffOutputFormat): Promise<string> => {
+    const artifact = await new HtmlDiffGenerator().generateRange('HEAD~1', 'HEAD', createContext(outputFormat));
+    return readFile(artifact.path, 'utf8');
+  };
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-diff-${Date.now()}`);
+    await ensureDir(testDir);
+    await git(testDir, 'init', '-q');
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 1;\n');
+    await git(testDir, 'add', 'app.ts');
+    await git(testDir, 'commit', '-q', '-m', 'initial');
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 2;\n');
+    await git(testDir, 'commit', '-q', '-am', 'change');
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should render line-by-line by default', async () => {
+    const html = await renderPage();
+
+    expect(html).toContain('class="d2h-file-diff"');
+    expect(html).not.toContain('class="d2h-file-side-diff"');
+    expect(html).not.toContain('class="diff-view"');
+  });
+
+  it('should be self-contained and highlighted', async () => {
+    const html = await renderPage();
+
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)="https?:/);
+    expect(html).toContain('.hljs-keyword');
+    expect(html).toContain('<span class="hljs-keyword">export</span>');
+  });
+
+  it('should preview changed images next to the page', async () => {
+    await writeFile(join(testDir, 'icon.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1]));
+    await git(testDir, 'add', 'icon.png');
+    await git(testDir, 'commit', '-q', '-m', 'add icon');
+    await writeFile(join(testDir, 'icon.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 2]));
+    await git(testDir, 'commit', '-q', '-am', 'change icon');
+
+    const html = await renderPage();
+
+    expect(html).toContain('<div class="image-compare" data-mode="2-up">');
+    expect(html).toContain('src="diff-abc123-0-before.png"');
+    expect(await readFile(join(testDir, '.artifacts', 'diff-abc123-0-after.png'))).toEqual(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 2])
+    );
+  });
+
+  it('should split large diffs into fragments loaded by the page', async () => {
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 3;\n');
+    await writeFile(join(testDir, 'lib.ts'), 'export const b = 1;\n');
+    await git(testDir, 'add', '.');
+    await git(testDir, 'commit', '-q', '-m', 'two files');
+
+    const artifact = await new HtmlDiffGenerator().generateRange(
+      'HEAD~1',
+      'HEAD',
+      createContext('line-by-line', { splitLines: 1, fragmentLines: 1 })
+    );
+    const html = await readFile(artifact.path, 'utf8');
+
+    expect(artifact.fragments).toBe(2);
+    expect(artifact.indexUrl).toBe(artifact.url);
+    expect(html).not.toContain('class="d2h-file-wrapper"');
+    expect(html).toContain('data-src="diff-abc123-part-2.html"');
+    expect(html).toContain('window.DIFF_STATS = {"additions":2,"deletions":1};');
+    expect(await readFile(join(testDir, '.artifacts', 'diff-abc123-part-2.html'), 'utf8')).toContain('lib.ts');
+  });
+
+  it('should not split small diffs', async () => {
+    const artifact = await new HtmlDiffGenerator().generateRange('HEAD~1', 'HEAD', createContext());
+
+    expect(artifact.fragments).toBeUndefined();
+    expect(artifact.indexUrl).toBeUndefined();
+  });
+
+  it('should collapse generated files', async () => {
+    await writeFile(join(testDir, 'package-lock.json'), '{}\n');
+    await git(testDir, 'add', 'package-lock.json');
+    await git(testDir, 'commit', '-q', '-m', 'add lockfile');
+
+    const html = await renderPage();
+
+    expect(html).toContain('<div class="diff-collapsed"><span>Collapsed (matches package-lock.json)');
+  });
+
+  it('should break a branch diff down by commit and uncommitted changes', async () => {
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 3;\n');
+    await git(testDir, 'commit', '-q', '-am', 'third change');
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 4;\n');
+    await git(testDir, 'add', 'app.ts');
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 5;\n');
+    await writeFile(join(testDir, 'new.ts'), 'export const b = 1;\n');
+
+    const artifact = await new HtmlDiffGenerator().generate('HEAD~2', 'HEAD', createContext());
+    const html = await readFile(artifact.path, 'utf8');
+
+    const titles = [...html.matchAll(/<section class="diff-section" data-section="(\d+)" data-title="([^"]*)">/g)];
+    expect(titles.map(match => match[2])).toEqual([
+      'change',
+      'third change',
+      'Staged changes',
+      'Unstaged changes',
+      'Untracked files'
+    ]);
+    expect(titles.map(match => match[1])).toEqual(['0', '1', '2', '3', '4']);
+    expect(html.match(/class="d2h-file-list-wrapper/g)).toHaveLength(5);
+    // app.ts changed in four sections counts once
+    expect(html).toContain('<span>2 files changed</span>');
+
+    // The same file gets its own anchor in every section
+    const anchor = html.match(/id="(d2h-\d+)-s1"/)![1];
+    expect(html).toContain(`href="#${anchor}-s4"`);
+    expect(html).toContain(`id="${anchor}-s4"`);
+  });
+
+  it('should publish a JSON summary next to the page', async () => {
+    const artifact = await new HtmlDiffGenerator().generateRange('HEAD~1', 'HEAD', createContext());
+    const summary = JSON.parse(await readFile(join(testDir, '.artifacts', 'diff-abc123.json'), 'utf8'));
+
+    expect(artifact.summaryUrl).toBe('/diffs/diff-abc123.json');
+    expect(summary).toMatchObject({
+      base: 'HEAD~1',
+      head: 'HEAD',
+      revision: 'abc123',
+      totals: { files: 1, additions: 1, deletions: 1 },
+      files: [{ path: 'app.ts', status: 'modified', language: 'TypeScript', hunks: [{ oldStart: 1, newStart: 1 }] }]
+    });
+  });
+
+  it('should render side-by-side when configured', async () => {
+    const html = await renderPage('side-by-side');
+
+    expect(html).toContain('class="d2h-file-side-diff"');
+    expect(html).not.toContain('class="diff-view"');
+  });
+
+  it('should render both layouts with their own file anchors', async () => {
+    const html = await renderPage('both');
+    const anchor = html.match(/id="(d2h-\d+)"/)![1];
+
+    expect(html).toContain('<div class="diff-view" data-view="line-by-line">');
+    expect(html).toContain('<div class="diff-view" data-view="side-by-side" hidden>');
+    expect(html).toContain(`href="#${anchor}-sbs"`);
+    expect(html).toContain(`id="${anchor}-sbs"`);
+    expect(html.match(new RegExp(`id="${anchor}"`, 'g'))).toHaveLength(1);
+  });
+});
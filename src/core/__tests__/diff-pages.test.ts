@@ -0,0 +1,91 @@
+/**
+ * Tests for split diff pages
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as diff2html from 'diff2html';
+import { getFragmentGroups, splitDiffHtml } from '../diff-pages.js';
+
+const fileDiff = (name: string, lines: number) =>
+  [
+    `diff --git a/${name} b/${name}`,
+    'index 1111111..2222222 100644',
+    `--- a/${name}`,
+    `+++ b/${name}`,
+    `@@ -0,0 +1,${lines} @@`,
+    ...Array.from({ length: lines }, (_line, i) => `+line ${i}`)
+  ].join('\n');
+
+describe('split diff pages', () => {
+  const files = diff2html.parse([fileDiff('a.ts', 30), fileDiff('b.ts', 30), fileDiff('c.ts', 80)].join('\n'));
+
+  describe('getFragmentGroups', () => {
+    it('should not split diffs within the threshold', () => {
+      expect(getFragmentGroups(files)).toEqual([]);
+      expect(getFragmentGroups(files, { splitLines: 140 })).toEqual([]);
+      expect(getFragmentGroups(files, { splitLines: 0, fragmentLines: 10 })).toEqual([]);
+    });
+
+    it('should group whole files by fragment size', () => {
+      expect(getFragmentGroups(files, { splitLines: 100, fragmentLines: 60 })).toEqual([[0, 1], [2]]);
+      expect(getFragmentGroups(files, { splitLines: 100, fragmentLines: 10 })).toEqual([[0], [1], [2]]);
+    });
+
+    it('should start a fragment at each section', () => {
+      expect(getFragmentGroups(files, { splitLines: 100, fragmentLines: 1000 }, [0, 1])).toEqual([[0], [1, 2]]);
+    });
+
+    it('should not split into a single fragment', () => {
+      expect(getFragmentGroups(files, { splitLines: 100, fragmentLines: 1000 })).toEqual([]);
+    });
+  });
+
+  describe('splitDiffHtml', () => {
+    const groups = [[0, 1], [2]];
+    const names = ['diff-part-1.html', 'diff-part-2.html'];
+
+    it('should move files into fragments behind placeholders', () => {
+      const html = diff2html.html(files, { drawFileList: true });
+
+      const { index, fragments } = splitDiffHtml(html, files, groups, names);
+
+      expect(fragments).toHaveLength(2);
+      expect(index).not.toContain('d2h-file-wrapper');
+      expect(index).toContain('class="d2h-file-list"');
+      expect(index).toContain('<div class="diff-fragment" data-src="diff-part-1.html" data-part="0"');
+      expect(index).toContain('Load 2 files (+60 −0)');
+      expect(index).toContain('Load 1 file (+80 −0)');
+      expect(index.match(/<div\b/g)!.length).toBe(index.match(/<\/div>/g)!.length);
+
+      expect(fragments[0]).toMatch(/^<div data-part="0"><div id="(d2h-\d+)" class="d2h-file-wrapper"/);
+      expect(fragments[0]!.match(/class="d2h-file-wrapper"/g)).toHaveLength(2);
+      expect(fragments[1]).toContain('<span class="d2h-file-name">c.ts</span>');
+
+      const anchor = fragments[1]!.match(/id="(d2h-\d+)"/)![1];
+      expect(index).toContain(`data-anchors="${anchor}"`);
+      expect(index).toContain(`href="#${anchor}"`);
+    });
+
+    it('should keep a part per layout when both are rendered', () => {
+      const html = ['line-by-line', 'side-by-side']
+        .map(
+          outputFormat => `<div class="diff-view">${diff2html.html(files, { outputFormat: outputFormat as any })}</div>`
+        )
+        .join('\n');
+
+      const { index, fragments } = splitDiffHtml(html, files, groups, names);
+
+      expect(index.match(/class="diff-fragment"/g)).toHaveLength(4);
+      expect(fragments[1]).toContain('<div data-part="0">');
+      expect(fragments[1]).toContain('<div data-part="1">');
+      expect(fragments[1]).toContain('class="d2h-file-side-diff"');
+    });
+
+    it('should leave unexpected output alone', () => {
+      expect(splitDiffHtml('<div>nothing</div>', files, groups, names)).toEqual({
+        index: '<div>nothing</div>',
+        fragments: []
+      });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for diff page sections
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as diff2html from 'diff2html';
+import { getSectionTitle, renderSectionStart, type DiffSection } from '../diff-sections.js';
+
+const DIFF = [
+  'diff --git a/app.ts b/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/app.ts',
+  '+++ b/app.ts',
+  '@@ -1 +1,2 @@',
+  '-a',
+  '+b',
+  '+c'
+].join('\n');
+
+describe('diff sections', () => {
+  const read = async () => null;
+  const commitSection: DiffSection = {
+    kind: 'commit',
+    commit: { sha: 'abcdef1234567', shortSha: 'abcdef1', author: 'Ada <dev>', message: 'Fix <b> & "c"', timestamp: 0 },
+    diff: DIFF,
+    readOld: read,
+    readNew: read
+  };
+
+  it('should title sections by commit subject or kind of changes', () => {
+    expect(getSectionTitle(commitSection)).toBe('Fix <b> & "c"');
+    expect(getSectionTitle({ kind: 'staged', diff: DIFF, readOld: read, readNew: read })).toBe('Staged changes');
+    expect(getSectionTitle({ kind: 'untracked', diff: DIFF, readOld: read, readNew: read })).toBe('Untracked files');
+  });
+
+  it('should render a commit header with its stats', () => {
+    const html = renderSectionStart(2, commitSection, diff2html.parse(DIFF));
+
+    expect(html).toContain(
+      '<section class="diff-section" data-section="2" data-title="Fix &lt;b&gt; &amp; &quot;c&quot;">'
+    );
+    expect(html).toContain(
+      '<div class="diff-section-meta"><code>abcdef1</code> · Ada &lt;dev&gt; · 1 file · ' +
+        '<span class="additions">+2</span> <span class="deletions">−1</span></div>'
+    );
+  });
+
+  it('should render uncommitted changes without commit details', () => {
+    const html = renderSectionStart(0, { kind: 'unstaged', diff: DIFF, readOld: read, readNew: read }, []);
+
+    expect(html).toContain('<div class="diff-section-title">Unstaged changes</div>');
+    expect(html).toContain('<div class="diff-section-meta">0 files · ');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for the JSON diff summary
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as diff2html from 'diff2html';
+import { createDiffSummary, summarizeFile } from '../diff-summary.js';
+import type { DiffSection } from '../diff-sections.js';
+
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,3 +1,4 @@',
+  ' a',
+  '-b',
+  '+c',
+  '+d',
+  ' e',
+  '@@ -10 +11 @@ function f() {',
+  '-x',
+  '+y',
+  'diff --git a/notes.txt b/notes.txt',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  '--- /dev/null',
+  '+++ b/notes.txt',
+  '@@ -0,0 +1 @@',
+  '+hello',
+  'diff --git a/old.py b/old.py',
+  'deleted file mode 100644',
+  'index 4444444..0000000',
+  '--- a/old.py',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-print(1)',
+  'diff --git a/a.go b/b.go',
+  'similarity index 90%',
+  'rename from a.go',
+  'rename to b.go',
+  'diff --git a/logo.png b/logo.png',
+  'index 5555555..6666666 100644',
+  'Binary files a/logo.png and b/logo.png differ'
+].join('\n');
+
+describe('diff summary', () => {
+  const files = diff2html.parse(DIFF);
+  const read = async () => null;
+
+  it('should summarize status, lines, language and hunks of each file', () => {
+    expect(files.map(file => summarizeFile(file))).toEqual([
+      {
+        path: 'src/app.ts',
+        status: 'modified',
+        additions: 3,
+        deletions: 2,
+        language: 'TypeScript',
+        binary: false,
+        hunks: [
+          { oldStart: 1, oldLines: 3, newStart: 1, newLines: 4 },
+          { oldStart: 10, oldLines: 1, newStart: 11, newLines: 1 }
+        ]
+      },
+      {
+        path: 'notes.txt',
+        status: 'added',
+        additions: 1,
+        deletions: 0,
+        language: 'Plain text',
+        binary: false,
+        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 }]
+      },
+      {
+        path: 'old.py',
+        status: 'deleted',
+        additions: 0,
+        deletions: 1,
+        language: 'Python',
+        binary: false,
+        hunks: [{ oldStart: 1, oldLines: 1, newStart: 0, newLines: 0 }]
+      },
+      {
+        path: 'b.go',
+        oldPath: 'a.go',
+        status: 'renamed',
+        additions: 0,
+        deletions: 0,
+        language: 'Go',
+        binary: false,
+        hunks: []
+      },
+      { path: 'logo.png', status: 'modified', additions: 0, deletions: 0, binary: true, hunks: [] }
+    ]);
+  });
+
+  it('should total a plain diff', () => {
+    const summary = createDiffSummary(
+      { base: 'main', head: 'HEAD', revision: 'abc123', timestamp: 1 },
+      [{ diff: DIFF, readOld: read, readNew: read }],
+      [files]
+    );
+
+    expect(summary.totals).toEqual({ files: 5, additions: 4, deletions: 3 });
+    expect(summary.sections).toBeUndefined();
+    expect(summary.files[0]!.section).toBeUndefined();
+  });
+
+  it('should keep the sections of a breakdown and count files once', () => {
+    const sections: DiffSection[] = [
+      {
+        kind: 'commit',
+        commit: { sha: 'abcdef1234', shortSha: 'abcdef1', author: 'Ada', message: 'Add app', timestamp: 1000 },
+        diff: DIFF,
+        readOld: read,
+        readNew: read
+      },
+      { kind: 'unstaged', diff: DIFF, readOld: read, readNew: read }
+    ];
+
+    const summary = createDiffSummary({ base: 'main', head: 'HEAD', revision: 'abc123', timestamp: 1 }, sections, [
+      files,
+      files.slice(0, 1)
+    ]);
+
+    expect(summary.totals).toEqual({ files: 5, additions: 7, deletions: 5 });
+    expect(summary.sections).toEqual([
+      {
+        kind: 'commit',
+        title: 'Add app',
+        commit: { sha: 'abcdef1234', author: 'Ada', message: 'Add app', timestamp: 1000 },
+        files: 5,
+        additions: 4,
+        deletions: 3
+      },
+      { kind: 'unstaged', title: 'Unstaged changes', files: 1, additions: 3, deletions: 2 }
+    ]);
+    expect(summary.files.map(file => file.section)).toEqual([0, 0, 0, 0, 0, 1]);
+  });
+});
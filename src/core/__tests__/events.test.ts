@@ -0,0 +1,112 @@
+/**
+ * Tests for EventBus
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { EventBus, type EventListener } from '../events.js';
+import { Logger } from '../../utils/logger.js';
+
+describe('EventBus', () => {
+  let bus: EventBus;
+  let mockContext: any;
+
+  beforeEach(() => {
+    EventBus.reset();
+    bus = EventBus.getInstance();
+    mockContext = { ...(global as any).mockContext };
+  });
+
+  it('should return the same shared instance', () => {
+    expect(EventBus.getInstance()).toBe(bus);
+  });
+
+  it('should deliver typed payloads to subscribers', () => {
+    const listener = jest.fn() as any;
+    bus.on('build:start', listener);
+
+    bus.emit('build:start', { revision: 'abc123', branch: 'main' }, mockContext);
+
+    expect(listener).toHaveBeenCalledWith({
+      type: 'build:start',
+      timestamp: expect.any(Number),
+      context: mockContext,
+      data: { revision: 'abc123', branch: 'main' }
+    });
+  });
+
+  it('should only deliver events of the subscribed type', () => {
+    const listener = jest.fn() as any;
+    bus.on('test:complete', listener);
+
+    bus.emit('build:start', { revision: 'abc123', branch: 'main' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the current context', () => {
+    const listener = jest.fn() as any;
+    bus.on('build:error', listener);
+    bus.setContext(mockContext);
+
+    bus.emit('build:error', { step: 'diff', error: 'failed' });
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ context: mockContext }));
+  });
+
+  it('should unsubscribe with the returned function', () => {
+    const listener = jest.fn() as any;
+    const unsubscribe = bus.on('build:start', listener);
+
+    unsubscribe();
+    bus.emit('build:start', { revision: 'abc123', branch: 'main' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.listenerCount('build:start')).toBe(0);
+  });
+
+  it('should call once listeners a single time', () => {
+    const listener = jest.fn() as any;
+    bus.once('build:start', listener);
+
+    bus.emit('build:start', { revision: 'abc123', branch: 'main' });
+    bus.emit('build:start', { revision: 'def456', branch: 'main' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver every event to onAny listeners', () => {
+    const types: string[] = [];
+    bus.onAny(payload => void types.push(payload.type));
+
+    bus.emit('build:start', { revision: 'abc123', branch: 'main' });
+    bus.emit('build:error', { step: 'lock', error: 'timeout' });
+
+    expect(types).toEqual(['build:start', 'build:error']);
+  });
+
+  it('should isolate synchronous and asynchronous listener failures', async () => {
+    const warn = jest.spyOn(Logger.getInstance(), 'warn').mockImplementation(() => undefined);
+    const healthy = jest.fn<EventListener<'build:start'>>();
+    bus.on('build:start', () => {
+      throw new Error('sync failure');
+    });
+    bus.on('build:start', async () => {
+      throw new Error('async failure');
+    });
+    bus.on('build:start', healthy);
+
+    expect(() => bus.emit('build:start', { revision: 'abc123', branch: 'main' })).not.toThrow();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(healthy).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('Event listener for build:start failed', {
+      event: 'build:start',
+      error: 'sync failure'
+    });
+    expect(warn).toHaveBeenCalledWith('Event listener for build:start failed', {
+      event: 'build:start',
+      error: 'async failure'
+    });
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for server-side syntax highlighting of diff pages
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getLanguage, highlightDiffHtml, highlightLine } from '../highlight.js';
+
+describe('syntax highlighting', () => {
+  describe('getLanguage', () => {
+    it('should accept extensions highlight.js knows', () => {
+      expect(getLanguage('ts')).toBe('ts');
+      expect(getLanguage('py')).toBe('py');
+      expect(getLanguage('unknownext')).toBeUndefined();
+      expect(getLanguage('')).toBeUndefined();
+    });
+  });
+
+  describe('highlightLine', () => {
+    it('should highlight escaped code', () => {
+      expect(highlightLine('const x = &quot;a&lt;b&quot;;', 'ts')).toBe(
+        '<span class="hljs-keyword">const</span> x = <span class="hljs-string">&quot;a&lt;b&quot;</span>;'
+      );
+    });
+
+    it('should keep the changed words marked by diff2html', () => {
+      expect(highlightLine('let y = <ins>2</ins>; &#x2F;&#x2F; <ins>new</ins>', 'ts')).toBe(
+        '<span class="hljs-keyword">let</span> y = <ins><span class="hljs-number">2</span></ins>; ' +
+          '<span class="hljs-comment">// </span><ins><span class="hljs-comment">new</span></ins>'
+      );
+    });
+
+    it('should leave empty lines alone', () => {
+      expect(highlightLine('<br>', 'ts')).toBe('<br>');
+    });
+  });
+
+  describe('highlightDiffHtml', () => {
+    it('should highlight only files in a known language', () => {
+      const html = [
+        '<div id="d2h-1" class="d2h-file-wrapper" data-lang="js">',
+        '<span class="d2h-code-line-ctn">return 1;</span>',
+        '</div>',
+        '<div id="d2h-2" class="d2h-file-wrapper" data-lang="unknownext">',
+        '<span class="d2h-code-line-ctn">return 1;</span>',
+        '</div>'
+      ].join('\n');
+
+      const highlighted = highlightDiffHtml(html).split('\n');
+
+      expect(highlighted[1]).toBe(
+        '<span class="d2h-code-line-ctn"><span class="hljs-keyword">return</span> <span class="hljs-number">1</span>;</span>'
+      );
+      expect(highlighted[4]).toBe('<span class="d2h-code-line-ctn">return 1;</span>');
+    });
+  });
+});
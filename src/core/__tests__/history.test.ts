@@ -0,0 +1,111 @@
+/**
+ * Tests for BuildHistory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, readFile, appendFile } = fsExtra;
+import { BuildHistory } from '../history.js';
+import type { BuildResult } from '../../types/index.js';
+
+function createResult(overrides: Partial<BuildResult> = {}): BuildResult {
+  return {
+    success: true,
+    revision: 'abc123',
+    branch: 'main',
+    timestamp: 1700000000000,
+    duration: 4200,
+    artifacts: [{ type: 'diff', url: 'https://artifacts.test.com/diff-abc123.html', path: '', timestamp: 1 }],
+    ...overrides
+  };
+}
+
+describe('BuildHistory', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-history-${Date.now()}`);
+    await ensureDir(testDir);
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should record results in the project state directory', async () => {
+    const history = new BuildHistory(testDir);
+
+    const entry = await history.record(createResult());
+
+    expect(entry.id).toBe(`${(1700000000000).toString(36)}-abc123`);
+    const content = await readFile(join(testDir, '.ccanywhere', 'history.jsonl'), 'utf8');
+    expect(JSON.parse(content.trim())).toEqual(entry);
+    expect(await readFile(join(testDir, '.ccanywhere', '.gitignore'), 'utf8')).toBe('*\n');
+  });
+
+  it('should list builds newest first', async () => {
+    const history = new BuildHistory(testDir);
+    await history.record(createResult({ revision: 'aaa111', timestamp: 1000 }));
+    await history.record(createResult({ revision: 'bbb222', timestamp: 2000 }));
+
+    const entries = await history.list();
+
+    expect(entries.map(e => e.revision)).toEqual(['bbb222', 'aaa111']);
+  });
+
+  it('should filter by branch, status, date and limit', async () => {
+    const history = new BuildHistory(testDir);
+    await history.record(createResult({ revision: 'r1', branch: 'main', timestamp: 1000 }));
+    await history.record(createResult({ revision: 'r2', branch: 'feature', timestamp: 2000, success: false }));
+    await history.record(createResult({ revision: 'r3', branch: 'main', timestamp: 3000, success: false }));
+    await history.record(createResult({ revision: 'r4', branch: 'main', timestamp: 4000 }));
+
+    expect((await history.list({ branch: 'feature' })).map(e => e.revision)).toEqual(['r2']);
+    expect((await history.list({ status: 'failed' })).map(e => e.revision)).toEqual(['r3', 'r2']);
+    expect((await history.list({ status: 'success' })).map(e => e.revision)).toEqual(['r4', 'r1']);
+    expect((await history.list({ since: 2000, until: 3000 })).map(e => e.revision)).toEqual(['r3', 'r2']);
+    expect((await history.list({ limit: 1 })).map(e => e.revision)).toEqual(['r4']);
+  });
+
+  it('should filter by session id prefix', async () => {
+    const history = new BuildHistory(testDir);
+    await history.record(createResult({ revision: 'r1', timestamp: 1000, sessionId: '3f2a9c1e-aaaa' }));
+    await history.record(createResult({ revision: 'r2', timestamp: 2000, sessionId: '7b4d0000-bbbb' }));
+    await history.record(createResult({ revision: 'r3', timestamp: 3000 }));
+
+    expect((await history.list({ sessionId: '3f2a' })).map(e => e.revision)).toEqual(['r1']);
+  });
+
+  it('should find builds by id or revision prefix', async () => {
+    const history = new BuildHistory(testDir);
+    const first = await history.record(createResult({ revision: 'abc123', timestamp: 1000 }));
+    await history.record(createResult({ revision: 'def456', timestamp: 2000 }));
+
+    expect((await history.get(first.id))?.revision).toBe('abc123');
+    expect((await history.get('def'))?.revision).toBe('def456');
+    expect(await history.get('999')).toBeUndefined();
+  });
+
+  it('should keep only the newest entries', async () => {
+    const history = new BuildHistory(testDir, 2);
+    await history.record(createResult({ revision: 'r1', timestamp: 1000 }));
+    await history.record(createResult({ revision: 'r2', timestamp: 2000 }));
+    await history.record(createResult({ revision: 'r3', timestamp: 3000 }));
+
+    expect((await history.list()).map(e => e.revision)).toEqual(['r3', 'r2']);
+  });
+
+  it('should skip corrupt lines', async () => {
+    const history = new BuildHistory(testDir);
+    await history.record(createResult({ revision: 'r1' }));
+    await appendFile(join(testDir, '.ccanywhere', 'history.jsonl'), '{"truncated\n', 'utf8');
+
+    expect((await history.list()).map(e => e.revision)).toEqual(['r1']);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for the hook input parser
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { parseHookInput, readHookInput, createHookContext } from '../hook-input.js';
+
+const stopPayload = {
+  session_id: '3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60',
+  transcript_path: '/home/user/.claude/projects/app/3f2a9c1e.jsonl',
+  cwd: '/home/user/app',
+  hook_event_name: 'Stop',
+  stop_hook_active: false
+};
+
+describe('hook input', () => {
+  describe('parseHookInput', () => {
+    it('should map the Claude Code payload fields', () => {
+      const input = parseHookInput(JSON.stringify(stopPayload));
+
+      expect(input).toEqual({
+        sessionId: '3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60',
+        transcriptPath: '/home/user/.claude/projects/app/3f2a9c1e.jsonl',
+        cwd: '/home/user/app',
+        hookEventName: 'Stop',
+        toolName: undefined,
+        toolInput: undefined,
+        toolResponse: undefined,
+        prompt: undefined,
+        source: undefined,
+        stopHookActive: undefined,
+        raw: stopPayload
+      });
+    });
+
+    it('should parse tool payloads', () => {
+      const input = parseHookInput(
+        JSON.stringify({
+          session_id: 'abc',
+          hook_event_name: 'PostToolUse',
+          tool_name: 'Bash',
+          tool_input: { command: 'npm test' },
+          tool_response: { exitCode: 0 }
+        })
+      );
+
+      expect(input.toolName).toBe('Bash');
+      expect(input.toolInput).toEqual({ command: 'npm test' });
+      expect(input.toolResponse).toEqual({ exitCode: 0 });
+    });
+
+    it('should return an empty payload for empty or malformed input', () => {
+      expect(parseHookInput('')).toEqual(expect.objectContaining({ sessionId: undefined, raw: {} }));
+      expect(parseHookInput('not json').raw).toEqual({});
+      expect(parseHookInput('[1, 2]').raw).toEqual({});
+    });
+
+    it('should ignore fields of the wrong type', () => {
+      const input = parseHookInput(JSON.stringify({ session_id: 42, tool_input: 'rm -rf', stop_hook_active: 'yes' }));
+
+      expect(input.sessionId).toBeUndefined();
+      expect(input.toolInput).toBeUndefined();
+      expect(input.stopHookActive).toBeUndefined();
+    });
+  });
+
+  describe('readHookInput', () => {
+    it('should read the payload until the stream ends', async () => {
+      const stream = new PassThrough();
+      const reading = readHookInput(stream, 5000);
+
+      stream.write(JSON.stringify(stopPayload).slice(0, 20));
+      stream.end(JSON.stringify(stopPayload).slice(20));
+
+      expect((await reading).sessionId).toBe('3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60');
+    });
+
+    it('should give up when no payload arrives', async () => {
+      const stream = new PassThrough();
+
+      expect((await readHookInput(stream, 20)).raw).toEqual({});
+    });
+
+    it('should not wait on a terminal', async () => {
+      const stream = Object.assign(new PassThrough(), { isTTY: true });
+
+      expect((await readHookInput(stream, 60000)).raw).toEqual({});
+    });
+  });
+
+  describe('createHookContext', () => {
+    it('should build the hook handler context', () => {
+      const input = parseHookInput(
+        JSON.stringify({
+          session_id: 'abc',
+          transcript_path: '/t.jsonl',
+          tool_name: 'Edit',
+          tool_input: { file: 'a' },
+          tool_use_id: 'toolu_1',
+          tool_response: { success: true }
+        })
+      );
+
+      expect(createHookContext(input, '/project')).toEqual({
+        workingDir: '/project',
+        sessionId: 'abc',
+        transcriptPath: '/t.jsonl',
+        input,
+        data: {
+          tool: 'Edit',
+          args: { file: 'a' },
+          toolUseId: 'toolu_1',
+          response: { success: true },
+          prompt: undefined,
+          source: undefined
+        }
+      });
+    });
+  });
+});
@@ -7,7 +7,7 @@ import { tmpdir } from 'os';
 import { join } from 'path';
 import fsExtra from 'fs-extra';
 const { ensureDir, remove, pathExists } = fsExtra;
-import { FileLockManager } from '../lock-manager.js';
+import { FileLockManager, getLockKey, getLockFilePath, LOCK_DIR } from '../lock-manager.js';
 
 describe('FileLockManager', () => {
   let lockManager: FileLockManager;
@@ -138,6 +138,37 @@ describe('FileLockManager', () => {
       await lockManager.clean(testDir);
       expect(await pathExists(oldLock)).toBe(false);
     });
+
+    it('should return the number of removed locks', async () => {
+      await fsExtra.writeFile(join(testDir, 'stale.lock'), JSON.stringify({ pid: 999999, timestamp: Date.now() }));
+      await fsExtra.writeFile(join(testDir, 'broken.lock'), 'not json');
+
+      expect(await lockManager.clean(testDir)).toBe(2);
+    });
+  });
+
+  describe('listLocks', () => {
+    it('should list namespaced locks with their state', async () => {
+      const activeLock = join(testDir, 'owner_repo.lock');
+      await lockManager.acquire(activeLock);
+      await fsExtra.writeFile(
+        join(testDir, 'owner_repo--feature.lock'),
+        JSON.stringify({ pid: 999999, timestamp: Date.now(), revision: 'abc123' })
+      );
+
+      const locks = await lockManager.listLocks(testDir);
+
+      expect(locks.map(lock => [lock.name, lock.active])).toEqual([
+        ['owner_repo--feature', false],
+        ['owner_repo', true]
+      ]);
+      expect(locks[0]?.info?.revision).toBe('abc123');
+      await lockManager.release(activeLock);
+    });
+
+    it('should return an empty list when the directory does not exist', async () => {
+      expect(await lockManager.listLocks(join(testDir, 'missing'))).toEqual([]);
+    });
   });
 
   describe('getLockInfo', () => {
@@ -157,3 +188,29 @@ describe('FileLockManager', () => {
     });
   });
 });
+
+describe('lock keys', () => {
+  it('should derive the key from the repository identity', () => {
+    const config = { repo: { url: 'https://github.com/owner/repo.git' } };
+
+    expect(getLockKey(config, '/work/repo')).toBe('owner_repo');
+    expect(getLockFilePath(config, '/work/repo')).toBe(join(LOCK_DIR, 'owner_repo.lock'));
+  });
+
+  it('should fall back to the work dir when no repository URL is configured', () => {
+    const first = getLockKey({}, '/work/one/app');
+    const second = getLockKey({}, '/work/two/app');
+
+    expect(first).toMatch(/^app-[0-9a-f]{8}$/);
+    expect(second).toMatch(/^app-[0-9a-f]{8}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should only scope keys to the branch with branch lock scope', () => {
+    const config = { repo: { url: 'git@github.com:owner/repo.git' } };
+    const branchConfig = { ...config, build: { lockScope: 'branch' as const } };
+
+    expect(getLockKey(config, '/work/repo', 'feature/login')).toBe('owner_repo');
+    expect(getLockKey(branchConfig, '/work/repo', 'feature/login')).toBe('owner_repo--feature_login');
+  });
+});
@@ -2,24 +2,30 @@
  * Tests for BuildPipeline
  */
 
-import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { CcanywhereConfig, Logger } from '../../types/index.js';
+import type { EventListener } from '../events.js';
+
+type AsyncFn = (...args: unknown[]) => Promise<unknown>;
+type SyncFn = (...args: unknown[]) => unknown;
 
 // Mock fs-extra
-const mockEnsureDir = jest.fn() as any;
+const mockEnsureDir = jest.fn<AsyncFn>();
 jest.unstable_mockModule('fs-extra', () => ({
   default: { ensureDir: mockEnsureDir }
 }));
 
 // Mock execa
-const mockExeca = jest.fn() as any;
+const mockExeca = jest.fn<(command: string, args?: string[]) => Promise<{ stdout: string }>>();
 jest.unstable_mockModule('execa', () => ({
   execa: mockExeca
 }));
 
 // Mock HtmlDiffGenerator
 const mockDiffGenerator = {
-  generate: jest.fn() as any,
-  uploadArtifacts: jest.fn() as any
+  generate: jest.fn<AsyncFn>(),
+  generateRange: jest.fn<AsyncFn>(),
+  uploadArtifacts: jest.fn<AsyncFn>()
 };
 const mockHtmlDiffGenerator = jest.fn(() => mockDiffGenerator) as jest.Mock;
 
@@ -29,11 +35,11 @@ jest.unstable_mockModule('../core/diff-generator', () => ({
 
 // Mock deployment trigger
 const mockDeploymentTrigger = {
-  trigger: jest.fn() as any,
-  getStatus: jest.fn() as any
+  trigger: jest.fn<AsyncFn>(),
+  getStatus: jest.fn<AsyncFn>()
 };
 const mockCreateDeploymentTrigger = jest.fn(() => mockDeploymentTrigger) as jest.Mock;
-const mockHasDeploymentConfig = jest.fn() as any;
+const mockHasDeploymentConfig = jest.fn<SyncFn>();
 
 jest.unstable_mockModule('../core/deployment-trigger', () => ({
   createDeploymentTrigger: mockCreateDeploymentTrigger,
@@ -42,7 +48,7 @@ jest.unstable_mockModule('../core/deployment-trigger', () => ({
 
 // Mock test runner
 const mockTestRunner = {
-  run: jest.fn() as any
+  run: jest.fn<AsyncFn>()
 };
 const mockCreateTestRunner = jest.fn(() => mockTestRunner) as jest.Mock;
 
@@ -50,11 +56,32 @@ jest.unstable_mockModule('../core/test-runner', () => ({
   createTestRunner: mockCreateTestRunner
 }));
 
+// Mock step runner
+const mockStepRunner = {
+  run: jest.fn<AsyncFn>()
+};
+const mockStepRunnerConstructor = jest.fn(() => mockStepRunner) as jest.Mock;
+
+jest.unstable_mockModule('../core/step-runner', () => ({
+  StepRunner: mockStepRunnerConstructor
+}));
+
+// Mock build history
+const mockHistory = {
+  record: jest.fn<AsyncFn>(),
+  list: jest.fn<AsyncFn>()
+};
+const mockBuildHistory = jest.fn(() => mockHistory) as jest.Mock;
+
+jest.unstable_mockModule('../core/history', () => ({
+  BuildHistory: mockBuildHistory
+}));
+
 // Mock NotificationManager
 const mockNotificationManager = {
-  send: jest.fn() as any,
-  createSuccessNotification: jest.fn() as any,
-  createErrorNotification: jest.fn() as any
+  send: jest.fn<AsyncFn>(),
+  createSuccessNotification: jest.fn<SyncFn>(),
+  createErrorNotification: jest.fn<SyncFn>()
 };
 const mockNotificationManagerConstructor = jest.fn(() => mockNotificationManager) as jest.Mock;
 
@@ -64,24 +91,72 @@ jest.unstable_mockModule('../core/notifications/manager', () => ({
 
 // Mock FileLockManager
 const mockLockManager = {
-  acquire: jest.fn() as any,
-  release: jest.fn() as any,
-  isLocked: jest.fn() as any
+  acquire: jest.fn<AsyncFn>(),
+  release: jest.fn<AsyncFn>(),
+  isLocked: jest.fn<AsyncFn>()
 };
 const mockFileLockManager = jest.fn(() => mockLockManager) as jest.Mock;
+const mockGetLockFilePath = jest.fn<SyncFn>();
 
 jest.unstable_mockModule('../core/lock-manager', () => ({
-  FileLockManager: mockFileLockManager
+  FileLockManager: mockFileLockManager,
+  getLockFilePath: mockGetLockFilePath
+}));
+
+// Mock BuildQueue
+const mockBuildQueue = {
+  waitForTurn: jest.fn<AsyncFn>()
+};
+const mockBuildQueueConstructor = jest.fn(() => mockBuildQueue) as jest.Mock;
+
+jest.unstable_mockModule('../core/build-queue', () => ({
+  BuildQueue: mockBuildQueueConstructor
+}));
+
+// Mock snapshots
+const mockReadSessionSnapshot = jest.fn<AsyncFn>();
+const mockCaptureSnapshot = jest.fn<AsyncFn>();
+const mockSaveSnapshot = jest.fn<AsyncFn>();
+
+jest.unstable_mockModule('../core/snapshot', () => ({
+  readSessionSnapshot: mockReadSessionSnapshot,
+  captureSnapshot: mockCaptureSnapshot,
+  saveSnapshot: mockSaveSnapshot,
+  LAST_BUILD_SNAPSHOT: 'last-build'
+}));
+
+// Mock transcript summaries
+const mockReadTranscriptSummary = jest.fn<AsyncFn>();
+const mockFormatTranscriptSummary = jest.fn<SyncFn>();
+
+jest.unstable_mockModule('../core/transcript', () => ({
+  readTranscriptSummary: mockReadTranscriptSummary,
+  formatTranscriptSummary: mockFormatTranscriptSummary
+}));
+
+// Mock tool usage audit
+const mockPublishAuditTimeline = jest.fn<AsyncFn>();
+
+jest.unstable_mockModule('../core/audit', () => ({
+  publishAuditTimeline: mockPublishAuditTimeline
+}));
+
+// Mock token usage
+const mockReadTranscriptUsage = jest.fn<(path: string, pricing?: unknown) => Promise<unknown>>();
+
+jest.unstable_mockModule('../core/usage', () => ({
+  readTranscriptUsage: mockReadTranscriptUsage,
+  formatUsage: jest.fn(() => '🪙 Tokens: 1.2k in, 300 out')
 }));
 
 // Import the module after mocking
 const { BuildPipeline } = await import('../pipeline.js');
-const { BuildError } = await import('../../types/index.js');
+const { EventBus } = await import('../events.js');
 
 describe('BuildPipeline', () => {
-  let mockLogger: any;
-  let mockConfig: any;
-  let pipeline: any;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockConfig: CcanywhereConfig;
+  let pipeline: InstanceType<typeof BuildPipeline>;
 
   beforeEach(() => {
     // Mock logger
@@ -94,7 +169,7 @@ describe('BuildPipeline', () => {
       buildComplete: jest.fn(),
       buildStart: jest.fn(),
       step: jest.fn()
-    };
+    } as unknown as jest.Mocked<Logger>;
 
     // Mock config
     mockConfig = {
@@ -120,7 +195,7 @@ describe('BuildPipeline', () => {
     // Setup default mock returns
     mockEnsureDir.mockResolvedValue(undefined);
     // Mock git commands - rev-parse, symbolic-ref, log, etc.
-    mockExeca.mockImplementation((command: any, args: any) => {
+    mockExeca.mockImplementation((_command, args) => {
       if (args?.[0] === 'rev-parse' && args?.[1] === '--short') {
         return Promise.resolve({ stdout: 'abc123' });
       }
@@ -143,9 +218,15 @@ describe('BuildPipeline', () => {
       }
       return Promise.resolve({ stdout: '' });
     });
+    mockGetLockFilePath.mockReturnValue('/tmp/ccanywhere-locks/test_repo.lock');
     mockLockManager.acquire.mockResolvedValue(undefined);
     mockLockManager.release.mockResolvedValue(undefined);
     mockLockManager.isLocked.mockResolvedValue(false);
+    mockBuildQueue.waitForTurn.mockResolvedValue(true);
+    mockReadSessionSnapshot.mockResolvedValue(null);
+    mockCaptureSnapshot.mockResolvedValue('current0000');
+    mockSaveSnapshot.mockResolvedValue(undefined);
+    mockReadTranscriptUsage.mockResolvedValue(null);
     mockDiffGenerator.generate.mockResolvedValue({
       type: 'diff',
       url: 'https://artifacts.test.com/diff.html',
@@ -168,7 +249,10 @@ describe('BuildPipeline', () => {
       url: 'https://deploy.test.com/build-123'
     });
     mockHasDeploymentConfig.mockReturnValue(false);
-    
+    mockStepRunner.run.mockResolvedValue([]);
+    mockHistory.record.mockResolvedValue(undefined);
+    mockHistory.list.mockResolvedValue([]);
+
     // Setup notification manager mocks
     mockNotificationManager.createSuccessNotification.mockReturnValue({
       title: 'Build completed',
@@ -279,10 +363,7 @@ describe('BuildPipeline', () => {
     it('should acquire and release lock', async () => {
       await pipeline.run();
 
-      expect(mockLockManager.acquire).toHaveBeenCalledWith(
-        expect.any(String),
-        300
-      );
+      expect(mockLockManager.acquire).toHaveBeenCalledWith(expect.any(String), 300);
       expect(mockLockManager.release).toHaveBeenCalled();
     });
 
@@ -312,19 +393,21 @@ describe('BuildPipeline', () => {
       expect(result.success).toBe(true);
       expect(result.message).toBe('No changes detected');
       expect(result.artifacts).toEqual([]);
-      
+
       // Should not send any notifications
       expect(mockNotificationManager.send).not.toHaveBeenCalled();
-      
+
       // Should not trigger deployment
       expect(mockDeploymentTrigger.trigger).not.toHaveBeenCalled();
-      
+
       // Should not run tests
       expect(mockTestRunner.run).not.toHaveBeenCalled();
-      
+
       // Should log appropriate message
       expect(mockLogger.step).toHaveBeenCalledWith('diff', 'No changes detected between base and head');
-      expect(mockLogger.buildComplete).toHaveBeenCalledWith(true, expect.any(Number), { message: 'No changes to report' });
+      expect(mockLogger.buildComplete).toHaveBeenCalledWith(true, expect.any(Number), {
+        message: 'No changes to report'
+      });
     });
 
     it('should handle lock acquisition failure', async () => {
@@ -429,7 +512,10 @@ describe('BuildPipeline', () => {
       const result = await pipeline.run();
 
       expect(result.success).toBe(true);
-      expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to send notification'), expect.any(Object));
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to send notification'),
+        expect.any(Object)
+      );
     });
 
     it('should handle artifact upload failures', async () => {
@@ -460,6 +546,13 @@ describe('BuildPipeline', () => {
       });
     });
 
+    it('should use a lock file derived from the project and branch', async () => {
+      await pipeline.run();
+
+      expect(mockGetLockFilePath).toHaveBeenCalledWith(mockConfig, '/test/project', 'main');
+      expect(mockLockManager.acquire).toHaveBeenCalledWith('/tmp/ccanywhere-locks/test_repo.lock', 300);
+    });
+
     it('should create proper runtime context', async () => {
       await pipeline.run();
 
@@ -479,7 +572,7 @@ describe('BuildPipeline', () => {
 
     it('should extract commit info properly', async () => {
       // Override the mock implementation for this test
-      (mockExeca as any).mockImplementation((command: any, args: any) => {
+      mockExeca.mockImplementation((_command, args) => {
         if (args?.[0] === 'rev-parse' && args?.[1] === '--short') {
           return Promise.resolve({ stdout: 'abc123' });
         }
@@ -516,7 +609,7 @@ describe('BuildPipeline', () => {
 
     it('should handle partial commit info', async () => {
       // Override the mock to simulate git command failures
-      (mockExeca as any).mockImplementation((command: any, args: any) => {
+      mockExeca.mockImplementation((_command, args) => {
         if (args?.[0] === 'rev-parse' && args?.[1] === '--short') {
           return Promise.resolve({ stdout: 'abc123' });
         }
@@ -562,7 +655,7 @@ describe('BuildPipeline', () => {
         path: '/path/to/diff.html',
         timestamp: expect.any(Number)
       });
-      
+
       // Mock test runner to return report URL
       mockTestRunner.run.mockResolvedValue({
         status: 'passed',
@@ -597,9 +690,7 @@ describe('BuildPipeline', () => {
       const result = await pipeline.run();
 
       expect(result.artifacts).toHaveLength(1); // Still has diff artifact
-      expect(result.artifacts[0]).toEqual(
-        expect.objectContaining({ type: 'diff' })
-      );
+      expect(result.artifacts[0]).toEqual(expect.objectContaining({ type: 'diff' }));
     });
   });
 
@@ -626,4 +717,639 @@ describe('BuildPipeline', () => {
       expect(result.timestamp).toBeLessThanOrEqual(Date.now());
     });
   });
-});
\ No newline at end of file
+
+  describe('plugins', () => {
+    it('should call plugin hooks around a successful build', async () => {
+      const calls: string[] = [];
+      const plugin = {
+        name: 'test-plugin',
+        version: '1.0.0',
+        initialize: jest.fn(async () => void calls.push('initialize')),
+        beforeBuild: jest.fn(async () => void calls.push('beforeBuild')),
+        afterBuild: jest.fn(async () => void calls.push('afterBuild')),
+        onError: jest.fn(async () => void calls.push('onError'))
+      };
+
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        plugins: [plugin]
+      });
+
+      const result = await pipeline.run();
+
+      expect(calls).toEqual(['initialize', 'beforeBuild', 'afterBuild']);
+      expect(plugin.afterBuild).toHaveBeenCalledWith(expect.objectContaining({ workDir: '/test/project' }), result);
+    });
+
+    it('should call onError when the build fails', async () => {
+      const plugin = {
+        name: 'test-plugin',
+        version: '1.0.0',
+        afterBuild: jest.fn(async () => undefined),
+        onError: jest.fn(async () => undefined)
+      };
+      mockDiffGenerator.generate.mockRejectedValue(new Error('Diff generation failed'));
+
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        plugins: [plugin]
+      });
+
+      await pipeline.run();
+
+      expect(plugin.onError).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ message: 'Diff generation failed' })
+      );
+      expect(plugin.afterBuild).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the build when a plugin throws', async () => {
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        plugins: [
+          {
+            name: 'broken-plugin',
+            version: '1.0.0',
+            beforeBuild: async () => {
+              throw new Error('plugin exploded');
+            }
+          }
+        ]
+      });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockLogger.error).toHaveBeenCalledWith('Plugin broken-plugin failed in beforeBuild', expect.any(Object));
+    });
+  });
+
+  describe('events', () => {
+    beforeEach(() => {
+      EventBus.reset();
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger
+      });
+    });
+
+    it('should emit build start and complete events', async () => {
+      const types: string[] = [];
+      EventBus.getInstance().onAny(payload => void types.push(payload.type));
+
+      const result = await pipeline.run();
+
+      expect(types).toEqual(['build:start', 'build:complete']);
+      expect(result.success).toBe(true);
+    });
+
+    it('should attach the runtime context to build events', async () => {
+      const listener = jest.fn<EventListener<'build:complete'>>();
+      EventBus.getInstance().on('build:complete', listener);
+
+      const result = await pipeline.run();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: expect.objectContaining({ workDir: '/test/project' }),
+          data: { result }
+        })
+      );
+    });
+
+    it('should emit build error events on failure', async () => {
+      const listener = jest.fn<EventListener<'build:error'>>();
+      EventBus.getInstance().on('build:error', listener);
+      mockDiffGenerator.generate.mockRejectedValue(new Error('diff generation failed'));
+
+      await pipeline.run();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { step: 'diff', error: 'diff generation failed' } })
+      );
+    });
+  });
+
+  describe('custom steps', () => {
+    beforeEach(() => {
+      mockConfig.steps = [
+        { name: 'typecheck', command: 'npx tsc --noEmit' },
+        { name: 'lint', command: 'npx eslint .', continueOnError: true }
+      ];
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger
+      });
+    });
+
+    it('should not create a step runner when no steps are configured', async () => {
+      delete mockConfig.steps;
+
+      await pipeline.run();
+
+      expect(mockStepRunnerConstructor).not.toHaveBeenCalled();
+    });
+
+    it('should run steps after the diff and report them in the notification', async () => {
+      mockStepRunner.run.mockResolvedValue([
+        { name: 'typecheck', status: 'passed', exitCode: 0, duration: 3000, outputUrl: 'https://a.test/tc.log' },
+        {
+          name: 'lint',
+          status: 'failed',
+          exitCode: 1,
+          duration: 1000,
+          continueOnError: true,
+          error: 'Exited with code 1',
+          outputUrl: 'https://a.test/lint.log'
+        }
+      ]);
+
+      const result = await pipeline.run();
+
+      expect(mockStepRunner.run).toHaveBeenCalledWith(mockConfig.steps, expect.any(Object));
+      expect(result.success).toBe(true);
+      expect(result.stepResults).toHaveLength(2);
+      expect(result.artifacts.filter(a => a.type === 'log').map(a => a.url)).toEqual([
+        'https://a.test/tc.log',
+        'https://a.test/lint.log'
+      ]);
+
+      const [, , , , extra] = mockNotificationManager.createSuccessNotification.mock.calls[0]!;
+      expect(extra).toContain('✅ typecheck (3s)');
+      expect(extra).toContain('❌ lint: Exited with code 1 (ignored)');
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          links: [
+            { label: 'typecheck output', url: 'https://a.test/tc.log' },
+            { label: 'lint output', url: 'https://a.test/lint.log' }
+          ]
+        })
+      );
+    });
+
+    it('should fail the build and skip deployment and tests when a step fails', async () => {
+      mockHasDeploymentConfig.mockReturnValue(true);
+      mockStepRunner.run.mockResolvedValue([
+        { name: 'typecheck', status: 'failed', exitCode: 2, duration: 2000, error: 'Exited with code 2' },
+        { name: 'lint', status: 'skipped', duration: 0, continueOnError: true }
+      ]);
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Step typecheck failed: Exited with code 2');
+      expect(mockDeploymentTrigger.trigger).not.toHaveBeenCalled();
+      expect(mockTestRunner.run).not.toHaveBeenCalled();
+      expect(mockNotificationManager.createErrorNotification).toHaveBeenCalledWith(
+        'abc123',
+        'Step typecheck failed: Exited with code 2',
+        'steps'
+      );
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          diffUrl: 'https://artifacts.test.com/diff.html',
+          extra: expect.stringContaining('⏭️ lint skipped')
+        })
+      );
+    });
+  });
+
+  describe('build history', () => {
+    it('should record successful builds', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(mockBuildHistory).toHaveBeenCalledWith('/test/project');
+      expect(mockHistory.record).toHaveBeenCalledWith(result);
+    });
+
+    it('should record failed builds', async () => {
+      mockDiffGenerator.generate.mockRejectedValue(new Error('diff generation failed'));
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(mockHistory.record).toHaveBeenCalledWith(result);
+    });
+
+    it('should not record dry runs', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, dryRun: true });
+
+      await pipeline.run();
+
+      expect(mockHistory.record).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the build when history cannot be written', async () => {
+      mockHistory.record.mockRejectedValue(new Error('disk full'));
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to record build history', { error: 'disk full' });
+    });
+  });
+
+  describe('session diffs', () => {
+    beforeEach(() => {
+      mockReadSessionSnapshot.mockResolvedValue('baseline000');
+      mockDiffGenerator.generateRange.mockResolvedValue({
+        type: 'diff',
+        url: 'https://artifacts.test.com/diff-session.html',
+        path: '/path/to/diff-session.html',
+        timestamp: 1
+      });
+    });
+
+    it('should diff against the session start snapshot', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(mockReadSessionSnapshot).toHaveBeenCalledWith('/test/project', undefined);
+      expect(mockCaptureSnapshot).toHaveBeenCalledWith('/test/project', ['.artifacts', '.ccanywhere']);
+      expect(mockDiffGenerator.generateRange).toHaveBeenCalledWith(
+        'baseline000',
+        'current0000',
+        expect.objectContaining({ revision: 'abc123' })
+      );
+      expect(mockDiffGenerator.generate).not.toHaveBeenCalled();
+      expect(result.artifacts[0]!.url).toBe('https://artifacts.test.com/diff-session.html');
+    });
+
+    it('should use the branch diff when an explicit range is given', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run('origin/develop');
+
+      expect(mockReadSessionSnapshot).not.toHaveBeenCalled();
+      expect(mockDiffGenerator.generate).toHaveBeenCalledWith('origin/develop', 'HEAD', expect.any(Object));
+    });
+
+    it('should use the branch diff with branch scope', async () => {
+      mockConfig.diff = { scope: 'branch' };
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockReadSessionSnapshot).not.toHaveBeenCalled();
+      expect(mockDiffGenerator.generate).toHaveBeenCalledWith('origin/main', 'HEAD', expect.any(Object));
+    });
+
+    it('should fall back to the branch diff without a session snapshot', async () => {
+      mockReadSessionSnapshot.mockResolvedValue(null);
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockDiffGenerator.generateRange).not.toHaveBeenCalled();
+      expect(mockDiffGenerator.generate).toHaveBeenCalledWith('origin/main', 'HEAD', expect.any(Object));
+    });
+  });
+
+  describe('incremental diffs', () => {
+    beforeEach(() => {
+      mockHistory.list.mockResolvedValue([
+        { id: 'b', success: true, revision: 'def456' },
+        { id: 'a', success: true, revision: 'abc000', snapshot: 'previous000' }
+      ]);
+      mockDiffGenerator.generateRange.mockResolvedValue({
+        type: 'diff',
+        url: 'https://artifacts.test.com/diff-abc123-incremental.html',
+        path: '/path/to/diff-abc123-incremental.html',
+        timestamp: 1
+      });
+    });
+
+    it('should diff against the snapshot of the previous successful build', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(mockHistory.list).toHaveBeenCalledWith({ status: 'success' });
+      expect(mockDiffGenerator.generateRange).toHaveBeenCalledWith(
+        'previous000',
+        'current0000',
+        expect.any(Object),
+        'diff-incremental-abc123.html'
+      );
+      expect(result.artifacts[1]).toMatchObject({
+        type: 'diff-incremental',
+        url: 'https://artifacts.test.com/diff-abc123-incremental.html'
+      });
+      expect(result.snapshot).toBe('current0000');
+    });
+
+    it('should link both diffs in the notification', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockNotificationManager.createSuccessNotification).toHaveBeenCalledWith(
+        'abc123',
+        'https://artifacts.test.com/diff.html',
+        undefined,
+        'https://test.com/report.html',
+        expect.any(String)
+      );
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          links: [{ label: 'Changes since last build', url: 'https://artifacts.test.com/diff-abc123-incremental.html' }]
+        })
+      );
+    });
+
+    it('should pin the snapshot of a successful build', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockSaveSnapshot).toHaveBeenCalledWith('/test/project', 'last-build', 'current0000');
+    });
+
+    it('should skip the incremental diff without a previous build', async () => {
+      mockHistory.list.mockResolvedValue([]);
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(mockDiffGenerator.generateRange).not.toHaveBeenCalled();
+      expect(result.artifacts.map(a => a.type)).toEqual(['diff', 'report']);
+    });
+
+    it('should skip the incremental diff when disabled', async () => {
+      mockConfig.diff = { incremental: false };
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockHistory.list).not.toHaveBeenCalled();
+      expect(mockDiffGenerator.generateRange).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the build when the incremental diff fails', async () => {
+      mockDiffGenerator.generateRange.mockRejectedValue(new Error('bad object previous000'));
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to generate incremental diff', {
+        error: 'bad object previous000'
+      });
+    });
+  });
+
+  describe('sessions', () => {
+    const sessionId = '3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60';
+
+    it('should thread the session id into the context and result', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+
+      const result = await pipeline.run();
+
+      expect(mockDiffGenerator.generate).toHaveBeenCalledWith(
+        'origin/main',
+        'HEAD',
+        expect.objectContaining({ sessionId })
+      );
+      expect(mockReadSessionSnapshot).toHaveBeenCalledWith('/test/project', sessionId);
+      expect(result.sessionId).toBe(sessionId);
+      expect(mockHistory.record).toHaveBeenCalledWith(expect.objectContaining({ sessionId }));
+    });
+
+    it('should include the session id in notifications', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+
+      await pipeline.run();
+
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(expect.objectContaining({ sessionId }));
+    });
+
+    it('should include the session id in error notifications', async () => {
+      mockDiffGenerator.generate.mockRejectedValue(new Error('diff generation failed'));
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+
+      const result = await pipeline.run();
+
+      expect(result.sessionId).toBe(sessionId);
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(expect.objectContaining({ isError: true, sessionId }));
+    });
+
+    it('should prefix incremental diff names with the short session id', async () => {
+      mockHistory.list.mockResolvedValue([{ id: 'a', success: true, revision: 'abc000', snapshot: 'previous000' }]);
+      mockDiffGenerator.generateRange.mockResolvedValue({ type: 'diff', url: '', path: '', timestamp: 1 });
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+
+      await pipeline.run();
+
+      expect(mockDiffGenerator.generateRange).toHaveBeenCalledWith(
+        'previous000',
+        'current0000',
+        expect.any(Object),
+        'diff-incremental-3f2a9c1e-abc123.html'
+      );
+    });
+  });
+
+  describe('transcript summaries', () => {
+    const transcriptPath = '/home/user/.claude/projects/app/session.jsonl';
+    const summary = { lastPrompt: 'Add a toggle', toolCalls: { Edit: 1 }, filesEdited: ['/test/project/a.ts'] };
+
+    beforeEach(() => {
+      mockReadTranscriptSummary.mockResolvedValue(summary);
+      mockFormatTranscriptSummary.mockReturnValue('💬 Prompt: Add a toggle');
+    });
+
+    it('should lead the success notification with the transcript summary', async () => {
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        transcriptPath
+      });
+
+      await pipeline.run();
+
+      expect(mockReadTranscriptSummary).toHaveBeenCalledWith(transcriptPath);
+      expect(mockFormatTranscriptSummary).toHaveBeenCalledWith(summary, '/test/project');
+      const extra = mockNotificationManager.createSuccessNotification.mock.calls[0]![4];
+      expect(extra).toMatch(/^💬 Prompt: Add a toggle\n\nCommit: /);
+    });
+
+    it('should include the transcript summary in step failure notifications', async () => {
+      mockConfig.steps = [{ name: 'typecheck', command: 'npx tsc --noEmit' }];
+      mockStepRunner.run.mockResolvedValue([
+        { name: 'typecheck', status: 'failed', exitCode: 2, duration: 2000, error: 'Exited with code 2' }
+      ]);
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        transcriptPath
+      });
+
+      await pipeline.run();
+
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(
+        expect.objectContaining({ extra: expect.stringContaining('💬 Prompt: Add a toggle') })
+      );
+    });
+
+    it('should report the token usage of the session', async () => {
+      mockReadTranscriptUsage.mockResolvedValue({ inputTokens: 1200, outputTokens: 300 });
+      mockConfig.usage = { pricing: { 'claude-sonnet-4': { input: 3, output: 15 } } };
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        transcriptPath
+      });
+
+      await pipeline.run();
+
+      expect(mockReadTranscriptUsage).toHaveBeenCalledWith(transcriptPath, mockConfig.usage.pricing);
+      const extra = mockNotificationManager.createSuccessNotification.mock.calls[0]![4];
+      expect(extra).toMatch(/^💬 Prompt: Add a toggle\n\n🪙 Tokens: 1.2k in, 300 out\n\nCommit: /);
+    });
+
+    it('should leave out token usage when usage is disabled', async () => {
+      mockReadTranscriptUsage.mockResolvedValue({ inputTokens: 1200, outputTokens: 300 });
+      mockConfig.usage = { enabled: false };
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        transcriptPath
+      });
+
+      await pipeline.run();
+
+      expect(mockReadTranscriptUsage).not.toHaveBeenCalled();
+    });
+
+    it('should skip the summary when no transcript is given', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockReadTranscriptSummary).not.toHaveBeenCalled();
+    });
+
+    it('should still notify when the transcript cannot be read', async () => {
+      mockReadTranscriptSummary.mockRejectedValue(new Error('EACCES'));
+      pipeline = new BuildPipeline({
+        workDir: '/test/project',
+        config: mockConfig,
+        logger: mockLogger,
+        transcriptPath
+      });
+
+      await pipeline.run();
+
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to summarize transcript', { error: 'EACCES' });
+      expect(mockNotificationManager.send).toHaveBeenCalled();
+    });
+  });
+
+  describe('activity timeline', () => {
+    const sessionId = '3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60';
+    const timeline = {
+      type: 'timeline',
+      url: 'https://artifacts.test.com/timeline-3f2a9c1e-abc123.html',
+      path: '/test/project/.artifacts/timeline-3f2a9c1e-abc123.html',
+      timestamp: 1
+    };
+
+    beforeEach(() => {
+      mockConfig.hooks = { PostToolUse: true };
+      mockPublishAuditTimeline.mockResolvedValue(timeline);
+    });
+
+    it('should link the timeline of the session next to the diff', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+
+      const result = await pipeline.run();
+
+      expect(mockPublishAuditTimeline).toHaveBeenCalledWith(expect.objectContaining({ sessionId }));
+      expect(result.artifacts).toContainEqual(timeline);
+      expect(mockNotificationManager.send).toHaveBeenCalledWith(
+        expect.objectContaining({ links: [{ label: 'Activity timeline', url: timeline.url }] })
+      );
+    });
+
+    it('should skip the timeline without a session or the PostToolUse hook', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+      await pipeline.run();
+
+      mockConfig.hooks = {};
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+      await pipeline.run();
+
+      expect(mockPublishAuditTimeline).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the build when the timeline fails', async () => {
+      mockPublishAuditTimeline.mockRejectedValue(new Error('EACCES'));
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger, sessionId });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to generate activity timeline', { error: 'EACCES' });
+    });
+  });
+
+  describe('build queue', () => {
+    it('should wait for its turn before acquiring the lock', async () => {
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockBuildQueueConstructor).toHaveBeenCalledWith(mockLockManager);
+      expect(mockBuildQueue.waitForTurn).toHaveBeenCalledWith('/tmp/ccanywhere-locks/test_repo.lock', 300);
+      expect(mockLockManager.acquire).toHaveBeenCalled();
+    });
+
+    it('should skip the build when superseded by a newer run', async () => {
+      mockBuildQueue.waitForTurn.mockResolvedValue(false);
+      EventBus.reset();
+      const listener = jest.fn<EventListener<'build:complete'>>();
+      EventBus.getInstance().on('build:complete', listener);
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      const result = await pipeline.run();
+
+      expect(result).toMatchObject({ success: true, superseded: true, revision: 'abc123', artifacts: [] });
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ data: { result } }));
+      expect(mockLockManager.acquire).not.toHaveBeenCalled();
+      expect(mockLockManager.release).not.toHaveBeenCalled();
+      expect(mockDiffGenerator.generate).not.toHaveBeenCalled();
+      expect(mockHistory.record).not.toHaveBeenCalled();
+      expect(mockNotificationManager.send).not.toHaveBeenCalled();
+    });
+
+    it('should not queue when coalescing is disabled', async () => {
+      mockConfig.build!.coalesce = false;
+      pipeline = new BuildPipeline({ workDir: '/test/project', config: mockConfig, logger: mockLogger });
+
+      await pipeline.run();
+
+      expect(mockBuildQueue.waitForTurn).not.toHaveBeenCalled();
+      expect(mockLockManager.acquire).toHaveBeenCalledWith('/tmp/ccanywhere-locks/test_repo.lock', 300);
+    });
+  });
+});
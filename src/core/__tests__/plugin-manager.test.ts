@@ -0,0 +1,169 @@
+/**
+ * Tests for PluginManager
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, writeFile } = fsExtra;
+import { PluginManager } from '../plugin-manager.js';
+
+describe('PluginManager', () => {
+  let mockLogger: any;
+  let mockContext: any;
+  let testDir: string;
+
+  beforeEach(async () => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      step: jest.fn()
+    };
+    mockContext = { ...(global as any).mockContext };
+    testDir = join(tmpdir(), `ccanywhere-plugins-${Date.now()}`);
+    await ensureDir(testDir);
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('register', () => {
+    it('should register plugins passed to the constructor', () => {
+      const manager = new PluginManager(mockLogger, [{ name: 'a', version: '1.0.0' }]);
+
+      expect(manager.getPlugins().map(p => p.name)).toEqual(['a']);
+    });
+
+    it('should reject plugins without a name', () => {
+      const manager = new PluginManager(mockLogger);
+
+      expect(() => manager.register({ version: '1.0.0' } as any)).toThrow('Plugin must have a name');
+    });
+
+    it('should skip duplicate plugin names', () => {
+      const manager = new PluginManager(mockLogger);
+      manager.register({ name: 'a', version: '1.0.0' });
+      manager.register({ name: 'a', version: '2.0.0' });
+
+      expect(manager.getPlugins()).toHaveLength(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('already registered'));
+    });
+  });
+
+  describe('hooks', () => {
+    it('should call hooks in registration order', async () => {
+      const calls: string[] = [];
+      const manager = new PluginManager(mockLogger, [
+        { name: 'first', version: '1.0.0', beforeBuild: async () => void calls.push('first') },
+        { name: 'second', version: '1.0.0', beforeBuild: async () => void calls.push('second') }
+      ]);
+
+      await manager.beforeBuild(mockContext);
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should isolate errors thrown by a plugin', async () => {
+      const afterBuild = jest.fn(async () => undefined);
+      const manager = new PluginManager(mockLogger, [
+        {
+          name: 'broken',
+          version: '1.0.0',
+          afterBuild: async () => {
+            throw new Error('boom');
+          }
+        },
+        { name: 'healthy', version: '1.0.0', afterBuild }
+      ]);
+
+      const result = { success: true } as any;
+      await expect(manager.afterBuild(mockContext, result)).resolves.toBeUndefined();
+
+      expect(afterBuild).toHaveBeenCalledWith(mockContext, result);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Plugin broken failed in afterBuild',
+        expect.objectContaining({ plugin: 'broken', hook: 'afterBuild', error: 'boom' })
+      );
+    });
+
+    it('should skip plugins that do not implement a hook', async () => {
+      const manager = new PluginManager(mockLogger, [{ name: 'empty', version: '1.0.0' }]);
+
+      await manager.initialize(mockContext);
+      await manager.onError(mockContext, new Error('failure'));
+
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('load', () => {
+    it('should load a local plugin object relative to the work dir', async () => {
+      await writeFile(
+        join(testDir, 'object-plugin.mjs'),
+        "export default { name: 'local-object', version: '1.2.3' };\n",
+        'utf8'
+      );
+      const manager = new PluginManager(mockLogger);
+
+      await manager.load(['./object-plugin.mjs'], testDir);
+
+      expect(manager.getPlugins().map(p => p.name)).toEqual(['local-object']);
+    });
+
+    it('should pass options to plugin factories', async () => {
+      await writeFile(
+        join(testDir, 'factory-plugin.mjs'),
+        "export default options => ({ name: 'factory-' + options.suffix, version: '1.0.0' });\n",
+        'utf8'
+      );
+      const manager = new PluginManager(mockLogger);
+
+      await manager.load([{ module: join(testDir, 'factory-plugin.mjs'), options: { suffix: 'jira' } }], testDir);
+
+      expect(manager.getPlugins().map(p => p.name)).toEqual(['factory-jira']);
+    });
+
+    it('should skip disabled plugins', async () => {
+      const manager = new PluginManager(mockLogger);
+
+      await manager.load([{ module: './missing.mjs', enabled: false }], testDir);
+
+      expect(manager.getPlugins()).toHaveLength(0);
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should log and skip plugins that fail to load', async () => {
+      const manager = new PluginManager(mockLogger);
+
+      await manager.load(['./missing.mjs', 'ccanywhere-plugin-does-not-exist'], testDir);
+
+      expect(manager.getPlugins()).toHaveLength(0);
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to load plugin ./missing.mjs', expect.any(Object));
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Failed to load plugin ccanywhere-plugin-does-not-exist',
+        expect.any(Object)
+      );
+    });
+
+    it('should reject modules that do not export a plugin', async () => {
+      await writeFile(join(testDir, 'invalid-plugin.mjs'), 'export default 42;\n', 'utf8');
+      const manager = new PluginManager(mockLogger);
+
+      await manager.load(['./invalid-plugin.mjs'], testDir);
+
+      expect(manager.getPlugins()).toHaveLength(0);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Failed to load plugin ./invalid-plugin.mjs',
+        expect.objectContaining({ error: expect.stringContaining('must export a plugin') })
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the PreToolUse policy engine
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PolicyEngine, matchesToolName, matchesGlob, matchesBranch, getToolPaths } from '../policy.js';
+import type { PolicyRule } from '../../types/index.js';
+
+describe('policy engine', () => {
+  describe('matchesToolName', () => {
+    it('should match exact names and wildcards', () => {
+      expect(matchesToolName('Bash', 'Bash')).toBe(true);
+      expect(matchesToolName('Bash', ['Edit', 'Write'])).toBe(false);
+      expect(matchesToolName('mcp__github__create_pr', 'mcp__github__*')).toBe(true);
+      expect(matchesToolName('Bash.exe', 'Bash')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match file names at any depth when the glob has no slash', () => {
+      expect(matchesGlob('.env', '.env')).toBe(true);
+      expect(matchesGlob('config/.env', '.env')).toBe(true);
+      expect(matchesGlob('config/.env.local', '.env*')).toBe(true);
+      expect(matchesGlob('src/env.ts', '.env')).toBe(false);
+    });
+
+    it('should anchor globs with a slash at the project root', () => {
+      expect(matchesGlob('migrations/001_init.sql', 'migrations/**')).toBe(true);
+      expect(matchesGlob('db/migrations/001_init.sql', 'migrations/**')).toBe(false);
+      expect(matchesGlob('db/migrations/001_init.sql', '**/migrations/*.sql')).toBe(true);
+      expect(matchesGlob('src/a/b.ts', 'src/*.ts')).toBe(false);
+    });
+
+    it('should cover everything below a matching directory', () => {
+      expect(matchesGlob('secrets/prod/key.pem', 'secrets')).toBe(true);
+    });
+  });
+
+  describe('matchesBranch', () => {
+    it('should match whole branch names', () => {
+      expect(matchesBranch('main', 'main')).toBe(true);
+      expect(matchesBranch('feature/main', 'main')).toBe(false);
+      expect(matchesBranch('release/1.2', 'release/*')).toBe(true);
+    });
+  });
+
+  describe('getToolPaths', () => {
+    it('should make paths inside the project relative', () => {
+      expect(getToolPaths({ file_path: '/app/src/a.ts' }, '/app')).toEqual(['src/a.ts']);
+      expect(getToolPaths({ file_path: '/etc/hosts' }, '/app')).toEqual(['/etc/hosts']);
+      expect(getToolPaths({ notebook_path: 'nb.ipynb', path: 'src' })).toEqual(['nb.ipynb', 'src']);
+      expect(getToolPaths({ command: 'ls' })).toEqual([]);
+    });
+  });
+
+  describe('PolicyEngine', () => {
+    const rules: PolicyRule[] = [
+      { name: 'protect-env', tool: ['Edit', 'Write', 'Read'], paths: ['.env*'], action: 'deny', reason: 'Secrets' },
+      { name: 'no-force-push', tool: 'Bash', command: 'git\\s+push\\s+.*(--force|-f)\\b', action: 'deny' },
+      { name: 'migrations', paths: ['migrations/**'], action: 'ask' },
+      { name: 'main-bash', tool: 'Bash', branch: 'main', action: 'ask' },
+      { tool: 'Read', action: 'allow' }
+    ];
+    const engine = new PolicyEngine(rules);
+
+    it('should decide with the first matching rule', () => {
+      expect(engine.evaluate({ tool: 'Read', input: { file_path: '/app/.env' }, workDir: '/app' })).toEqual({
+        action: 'deny',
+        rule: 'protect-env',
+        reason: 'Secrets',
+        paths: ['.env']
+      });
+      expect(engine.evaluate({ tool: 'Read', input: { file_path: '/app/src/a.ts' }, workDir: '/app' })).toEqual(
+        expect.objectContaining({ action: 'allow', rule: '#5', reason: 'Read allowed by policy #5' })
+      );
+    });
+
+    it('should match Bash commands by regex', () => {
+      expect(engine.evaluate({ tool: 'Bash', input: { command: 'git push origin main --force' } })?.rule).toBe(
+        'no-force-push'
+      );
+      expect(engine.evaluate({ tool: 'Bash', input: { command: 'git push origin feature' } })).toBeNull();
+    });
+
+    it('should match path globs for any tool', () => {
+      expect(
+        engine.evaluate({ tool: 'Write', input: { file_path: '/app/migrations/002.sql' }, workDir: '/app' })
+      ).toEqual(
+        expect.objectContaining({
+          action: 'ask',
+          rule: 'migrations',
+          reason: 'Write needs approval by policy migrations'
+        })
+      );
+    });
+
+    it('should match the branch only when it is known', () => {
+      expect(engine.usesBranch).toBe(true);
+      expect(engine.evaluate({ tool: 'Bash', input: { command: 'ls' }, branch: 'main' })?.rule).toBe('main-bash');
+      expect(engine.evaluate({ tool: 'Bash', input: { command: 'ls' }, branch: 'feature/x' })).toBeNull();
+      expect(engine.evaluate({ tool: 'Bash', input: { command: 'ls' } })).toBeNull();
+    });
+
+    it('should return null without rules', () => {
+      const empty = new PolicyEngine();
+
+      expect(empty.usesBranch).toBe(false);
+      expect(empty.evaluate({ tool: 'Bash', input: { command: 'rm -rf /' } })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for working tree snapshots
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, writeFile } = fsExtra;
+import { execa } from 'execa';
+import {
+  captureSnapshot,
+  saveSnapshot,
+  readSnapshot,
+  deleteSnapshot,
+  getSnapshotRef,
+  getSessionSnapshotName,
+  readSessionSnapshot,
+  cleanSessionSnapshots
+} from '../snapshot.js';
+
+const git = (cwd: string, ...args: string[]) =>
+  execa('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd });
+
+describe('snapshots', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `ccanywhere-snapshot-${Date.now()}`);
+    await ensureDir(testDir);
+    await git(testDir, 'init', '-q');
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 1;\n');
+    await git(testDir, 'add', 'app.ts');
+    await git(testDir, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should store snapshots under refs/ccanywhere', () => {
+    expect(getSnapshotRef('session')).toBe('refs/ccanywhere/session');
+  });
+
+  it('should capture modified and untracked files without touching the index', async () => {
+    const baseline = await captureSnapshot(testDir);
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 2;\n');
+    await writeFile(join(testDir, 'new.ts'), 'export const b = 1;\n');
+
+    const current = await captureSnapshot(testDir);
+    const { stdout } = await execa('git', ['diff', '--name-status', baseline, current], { cwd: testDir });
+
+    expect(stdout.split('\n')).toEqual(['M\tapp.ts', 'A\tnew.ts']);
+    expect((await execa('git', ['diff', '--cached', '--name-only'], { cwd: testDir })).stdout).toBe('');
+    expect((await execa('git', ['ls-files'], { cwd: testDir })).stdout).toBe('app.ts');
+  });
+
+  it('should leave out excluded paths', async () => {
+    await ensureDir(join(testDir, '.artifacts'));
+    await writeFile(join(testDir, '.artifacts', 'diff.html'), '<html></html>');
+
+    const snapshot = await captureSnapshot(testDir, ['.artifacts']);
+    const { stdout } = await execa('git', ['ls-tree', '-r', '--name-only', snapshot], { cwd: testDir });
+
+    expect(stdout).toBe('app.ts');
+  });
+
+  it('should save, read and delete named snapshots', async () => {
+    expect(await readSnapshot(testDir, 'session')).toBeNull();
+
+    const snapshot = await captureSnapshot(testDir);
+    await saveSnapshot(testDir, 'session', snapshot);
+    expect(await readSnapshot(testDir, 'session')).toBe(snapshot);
+
+    await deleteSnapshot(testDir, 'session');
+    expect(await readSnapshot(testDir, 'session')).toBeNull();
+  });
+
+  it('should name session baselines after the session id', () => {
+    expect(getSessionSnapshotName('3f2a9c1e-7b4d')).toBe('sessions/3f2a9c1e-7b4d');
+    expect(getSessionSnapshotName('a/b c')).toBe('sessions/a_b_c');
+    expect(getSessionSnapshotName()).toBe('session');
+  });
+
+  it('should fall back to the latest session baseline', async () => {
+    const latest = await captureSnapshot(testDir);
+    await saveSnapshot(testDir, 'session', latest);
+    await writeFile(join(testDir, 'app.ts'), 'export const a = 3;\n');
+    const own = await captureSnapshot(testDir);
+    await saveSnapshot(testDir, getSessionSnapshotName('abc'), own);
+
+    expect(await readSessionSnapshot(testDir, 'abc')).toBe(own);
+    expect(await readSessionSnapshot(testDir, 'other')).toBe(latest);
+    expect(await readSessionSnapshot(testDir)).toBe(latest);
+  });
+
+  it('should clean session baselines taken before the cutoff', async () => {
+    const snapshot = await captureSnapshot(testDir);
+    await saveSnapshot(testDir, 'session', snapshot);
+    await saveSnapshot(testDir, getSessionSnapshotName('abc'), snapshot);
+
+    expect(await cleanSessionSnapshots(testDir, Date.now() - 60 * 60 * 1000)).toBe(0);
+    expect(await readSnapshot(testDir, getSessionSnapshotName('abc'))).toBe(snapshot);
+
+    expect(await cleanSessionSnapshots(testDir, Date.now() + 60 * 60 * 1000)).toBe(1);
+    expect(await readSnapshot(testDir, getSessionSnapshotName('abc'))).toBeNull();
+    expect(await readSnapshot(testDir, 'session')).toBe(snapshot);
+  });
+});
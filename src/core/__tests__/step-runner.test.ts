@@ -0,0 +1,123 @@
+/**
+ * Tests for StepRunner
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, readFile } = fsExtra;
+import { StepRunner } from '../step-runner.js';
+import { EventBus, type EventListener } from '../events.js';
+import type { Logger, RuntimeContext } from '../../types/index.js';
+
+describe('StepRunner', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let mockContext: RuntimeContext;
+  let testDir: string;
+
+  beforeEach(async () => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      step: jest.fn()
+    } as unknown as jest.Mocked<Logger>;
+    testDir = join(tmpdir(), `ccanywhere-steps-${Date.now()}`);
+    await ensureDir(join(testDir, 'packages', 'app'));
+    mockContext = {
+      ...(global as unknown as { mockContext: RuntimeContext }).mockContext,
+      workDir: testDir,
+      artifactsDir: join(testDir, '.artifacts')
+    };
+    EventBus.reset();
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(testDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should run steps and publish their output', async () => {
+    const runner = new StepRunner(mockLogger);
+
+    const [result] = await runner.run([{ name: 'lint', command: 'echo lint ok' }], mockContext);
+
+    expect(result).toMatchObject({ name: 'lint', status: 'passed', exitCode: 0 });
+    expect(result?.outputUrl).toBe('https://artifacts.test.com/diffs/test/repo/step-lint-abc123.log');
+
+    const log = await readFile(join(testDir, '.artifacts', 'step-lint-abc123.log'), 'utf8');
+    expect(log).toContain('$ echo lint ok');
+    expect(log).toContain('lint ok');
+  });
+
+  it('should apply cwd and env', async () => {
+    const runner = new StepRunner(mockLogger);
+
+    await runner.run(
+      [{ name: 'Type Check', command: 'pwd && echo "mode=$STEP_MODE"', cwd: 'packages/app', env: { STEP_MODE: 'ci' } }],
+      mockContext
+    );
+
+    const log = await readFile(join(testDir, '.artifacts', 'step-type-check-abc123.log'), 'utf8');
+    expect(log).toContain(join('packages', 'app'));
+    expect(log).toContain('mode=ci');
+  });
+
+  it('should skip remaining steps after a failure', async () => {
+    const runner = new StepRunner(mockLogger);
+
+    const results = await runner.run(
+      [
+        { name: 'typecheck', command: 'echo type error >&2; exit 2' },
+        { name: 'lint', command: 'echo lint ok' }
+      ],
+      mockContext
+    );
+
+    expect(results.map(r => r.status)).toEqual(['failed', 'skipped']);
+    expect(results[0]).toMatchObject({ exitCode: 2, error: 'Exited with code 2' });
+
+    const log = await readFile(join(testDir, '.artifacts', 'step-typecheck-abc123.log'), 'utf8');
+    expect(log).toContain('type error');
+  });
+
+  it('should keep going when continueOnError is set', async () => {
+    const runner = new StepRunner(mockLogger);
+
+    const results = await runner.run(
+      [
+        { name: 'lint', command: 'exit 1', continueOnError: true },
+        { name: 'build', command: 'echo built' }
+      ],
+      mockContext
+    );
+
+    expect(results.map(r => r.status)).toEqual(['failed', 'passed']);
+    expect(results[0]?.continueOnError).toBe(true);
+  });
+
+  it('should fail steps that exceed their timeout', async () => {
+    const runner = new StepRunner(mockLogger);
+
+    const [result] = await runner.run([{ name: 'slow', command: 'sleep 5', timeout: 1 }], mockContext);
+
+    expect(result).toMatchObject({ status: 'failed', error: 'Timed out after 1s' });
+  });
+
+  it('should emit step:complete for executed steps', async () => {
+    const listener = jest.fn<EventListener<'step:complete'>>();
+    EventBus.getInstance().on('step:complete', listener);
+    const runner = new StepRunner(mockLogger);
+
+    await runner.run([{ name: 'lint', command: 'true' }], mockContext);
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { result: expect.objectContaining({ name: 'lint', status: 'passed' }) } })
+    );
+  });
+});
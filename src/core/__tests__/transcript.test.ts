@@ -0,0 +1,110 @@
+/**
+ * Tests for transcript summaries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, remove, writeFile } = fsExtra;
+import { summarizeTranscript, readTranscriptSummary, formatTranscriptSummary } from '../transcript.js';
+
+const user = (content: unknown, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ type: 'user', message: { role: 'user', content }, ...extra });
+const assistant = (content: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ type: 'assistant', message: { role: 'assistant', content }, ...extra });
+const toolUse = (name: string, input: Record<string, unknown>) => ({ type: 'tool_use', id: name, name, input });
+
+const transcript = [
+  JSON.stringify({ type: 'summary', summary: 'Earlier work' }),
+  user('Add a dark mode toggle'),
+  assistant([
+    { type: 'text', text: 'I will look at the settings page.' },
+    toolUse('Read', { file_path: '/app/src/settings.tsx' })
+  ]),
+  user([{ type: 'tool_result', tool_use_id: 'Read', content: '...' }]),
+  assistant([
+    toolUse('Edit', { file_path: '/app/src/settings.tsx' }),
+    toolUse('Write', { file_path: '/app/src/theme.ts' })
+  ]),
+  assistant([toolUse('Edit', { file_path: '/app/src/settings.tsx' }), toolUse('Bash', { command: 'npm test' })]),
+  assistant([toolUse('Edit', { file_path: '/app/src/other.ts' })], { isSidechain: true }),
+  user('<command-name>/cost</command-name>'),
+  user('Caveat: generated by a local command', { isMeta: true }),
+  'not json',
+  assistant([{ type: 'text', text: 'Added the toggle and a theme module.' }])
+].join('\n');
+
+describe('transcript summaries', () => {
+  describe('summarizeTranscript', () => {
+    it('should extract the prompt, final message, tool calls and edited files', () => {
+      expect(summarizeTranscript(transcript)).toEqual({
+        lastPrompt: 'Add a dark mode toggle',
+        finalMessage: 'Added the toggle and a theme module.',
+        toolCalls: { Read: 1, Edit: 2, Write: 1, Bash: 1 },
+        filesEdited: ['/app/src/settings.tsx', '/app/src/theme.ts']
+      });
+    });
+
+    it('should handle an empty transcript', () => {
+      expect(summarizeTranscript('')).toEqual({ toolCalls: {}, filesEdited: [] });
+    });
+  });
+
+  describe('formatTranscriptSummary', () => {
+    it('should format the summary with project relative paths', () => {
+      const formatted = formatTranscriptSummary(summarizeTranscript(transcript), '/app');
+
+      expect(formatted.split('\n')).toEqual([
+        '💬 Prompt: Add a dark mode toggle',
+        '🤖 Claude: Added the toggle and a theme module.',
+        '🛠️ Tools: Edit ×2, Read ×1, Write ×1, Bash ×1',
+        '📝 Files: src/settings.tsx, src/theme.ts'
+      ]);
+    });
+
+    it('should truncate long messages and file lists', () => {
+      const formatted = formatTranscriptSummary({
+        lastPrompt: 'x'.repeat(1000),
+        toolCalls: {},
+        filesEdited: Array.from({ length: 12 }, (_, i) => `file${i}.ts`)
+      });
+
+      expect(formatted).toContain(`💬 Prompt: ${'x'.repeat(299)}…`);
+      expect(formatted).toContain('file9.ts (+2 more)');
+      expect(formatted).not.toContain('file10.ts');
+    });
+
+    it('should return an empty string for an empty summary', () => {
+      expect(formatTranscriptSummary({ toolCalls: {}, filesEdited: [] })).toBe('');
+    });
+  });
+
+  describe('readTranscriptSummary', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `ccanywhere-transcript-${Date.now()}`);
+      await ensureDir(testDir);
+    });
+
+    afterEach(async () => {
+      try {
+        await remove(testDir);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should read a transcript file', async () => {
+      const transcriptPath = join(testDir, 'session.jsonl');
+      await writeFile(transcriptPath, transcript);
+
+      expect((await readTranscriptSummary(transcriptPath))?.lastPrompt).toBe('Add a dark mode toggle');
+    });
+
+    it('should return null for a missing transcript', async () => {
+      expect(await readTranscriptSummary(join(testDir, 'missing.jsonl'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for token usage and cost reporting
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { appendFile, ensureDir, remove, writeFile } = fsExtra;
+import {
+  summarizeUsage,
+  calculateUsage,
+  getModelPrice,
+  readTranscriptUsage,
+  formatUsage,
+  formatTokens,
+  groupUsage,
+  totalUsage,
+  UsageStore
+} from '../usage.js';
+import type { UsageRecord } from '../usage.js';
+
+const assistant = (id: string, model: string, usage: Record<string, number>, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ type: 'assistant', message: { id, model, role: 'assistant', content: [], usage }, ...extra });
+
+const transcript = [
+  JSON.stringify({ type: 'user', message: { role: 'user', content: 'Add a toggle' } }),
+  assistant('msg_1', 'claude-sonnet-4-20250514', { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 1000 }),
+  // Another content block of the same response, with the final output count
+  assistant('msg_1', 'claude-sonnet-4-20250514', {
+    input_tokens: 10,
+    output_tokens: 200,
+    cache_read_input_tokens: 1000
+  }),
+  assistant(
+    'msg_2',
+    'claude-sonnet-4-20250514',
+    { input_tokens: 20, output_tokens: 300, cache_creation_input_tokens: 4000 },
+    { isSidechain: true }
+  ),
+  assistant('msg_3', 'claude-3-5-haiku-20241022', { input_tokens: 1000, output_tokens: 100 }),
+  assistant('msg_4', '<synthetic>', { input_tokens: 0, output_tokens: 0 }),
+  'not json'
+].join('\n');
+
+const createRecord = (sessionId: string, timestamp: number, cost = 1): UsageRecord => ({
+  sessionId,
+  timestamp,
+  inputTokens: 100,
+  outputTokens: 10,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 1000,
+  models: {},
+  cost,
+  unpricedModels: []
+});
+
+describe('token usage', () => {
+  describe('summarizeUsage', () => {
+    it('should count each response once, per model', () => {
+      expect(summarizeUsage(transcript)).toEqual({
+        'claude-sonnet-4-20250514': {
+          inputTokens: 30,
+          outputTokens: 500,
+          cacheCreationTokens: 4000,
+          cacheReadTokens: 1000
+        },
+        'claude-3-5-haiku-20241022': {
+          inputTokens: 1000,
+          outputTokens: 100,
+          cacheCreationTokens: 0,
+          cacheReadTokens: 0
+        }
+      });
+    });
+  });
+
+  describe('getModelPrice', () => {
+    it('should prefer the longest matching prefix and configured prices', () => {
+      expect(getModelPrice('claude-opus-4-1-20250805')).toEqual({ input: 15, output: 75 });
+      expect(getModelPrice('claude-opus-4-5-20251101')).toEqual({ input: 5, output: 25 });
+      expect(getModelPrice('claude-sonnet-4', { 'claude-sonnet': { input: 1, output: 2 } })).toEqual({
+        input: 1,
+        output: 2
+      });
+      expect(getModelPrice('gpt-5')).toBeUndefined();
+    });
+  });
+
+  describe('calculateUsage', () => {
+    it('should total tokens and estimate the cost', () => {
+      const usage = calculateUsage(summarizeUsage(transcript));
+
+      expect(usage).toEqual(
+        expect.objectContaining({
+          inputTokens: 1030,
+          outputTokens: 600,
+          cacheCreationTokens: 4000,
+          cacheReadTokens: 1000,
+          unpricedModels: []
+        })
+      );
+      // Sonnet: 30 * 3 + 500 * 15 + 4000 * 3.75 + 1000 * 0.3, Haiku: 1000 * 0.8 + 100 * 4 (per million)
+      expect(usage.cost).toBeCloseTo((90 + 7500 + 15000 + 300 + 800 + 400) / 1_000_000, 10);
+    });
+
+    it('should leave models without a price out of the cost', () => {
+      const usage = calculateUsage({
+        'local-model': { inputTokens: 500, outputTokens: 5, cacheCreationTokens: 0, cacheReadTokens: 0 }
+      });
+
+      expect(usage.cost).toBe(0);
+      expect(usage.unpricedModels).toEqual(['local-model']);
+      expect(formatUsage(usage)).toBe('🪙 Tokens: 500 in, 5 out\n💰 Cost: ~$0.00 (no price for local-model)');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should shorten token counts', () => {
+      expect(formatTokens(950)).toBe('950');
+      expect(formatTokens(12345)).toBe('12.3k');
+      expect(formatTokens(1_250_000)).toBe('1.3M');
+    });
+
+    it('should format the usage of a session', () => {
+      expect(formatUsage(calculateUsage(summarizeUsage(transcript)))).toBe(
+        '🪙 Tokens: 1.0k in, 600 out, 1.0k cache read, 4.0k cache write\n💰 Cost: ~$0.02'
+      );
+    });
+  });
+
+  describe('groupUsage', () => {
+    const monday = new Date(2024, 0, 1, 10).getTime();
+    const records = [
+      createRecord('session-a', monday),
+      createRecord('session-b', new Date(2024, 0, 1, 18).getTime(), 2),
+      createRecord('session-c', new Date(2024, 0, 3, 9).getTime()),
+      createRecord('session-d', new Date(2024, 0, 8, 9).getTime())
+    ];
+
+    it('should add up sessions by day, newest first', () => {
+      const days = groupUsage(records, 'day');
+
+      expect(days.map(day => [day.key, day.sessions, day.cost])).toEqual([
+        ['2024-01-08', 1, 1],
+        ['2024-01-03', 1, 1],
+        ['2024-01-01', 2, 3]
+      ]);
+      expect(days[2]!.inputTokens).toBe(200);
+    });
+
+    it('should add up sessions by week starting Monday', () => {
+      expect(groupUsage(records, 'week').map(week => [week.key, week.sessions])).toEqual([
+        ['2024-01-08', 1],
+        ['2024-01-01', 3]
+      ]);
+    });
+
+    it('should total the groups', () => {
+      expect(totalUsage(groupUsage(records, 'session'), 'app')).toEqual(
+        expect.objectContaining({ key: 'app', sessions: 4, cost: 5, inputTokens: 400, cacheReadTokens: 4000 })
+      );
+    });
+  });
+
+  describe('UsageStore and transcripts', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `ccanywhere-usage-${Date.now()}`);
+      await ensureDir(testDir);
+    });
+
+    afterEach(async () => {
+      try {
+        await remove(testDir);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should read the usage of a transcript file', async () => {
+      const transcriptPath = join(testDir, 'session.jsonl');
+      await writeFile(transcriptPath, transcript, 'utf8');
+
+      const usage = await readTranscriptUsage(transcriptPath, { 'claude-3-5-haiku': { input: 0, output: 0 } });
+
+      expect(usage?.outputTokens).toBe(600);
+      expect(await readTranscriptUsage(join(testDir, 'missing.jsonl'))).toBeNull();
+    });
+
+    it('should keep the latest record of a resumed session', async () => {
+      const store = new UsageStore(testDir);
+      const usage = calculateUsage(summarizeUsage(transcript));
+
+      await store.record('session-a', usage, 1000);
+      await store.record('session-b', usage, 2000);
+      await store.record('session-a', { ...usage, outputTokens: 900 }, 3000);
+      await appendFile(join(testDir, '.ccanywhere', 'usage.jsonl'), '{"sessionId"', 'utf8');
+
+      const records = await store.list();
+      expect(records.map(record => [record.sessionId, record.outputTokens])).toEqual([
+        ['session-b', 600],
+        ['session-a', 900]
+      ]);
+      expect((await store.list(2500)).map(record => record.sessionId)).toEqual(['session-a']);
+    });
+  });
+});
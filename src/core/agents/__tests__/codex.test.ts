@@ -0,0 +1,143 @@
+/**
+ * Tests for the agent adapters and the Codex CLI notify setting
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, readFile, remove, writeFile } = fsExtra;
+import { ClaudeCodeAdapter, CodexAdapter, getAgentAdapter, parseCodexNotification } from '../index.js';
+
+const NOTIFY_LINE = 'notify = ["npx", "ccanywhere", "run", "--hook-mode", "--agent", "codex", "--payload"]';
+
+describe('agent adapters', () => {
+  describe('getAgentAdapter', () => {
+    it('should return the adapter of an agent', () => {
+      expect(getAgentAdapter()).toBeInstanceOf(ClaudeCodeAdapter);
+      expect(getAgentAdapter('codex')).toBeInstanceOf(CodexAdapter);
+      expect(() => getAgentAdapter('cursor')).toThrow('Unknown agent: cursor (supported: claude-code, codex)');
+    });
+  });
+
+  describe('parseCodexNotification', () => {
+    it('should map a finished turn to Stop', () => {
+      const input = parseCodexNotification(
+        JSON.stringify({
+          type: 'agent-turn-complete',
+          'thread-id': 'b5f6c1d2',
+          'turn-id': '12345',
+          cwd: '/home/user/app',
+          'input-messages': ['Rename the config loader', 'Also update the tests'],
+          'last-assistant-message': 'Renamed and updated the tests.'
+        })
+      );
+
+      expect(input).toEqual(
+        expect.objectContaining({
+          sessionId: 'b5f6c1d2',
+          cwd: '/home/user/app',
+          hookEventName: 'Stop',
+          prompt: 'Also update the tests'
+        })
+      );
+      expect(input.raw['last-assistant-message']).toBe('Renamed and updated the tests.');
+    });
+
+    it('should yield an empty payload for missing or malformed input', () => {
+      expect(parseCodexNotification('')).toEqual({ raw: {} });
+      expect(parseCodexNotification('not json')).toEqual({ raw: {} });
+    });
+  });
+
+  describe('CodexAdapter', () => {
+    let codexHome: string;
+    let configPath: string;
+    let originalCodexHome: string | undefined;
+    const adapter = new CodexAdapter();
+
+    beforeEach(async () => {
+      codexHome = join(tmpdir(), `ccanywhere-codex-${Date.now()}`);
+      configPath = join(codexHome, 'config.toml');
+      await ensureDir(codexHome);
+      originalCodexHome = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = codexHome;
+    });
+
+    afterEach(async () => {
+      if (originalCodexHome === undefined) {
+        delete process.env.CODEX_HOME;
+      } else {
+        process.env.CODEX_HOME = originalCodexHome;
+      }
+      try {
+        await remove(codexHome);
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('should create the config with the notify program', async () => {
+      const result = await adapter.injectHooks({ createBackup: false });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, configPath }));
+      expect(await readFile(configPath, 'utf8')).toBe(`${NOTIFY_LINE}\n`);
+      expect(await adapter.areHooksInjected()).toBe(true);
+    });
+
+    it('should add notify before the first table and keep the rest', async () => {
+      await writeFile(configPath, 'model = "o3"\n\n[mcp_servers.docs]\ncommand = "docs-mcp"\n');
+
+      const result = await adapter.injectHooks();
+
+      expect(await readFile(configPath, 'utf8')).toBe(
+        `model = "o3"\n\n${NOTIFY_LINE}\n\n[mcp_servers.docs]\ncommand = "docs-mcp"\n`
+      );
+      expect(result.backupPath).toMatch(/config\.toml\.ccanywhere\..+\.backup$/);
+      expect(await readFile(result.backupPath!, 'utf8')).toBe(
+        'model = "o3"\n\n[mcp_servers.docs]\ncommand = "docs-mcp"\n'
+      );
+    });
+
+    it('should not replace the notify program of another tool without force', async () => {
+      await writeFile(configPath, 'notify = [\n  "python3",\n  "/home/user/notify.py", # desktop\n]\nmodel = "o3"\n');
+
+      const refused = await adapter.injectHooks({ createBackup: false });
+
+      expect(refused.success).toBe(false);
+      expect(refused.message).toContain('notify.py');
+      expect(await adapter.areHooksInjected()).toBe(false);
+
+      const forced = await adapter.injectHooks({ createBackup: false, force: true });
+
+      expect(forced.success).toBe(true);
+      expect(await readFile(configPath, 'utf8')).toBe(`${NOTIFY_LINE}\nmodel = "o3"\n`);
+    });
+
+    it('should ignore notify keys inside tables', async () => {
+      await writeFile(configPath, '[profiles.work]\nnotify = ["other"]\n');
+
+      await adapter.injectHooks({ createBackup: false });
+
+      expect(await readFile(configPath, 'utf8')).toBe(`${NOTIFY_LINE}\n\n[profiles.work]\nnotify = ["other"]\n`);
+    });
+
+    it('should remove only its own notify program', async () => {
+      await writeFile(configPath, 'notify = ["python3", "notify.py"]\n');
+      expect((await adapter.removeHooks()).success).toBe(false);
+
+      await writeFile(configPath, `model = "o3"\n${NOTIFY_LINE}\n`);
+      const result = await adapter.removeHooks();
+
+      expect(result.success).toBe(true);
+      expect(await readFile(configPath, 'utf8')).toBe('model = "o3"\n');
+    });
+
+    it('should report the config directory when detected', async () => {
+      const environment = await adapter.detect();
+
+      expect(environment.installed).toBe(true);
+      expect(environment.configDir).toBe(codexHome);
+    });
+  });
+});
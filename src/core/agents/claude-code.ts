@@ -0,0 +1,48 @@
+/**
+ * Claude Code adapter - hooks in settings.json, payload as JSON on stdin
+ */
+
+import { ClaudeCodeDetector } from '../../utils/claude-detector.js';
+import { HookInjector, type HookTarget } from '../../utils/hook-injector.js';
+import { parseHookInput, readHookInput } from '../hook-input.js';
+import type { HookInput } from '../hook-input.js';
+import type { AgentAdapter, AgentEnvironment, AgentHookOptions, AgentHookResult } from './types.js';
+
+export class ClaudeCodeAdapter implements AgentAdapter {
+  readonly name = 'claude-code' as const;
+  readonly displayName = 'Claude Code';
+
+  constructor(private readonly target: HookTarget = {}) {}
+
+  async detect(): Promise<AgentEnvironment> {
+    const environment = await ClaudeCodeDetector.detectEnvironment();
+    return { installed: environment.isClaudeCode, version: environment.version, configDir: environment.configDir };
+  }
+
+  async injectHooks(options: AgentHookOptions = {}): Promise<AgentHookResult> {
+    const result = await HookInjector.injectHooks({ ...this.target, ...options });
+    return {
+      success: result.success,
+      message: result.message,
+      configPath: result.configPath,
+      backupPath: result.backupPath
+    };
+  }
+
+  async removeHooks(): Promise<AgentHookResult> {
+    const result = await HookInjector.removeHooks(undefined, this.target);
+    return { success: result.success, message: result.message, configPath: result.configPath };
+  }
+
+  areHooksInjected(): Promise<boolean> {
+    return HookInjector.areHooksInjected(this.target);
+  }
+
+  parseHookInput(payload: string): HookInput {
+    return parseHookInput(payload);
+  }
+
+  readHookInput(payload?: string): Promise<HookInput> {
+    return payload !== undefined ? Promise.resolve(parseHookInput(payload)) : readHookInput();
+  }
+}
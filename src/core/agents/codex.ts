@@ -0,0 +1,229 @@
+/**
+ * Codex CLI adapter - Codex runs the `notify` program of its config.toml after every agent turn,
+ * appending the event as a JSON argument
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { execa } from 'execa';
+import { Logger } from '../../utils/logger.js';
+import { parseHookInput, type HookInput } from '../hook-input.js';
+import type { AgentAdapter, AgentEnvironment, AgentHookOptions, AgentHookResult } from './types.js';
+
+/**
+ * The notify program. --payload comes last so Codex's JSON argument becomes its value.
+ */
+export const CODEX_NOTIFY_COMMAND = ['npx', 'ccanywhere', 'run', '--hook-mode', '--agent', 'codex', '--payload'];
+
+interface NotifySetting {
+  start: number; // First and last line of the setting, which may span lines
+  end: number;
+  text: string;
+}
+
+/**
+ * Codex configuration directory, CODEX_HOME or ~/.codex
+ */
+export function getCodexHome(): string {
+  return process.env.CODEX_HOME || path.join(os.homedir(), '.codex');
+}
+
+/**
+ * Parse a Codex notification. Codex only notifies when the agent finishes a turn, which maps to Claude Code's Stop.
+ */
+export function parseCodexNotification(payload: string): HookInput {
+  const { raw } = parseHookInput(payload);
+  const string = (key: string): string | undefined =>
+    typeof raw[key] === 'string' && raw[key] ? (raw[key] as string) : undefined;
+  const messages = Array.isArray(raw['input-messages'])
+    ? raw['input-messages'].filter((message): message is string => typeof message === 'string')
+    : [];
+  const type = string('type');
+
+  return {
+    sessionId: string('thread-id'),
+    cwd: string('cwd'),
+    hookEventName: type === 'agent-turn-complete' ? 'Stop' : type,
+    prompt: messages[messages.length - 1],
+    raw
+  };
+}
+
+export class CodexAdapter implements AgentAdapter {
+  private static logger = Logger.getInstance();
+
+  readonly name = 'codex' as const;
+  readonly displayName = 'Codex CLI';
+
+  async detect(): Promise<AgentEnvironment> {
+    const configDir = getCodexHome();
+    const version = await this.detectVersion();
+    const hasConfigDir = await fs.pathExists(configDir);
+
+    return {
+      installed: version !== undefined || hasConfigDir,
+      version,
+      ...(hasConfigDir ? { configDir } : {})
+    };
+  }
+
+  /**
+   * Set CCanywhere as the notify program. Codex runs only one, so another tool's is replaced only with force.
+   */
+  async injectHooks(options: AgentHookOptions = {}): Promise<AgentHookResult> {
+    const configPath = this.getConfigPath();
+    const lines = await this.readConfig(configPath);
+    const existing = findNotifySetting(lines);
+    const line = `notify = [${CODEX_NOTIFY_COMMAND.map(arg => JSON.stringify(arg)).join(', ')}]`;
+
+    if (existing?.text === line) {
+      return { success: true, message: 'CCanywhere notify is already set', configPath };
+    }
+    if (existing && !existing.text.includes('ccanywhere') && !options.force) {
+      return {
+        success: false,
+        message: `Codex already runs another notify program (${existing.text}). Use --force to replace it`,
+        configPath
+      };
+    }
+
+    const backupPath =
+      options.createBackup !== false && (await fs.pathExists(configPath))
+        ? await this.createBackup(configPath)
+        : undefined;
+
+    if (existing) {
+      lines.splice(existing.start, existing.end - existing.start + 1, line);
+    } else {
+      // Top-level keys must come before the first table
+      const firstTable = lines.findIndex(l => /^\s*\[/.test(l));
+      if (firstTable === -1) {
+        lines.push(line);
+      } else {
+        lines.splice(firstTable, 0, line, '');
+      }
+    }
+
+    await this.writeConfig(configPath, lines);
+    CodexAdapter.logger.info(`Codex notify set in ${configPath}`);
+
+    return { success: true, message: `Set notify in ${configPath}`, configPath, backupPath };
+  }
+
+  async removeHooks(): Promise<AgentHookResult> {
+    const configPath = this.getConfigPath();
+    const lines = await this.readConfig(configPath);
+    const existing = findNotifySetting(lines);
+
+    if (!existing?.text.includes('ccanywhere')) {
+      return { success: false, message: 'No CCanywhere notify program found', configPath };
+    }
+
+    lines.splice(existing.start, existing.end - existing.start + 1);
+    await this.writeConfig(configPath, lines);
+    CodexAdapter.logger.info(`Codex notify removed from ${configPath}`);
+
+    return { success: true, message: `Removed notify from ${configPath}`, configPath };
+  }
+
+  async areHooksInjected(): Promise<boolean> {
+    const existing = findNotifySetting(await this.readConfig(this.getConfigPath()));
+    return !!existing?.text.includes('ccanywhere');
+  }
+
+  parseHookInput(payload: string): HookInput {
+    return parseCodexNotification(payload);
+  }
+
+  /**
+   * Codex passes the notification as an argument only, so there is nothing to read without one
+   */
+  async readHookInput(payload?: string): Promise<HookInput> {
+    return parseCodexNotification(payload || '');
+  }
+
+  private getConfigPath(): string {
+    return path.join(getCodexHome(), 'config.toml');
+  }
+
+  private async detectVersion(): Promise<string | undefined> {
+    try {
+      const { stdout } = await execa('codex', ['--version'], { timeout: 5000 });
+      return stdout.match(/\d+\.\d+\.\d+\S*/)?.[0] || stdout.trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readConfig(configPath: string): Promise<string[]> {
+    if (!(await fs.pathExists(configPath))) {
+      return [];
+    }
+    return (await fs.readFile(configPath, 'utf8')).replace(/\n$/, '').split('\n');
+  }
+
+  private async writeConfig(configPath: string, lines: string[]): Promise<void> {
+    await fs.ensureDir(path.dirname(configPath));
+    await fs.writeFile(configPath, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf8');
+  }
+
+  private async createBackup(configPath: string): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${configPath}.ccanywhere.${timestamp}.backup`;
+    await fs.copy(configPath, backupPath);
+    return backupPath;
+  }
+}
+
+/**
+ * Find the top-level notify setting of a config.toml. The array may span lines, so brackets are
+ * counted outside strings and comments until it closes.
+ */
+function findNotifySetting(lines: string[]): NotifySetting | undefined {
+  for (let start = 0; start < lines.length; start++) {
+    if (/^\s*\[/.test(lines[start]!)) {
+      return undefined;
+    }
+    if (!/^\s*notify\s*=/.test(lines[start]!)) {
+      continue;
+    }
+
+    let depth = 0;
+    for (let end = start; end < lines.length; end++) {
+      depth += countBrackets(lines[end]!);
+      if (depth <= 0) {
+        return { start, end, text: lines.slice(start, end + 1).join('\n') };
+      }
+    }
+    return { start, end: lines.length - 1, text: lines.slice(start).join('\n') };
+  }
+
+  return undefined;
+}
+
+function countBrackets(line: string): number {
+  let depth = 0;
+  let quote: string | undefined;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      break;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    }
+  }
+
+  return depth;
+}
@@ -0,0 +1,27 @@
+/**
+ * Coding agent adapters
+ */
+
+import { ClaudeCodeAdapter } from './claude-code.js';
+import { CodexAdapter } from './codex.js';
+import type { AgentAdapter, AgentName } from './types.js';
+
+export const AGENT_NAMES: AgentName[] = ['claude-code', 'codex'];
+
+/**
+ * Get the adapter of an agent by name, throwing on unknown agents
+ */
+export function getAgentAdapter(name: string = 'claude-code'): AgentAdapter {
+  switch (name) {
+    case 'claude-code':
+      return new ClaudeCodeAdapter();
+    case 'codex':
+      return new CodexAdapter();
+    default:
+      throw new Error(`Unknown agent: ${name} (supported: ${AGENT_NAMES.join(', ')})`);
+  }
+}
+
+export { ClaudeCodeAdapter } from './claude-code.js';
+export { CodexAdapter, CODEX_NOTIFY_COMMAND, getCodexHome, parseCodexNotification } from './codex.js';
+export type { AgentAdapter, AgentEnvironment, AgentHookOptions, AgentHookResult, AgentName } from './types.js';
@@ -0,0 +1,43 @@
+/**
+ * Coding agent adapter types
+ */
+
+import type { HookInput } from '../hook-input.js';
+
+export type AgentName = 'claude-code' | 'codex';
+
+export interface AgentEnvironment {
+  installed: boolean;
+  version?: string;
+  configDir?: string;
+}
+
+export interface AgentHookOptions {
+  createBackup?: boolean;
+  force?: boolean; // Replace a hook another tool registered where the agent allows only one
+}
+
+export interface AgentHookResult {
+  success: boolean;
+  message: string;
+  configPath?: string; // File the hooks were written to
+  backupPath?: string;
+}
+
+/**
+ * Everything CCanywhere needs to know about a CLI agent: how to find it, how to register and remove
+ * the hooks that run CCanywhere, and how to read the payload those hooks receive
+ */
+export interface AgentAdapter {
+  readonly name: AgentName;
+  readonly displayName: string;
+  detect(): Promise<AgentEnvironment>;
+  injectHooks(options?: AgentHookOptions): Promise<AgentHookResult>;
+  removeHooks(): Promise<AgentHookResult>;
+  areHooksInjected(): Promise<boolean>;
+  parseHookInput(payload: string): HookInput;
+  /**
+   * Read the hook payload: the given one (from --payload), otherwise wherever the agent passes it
+   */
+  readHookInput(payload?: string): Promise<HookInput>;
+}
@@ -0,0 +1,253 @@
+/**
+ * Remote approval of Claude Code tool calls - the PreToolUse hook asks on Telegram and waits for the answer
+ */
+
+import axios from 'axios';
+import { basename } from 'path';
+import { randomUUID } from 'crypto';
+import type { ApprovalConfig, ApprovalDecision, CcanywhereConfig } from '../types/index.js';
+import { BuildError } from '../types/index.js';
+import { TELEGRAM_API_BASE_URL } from './notifications/telegram.js';
+import { matchesToolName } from './policy.js';
+
+export type TelegramConfig = NonNullable<NonNullable<CcanywhereConfig['notifications']>['telegram']>;
+
+export interface ApprovalRequest {
+  tool: string;
+  input?: Record<string, unknown>;
+  workDir?: string;
+  sessionId?: string;
+}
+
+export interface ApprovalResult {
+  decision: ApprovalDecision;
+  reason: string;
+  timedOut: boolean;
+}
+
+export const DEFAULT_APPROVAL_TOOLS = ['Bash', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+export const DEFAULT_APPROVAL_TIMEOUT = 120;
+
+const MAX_INPUT_LENGTH = 800;
+
+interface TelegramUpdate {
+  update_id: number;
+  callback_query?: {
+    id: string;
+    data?: string;
+    from?: { username?: string; first_name?: string };
+    message?: { chat?: { id: number | string } };
+  };
+}
+
+/**
+ * Whether a tool call needs approval. Patterns are tool names where '*' matches anything (e.g. 'mcp__github__*').
+ */
+export function requiresApproval(tool: string, patterns: string[] = DEFAULT_APPROVAL_TOOLS): boolean {
+  return matchesToolName(tool, patterns);
+}
+
+/**
+ * Render a tool call as the text of the approval message
+ */
+export function formatApprovalRequest(request: ApprovalRequest): string {
+  const lines = ['🔐 Permission request', `Tool: ${request.tool}`];
+
+  if (request.workDir) {
+    lines.push(`Project: ${basename(request.workDir)}`);
+  }
+  if (request.sessionId) {
+    lines.push(`Session: ${request.sessionId.substring(0, 8)}`);
+  }
+
+  const input = request.input || {};
+  let details: string;
+  if (typeof input.command === 'string') {
+    details = `$ ${input.command}`;
+  } else if (typeof input.file_path === 'string' || typeof input.notebook_path === 'string') {
+    details = `File: ${input.file_path || input.notebook_path}`;
+  } else {
+    details = Object.keys(input).length > 0 ? JSON.stringify(input, null, 2) : '';
+  }
+
+  if (details) {
+    lines.push('', details.length > MAX_INPUT_LENGTH ? `${details.substring(0, MAX_INPUT_LENGTH - 1)}…` : details);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Sends an approval request with Approve/Deny buttons to the configured Telegram chat and waits for a button press
+ */
+export class TelegramApprover {
+  private readonly apiUrl: string;
+  private readonly chatId: string;
+  private readonly timeout: number;
+  private readonly defaultDecision: ApprovalDecision;
+  private readonly pollInterval: number;
+
+  constructor(telegram: TelegramConfig, config: ApprovalConfig = {}, pollInterval = 1000) {
+    this.apiUrl = `${(telegram.apiBaseUrl || TELEGRAM_API_BASE_URL).replace(/\/+$/, '')}/bot${telegram.botToken}`;
+    this.chatId = telegram.chatId;
+    this.timeout = (config.timeout ?? DEFAULT_APPROVAL_TIMEOUT) * 1000;
+    this.defaultDecision = config.defaultDecision || 'deny';
+    this.pollInterval = pollInterval;
+  }
+
+  /**
+   * Ask for approval. Resolves with the default decision when nobody answers before the timeout, or when the
+   * request cannot be sent.
+   */
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalResult> {
+    const id = randomUUID().substring(0, 8);
+    const text = formatApprovalRequest(request);
+    const deadline = Date.now() + this.timeout;
+    // The expiry lets other sessions polling the same bot tell live requests from stale button presses
+    const expires = Math.ceil(deadline / 1000).toString(36);
+
+    let messageId: number | undefined;
+    try {
+      const sent = await this.call<{ message_id: number }>('sendMessage', {
+        chat_id: this.chatId,
+        text,
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: '✅ Approve', callback_data: `ccanywhere:allow:${id}:${expires}` },
+              { text: '❌ Deny', callback_data: `ccanywhere:deny:${id}:${expires}` }
+            ]
+          ]
+        }
+      });
+      messageId = sent?.message_id;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        decision: this.defaultDecision,
+        reason: `Approval request could not be sent (${message}), ${this.describeDefault()} by default`,
+        timedOut: false
+      };
+    }
+
+    const answer = await this.waitForAnswer(id, deadline);
+    const result: ApprovalResult = answer
+      ? {
+          decision: answer.decision,
+          reason: `${answer.decision === 'allow' ? 'Approved' : 'Denied'} remotely${answer.user ? ` by ${answer.user}` : ''}`,
+          timedOut: false
+        }
+      : {
+          decision: this.defaultDecision,
+          reason: `No answer within ${this.timeout / 1000}s, ${this.describeDefault()} by default`,
+          timedOut: true
+        };
+
+    if (answer) {
+      await this.call('answerCallbackQuery', { callback_query_id: answer.callbackId, text: result.reason }).catch(
+        () => undefined
+      );
+    }
+
+    // Replace the buttons with the outcome so the chat shows what happened
+    if (messageId) {
+      const status = result.timedOut ? '⏱️' : result.decision === 'allow' ? '✅' : '❌';
+      await this.call('editMessageText', {
+        chat_id: this.chatId,
+        message_id: messageId,
+        text: `${text}\n\n${status} ${result.reason}`
+      }).catch(() => undefined);
+    }
+
+    return result;
+  }
+
+  /**
+   * Poll for the button press of this request. Confirming an update offset drops every update before it, so the
+   * offset only moves up to the first press of another live request, which other sessions polling the same bot
+   * still have to see. Presses of expired requests are answered as such and dropped, so they don't pile up.
+   */
+  private async waitForAnswer(
+    id: string,
+    deadline: number
+  ): Promise<{ decision: ApprovalDecision; callbackId: string; user?: string } | null> {
+    while (Date.now() < deadline) {
+      const updates =
+        (await this.call<TelegramUpdate[]>('getUpdates', { allowed_updates: ['callback_query'] }).catch(() => [])) ||
+        [];
+
+      let answer: { decision: ApprovalDecision; callbackId: string; user?: string } | undefined;
+      let keepFrom: number | undefined;
+
+      for (const update of updates) {
+        const query = update.callback_query;
+        const match =
+          typeof query?.data === 'string' ? /^ccanywhere:(allow|deny):(\w+)(?::(\w+))?$/.exec(query.data) : null;
+        if (!query || !match) {
+          continue;
+        }
+
+        if (match[2] === id && String(query.message?.chat?.id) === String(this.chatId)) {
+          // The first press counts, repeated taps are dropped with it
+          answer ??= {
+            decision: match[1] as ApprovalDecision,
+            callbackId: query.id,
+            user: query.from?.username || query.from?.first_name
+          };
+        } else if (match[3] && parseInt(match[3], 36) * 1000 > Date.now()) {
+          keepFrom ??= update.update_id;
+        } else {
+          await this.call('answerCallbackQuery', {
+            callback_query_id: query.id,
+            text: 'This request has expired'
+          }).catch(() => undefined);
+        }
+      }
+
+      const last = updates[updates.length - 1];
+      const offset = keepFrom ?? (last ? last.update_id + 1 : undefined);
+      if (offset !== undefined && offset > updates[0]!.update_id) {
+        await this.call('getUpdates', { offset, timeout: 0, allowed_updates: ['callback_query'] }).catch(
+          () => undefined
+        );
+      }
+
+      if (answer) {
+        return answer;
+      }
+
+      await new Promise(resolve =>
+        setTimeout(resolve, Math.min(this.pollInterval, Math.max(deadline - Date.now(), 0)))
+      );
+    }
+
+    return null;
+  }
+
+  private describeDefault(): string {
+    return this.defaultDecision === 'allow' ? 'allowed' : 'denied';
+  }
+
+  private async call<T = unknown>(method: string, payload: Record<string, unknown>): Promise<T> {
+    try {
+      const response = await axios.post(`${this.apiUrl}/${method}`, payload, {
+        timeout: 30000,
+        headers: { 'Content-Type': 'application/json' }
+      });
+
+      if (!response.data?.ok) {
+        throw new BuildError(`Telegram API error: ${response.data?.description || 'Unknown error'}`);
+      }
+
+      return response.data.result as T;
+    } catch (error) {
+      if (error instanceof BuildError) {
+        throw error;
+      }
+      const description = axios.isAxiosError(error) ? error.response?.data?.description : undefined;
+      throw new BuildError(
+        `Telegram ${method} failed: ${description || (error instanceof Error ? error.message : String(error))}`
+      );
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Artifact publishing - local copy plus optional cloud upload
+ */
+
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { writeFile, ensureDir } = fsExtra;
+import type { RuntimeContext } from '../types/index.js';
+import { StorageFactory } from './storage/index.js';
+
+export interface PublishedArtifact {
+  url: string;
+  path: string;
+  size: number;
+}
+
+/**
+ * Name an artifact after the build revision. Builds triggered by a Claude Code session are prefixed with the
+ * short session id, so the artifacts of a session sort together.
+ */
+export function getArtifactFileName(context: RuntimeContext, name: string, extension: string): string {
+  const session = context.sessionId ? `${context.sessionId.replace(/[^A-Za-z0-9]/g, '').substring(0, 8)}-` : '';
+  return `${name}-${session}${context.revision}.${extension}`;
+}
+
+/**
+ * Write an artifact to the local artifacts directory and upload it to cloud storage if configured.
+ * Upload failures fall back to the artifacts base URL so the build can continue.
+ */
+export async function publishArtifact(
+  context: RuntimeContext,
+  fileName: string,
+  content: string | Buffer,
+  contentType: string
+): Promise<PublishedArtifact> {
+  await ensureDir(context.artifactsDir);
+
+  const filePath = join(context.artifactsDir, fileName);
+  await writeFile(filePath, content);
+
+  const storageKey = StorageFactory.getStorageKey(context.config, fileName);
+  const baseUrl = context.config.artifacts?.baseUrl || context.config.urls?.artifacts;
+  let url = `${baseUrl || ''}/${storageKey}`;
+
+  const storageProvider = StorageFactory.create(context.config);
+  if (storageProvider) {
+    try {
+      const cloudUrl = await storageProvider.upload(storageKey, content, contentType);
+
+      // Use artifacts base URL if configured, otherwise use direct cloud URL
+      url = baseUrl ? url : cloudUrl;
+    } catch (storageError) {
+      // If cloud storage fails, log warning but continue with local URL
+      console.warn('Cloud storage upload failed:', storageError);
+    }
+  }
+
+  return {
+    url,
+    path: filePath,
+    size: Buffer.byteLength(content)
+  };
+}
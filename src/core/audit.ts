@@ -0,0 +1,302 @@
+/**
+ * Tool usage audit - PostToolUse records every tool call of a session (.ccanywhere/audit/<session>.jsonl),
+ * rendered as an HTML activity timeline for review
+ */
+
+import { basename, join } from 'path';
+import fsExtra from 'fs-extra';
+const { appendFile, ensureDir, pathExists, readFile } = fsExtra;
+import type { BuildArtifact, RuntimeContext } from '../types/index.js';
+import { getArtifactFileName, publishArtifact } from './artifacts.js';
+import { ensureStateDir, getStateDir } from './state.js';
+import { getToolPaths } from './policy.js';
+import { escapeHtml } from '../utils/html.js';
+
+const AUDIT_DIR = 'audit';
+const MAX_SUMMARY_LENGTH = 200;
+
+export type ToolStatus = 'success' | 'error' | 'interrupted';
+
+export interface ToolInvocation {
+  tool: string;
+  toolUseId?: string;
+  input?: Record<string, unknown>;
+  response?: unknown;
+}
+
+export interface ToolAuditEntry {
+  timestamp: number;
+  tool: string;
+  toolUseId?: string;
+  summary: string; // Command, file or pattern the tool was called with
+  status: ToolStatus;
+  exitCode?: number;
+  durationMs?: number; // Known when PreToolUse recorded the start of the call
+  files: string[];
+}
+
+interface AuditStartLine {
+  type: 'start';
+  toolUseId: string;
+  timestamp: number;
+}
+
+interface AuditToolLine extends ToolAuditEntry {
+  type: 'tool';
+}
+
+/**
+ * Get the audit file of a session
+ */
+export function getAuditFile(workDir: string, sessionId: string): string {
+  return join(getStateDir(workDir), AUDIT_DIR, `${sessionId.replace(/[^A-Za-z0-9_-]/g, '_')}.jsonl`);
+}
+
+/**
+ * Describe the arguments of a tool call in one line
+ */
+export function summarizeToolInput(tool: string, input: Record<string, unknown> = {}, workDir?: string): string {
+  const string = (key: string): string | undefined =>
+    typeof input[key] === 'string' && input[key] ? (input[key] as string) : undefined;
+
+  let summary: string;
+  if (string('command')) {
+    summary = `$ ${string('command')}`;
+  } else if (string('pattern')) {
+    summary = string('path') ? `${string('pattern')} in ${string('path')}` : string('pattern')!;
+  } else if (string('file_path') || string('notebook_path')) {
+    summary = getToolPaths(input, workDir).join(', ');
+  } else {
+    summary =
+      string('url') ||
+      string('query') ||
+      string('description') ||
+      (Object.keys(input).length > 0 ? JSON.stringify(input) : tool);
+  }
+
+  summary = summary.replace(/\s+/g, ' ').trim();
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.substring(0, MAX_SUMMARY_LENGTH - 1)}…` : summary;
+}
+
+/**
+ * Derive the outcome of a tool call from its response. Tools report failures differently, so any error flag,
+ * error message or non-zero exit code counts as an error.
+ */
+export function getToolStatus(response: unknown): { status: ToolStatus; exitCode?: number } {
+  if (!response || typeof response !== 'object' || Array.isArray(response)) {
+    return { status: 'success' };
+  }
+
+  const fields = response as Record<string, unknown>;
+  const code = [fields.exitCode, fields.exit_code, fields.returnCode].find(value => typeof value === 'number') as
+    | number
+    | undefined;
+
+  if (fields.interrupted === true) {
+    return { status: 'interrupted', exitCode: code };
+  }
+  if (
+    fields.is_error === true ||
+    fields.isError === true ||
+    fields.success === false ||
+    (typeof fields.error === 'string' && fields.error !== '') ||
+    (code !== undefined && code !== 0)
+  ) {
+    return { status: 'error', exitCode: code };
+  }
+
+  return { status: 'success', exitCode: code };
+}
+
+export class ToolAudit {
+  readonly file: string;
+
+  constructor(
+    private readonly workDir: string,
+    sessionId: string
+  ) {
+    this.file = getAuditFile(workDir, sessionId);
+  }
+
+  /**
+   * Remember when a tool call started, so its entry gets a duration
+   */
+  async start(toolUseId: string, timestamp: number = Date.now()): Promise<void> {
+    await this.append({ type: 'start', toolUseId, timestamp });
+  }
+
+  /**
+   * Append a completed tool call to the audit file
+   */
+  async record(invocation: ToolInvocation, timestamp: number = Date.now()): Promise<ToolAuditEntry> {
+    const started = invocation.toolUseId
+      ? (await this.readLines()).find(
+          (line): line is AuditStartLine => line.type === 'start' && line.toolUseId === invocation.toolUseId
+        )
+      : undefined;
+
+    const entry: ToolAuditEntry = {
+      timestamp,
+      tool: invocation.tool,
+      ...(invocation.toolUseId ? { toolUseId: invocation.toolUseId } : {}),
+      summary: summarizeToolInput(invocation.tool, invocation.input, this.workDir),
+      ...getToolStatus(invocation.response),
+      ...(started ? { durationMs: Math.max(timestamp - started.timestamp, 0) } : {}),
+      files: getToolPaths(invocation.input, this.workDir)
+    };
+    if (entry.exitCode === undefined) {
+      delete entry.exitCode;
+    }
+
+    await this.append({ type: 'tool', ...entry });
+    return entry;
+  }
+
+  /**
+   * Read the recorded tool calls in order
+   */
+  async read(): Promise<ToolAuditEntry[]> {
+    return (await this.readLines())
+      .filter((line): line is AuditToolLine => line.type === 'tool')
+      .map(({ type: _type, ...entry }) => entry);
+  }
+
+  private async append(line: AuditStartLine | AuditToolLine): Promise<void> {
+    await ensureStateDir(this.workDir);
+    await ensureDir(join(getStateDir(this.workDir), AUDIT_DIR));
+    await appendFile(this.file, `${JSON.stringify(line)}\n`, 'utf8');
+  }
+
+  /**
+   * Read all lines, skipping corrupt ones
+   */
+  private async readLines(): Promise<Array<AuditStartLine | AuditToolLine>> {
+    if (!(await pathExists(this.file))) {
+      return [];
+    }
+
+    const lines: Array<AuditStartLine | AuditToolLine> = [];
+    for (const line of (await readFile(this.file, 'utf8')).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        lines.push(JSON.parse(line));
+      } catch {
+        // Ignore partially written lines
+      }
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Render the tool calls of a session as a standalone HTML timeline
+ */
+export function renderAuditTimeline(
+  entries: ToolAuditEntry[],
+  meta: { sessionId?: string; project?: string } = {}
+): string {
+  const failed = entries.filter(entry => entry.status !== 'success').length;
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(entry.tool, (counts.get(entry.tool) || 0) + 1);
+  }
+  const tools = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([tool, count]) => `${escapeHtml(tool)} × ${count}`)
+    .join(' · ');
+  const first = entries[0]?.timestamp;
+  const last = entries[entries.length - 1]?.timestamp;
+
+  const rows = entries
+    .map(entry => {
+      const icon = entry.status === 'success' ? '✅' : entry.status === 'interrupted' ? '⏹️' : '❌';
+      const details = [
+        entry.durationMs !== undefined ? formatDuration(entry.durationMs) : '',
+        entry.exitCode !== undefined ? `exit ${entry.exitCode}` : ''
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      const files = entry.files.length
+        ? `<div class="files">${entry.files.map(file => `<code>${escapeHtml(file)}</code>`).join(' ')}</div>`
+        : '';
+
+      return `    <li class="${entry.status}">
+      <div class="head"><time>${formatTime(entry.timestamp)}</time> ${icon} <strong>${escapeHtml(entry.tool)}</strong>${details ? ` <span class="details">${details}</span>` : ''}</div>
+      <pre>${escapeHtml(entry.summary)}</pre>${files}
+    </li>`;
+    })
+    .join('\n');
+
+  const title = `Activity timeline${meta.project ? ` - ${escapeHtml(basename(meta.project))}` : ''}`;
+  const session = meta.sessionId ? `Session ${escapeHtml(meta.sessionId.substring(0, 8))} · ` : '';
+  const span = first !== undefined && last !== undefined ? ` · ${formatTime(first)} – ${formatTime(last)} UTC` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    body { margin: 0; padding: 12px; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #24292e; }
+    h1 { margin: 0 0 4px; font-size: 18px; }
+    .summary { color: #586069; font-size: 13px; margin-bottom: 12px; }
+    ol { list-style: none; margin: 0; padding: 0 0 0 12px; border-left: 2px solid #e1e4e8; }
+    li { margin: 0 0 10px; padding: 6px 8px; background: #f6f8fa; border-radius: 6px; }
+    li.error { background: #ffeef0; }
+    li.interrupted { background: #fff8c5; }
+    time, .details { color: #586069; font-size: 12px; }
+    pre { margin: 4px 0 0; white-space: pre-wrap; word-break: break-all; font-size: 12px; font-family: 'SF Mono', Monaco, 'Courier New', monospace; }
+    .files code { font-size: 12px; background: #fff; padding: 0 4px; border-radius: 3px; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <div class="summary">${session}${entries.length} tool call(s), ${failed} failed${span}</div>
+  <div class="summary">${tools}</div>
+  <ol>
+${rows}
+  </ol>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the audit of the build's session and publish it like the diff. Returns undefined when nothing was recorded.
+ */
+export async function publishAuditTimeline(context: RuntimeContext): Promise<BuildArtifact | undefined> {
+  if (!context.sessionId) {
+    return undefined;
+  }
+
+  const entries = await new ToolAudit(context.workDir, context.sessionId).read();
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const html = renderAuditTimeline(entries, { sessionId: context.sessionId, project: context.workDir });
+  const published = await publishArtifact(
+    context,
+    getArtifactFileName(context, 'timeline', 'html'),
+    html,
+    'text/html; charset=utf-8'
+  );
+
+  return {
+    type: 'timeline',
+    url: published.url,
+    path: published.path,
+    size: published.size,
+    timestamp: context.timestamp
+  };
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().substring(11, 19);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
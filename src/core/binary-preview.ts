@@ -0,0 +1,179 @@
+/**
+ * Previews of binary files in diff pages - changed images are shown before/after, other binary files get
+ * their size and hash deltas, where git diff only reports "Binary files differ"
+ */
+
+import { createHash } from 'crypto';
+import { extname, join } from 'path';
+import fsExtra from 'fs-extra';
+const { readFile } = fsExtra;
+import { execa } from 'execa';
+import type { DiffFile } from 'diff2html/lib/types.js';
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp'
+};
+
+// Larger images are only summarized, so a page does not pull in huge assets
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const FILE_WRAPPER_PATTERN = /<div id="[^"]*" class="d2h-file-wrapper" data-lang="[^"]*">/g;
+const FILE_DIFF_PATTERN = /<div class="d2h-files?-diff">/;
+
+/**
+ * Read a file at one side of a diff; null when it does not exist there
+ */
+export type BlobReader = (path: string) => Promise<Buffer | null>;
+
+/**
+ * Store a preview asset next to the diff page and return the URL the page loads it from
+ */
+export type AssetPublisher = (fileName: string, content: Buffer, contentType: string) => Promise<string>;
+
+/**
+ * Read files as of a git revision
+ */
+export function gitBlobReader(workDir: string, revision: string): BlobReader {
+  return async path => {
+    const result = await execa('git', ['show', `${revision}:${path}`], {
+      cwd: workDir,
+      encoding: 'buffer',
+      reject: false
+    });
+    return result.exitCode === 0 ? Buffer.from(result.stdout) : null;
+  };
+}
+
+/**
+ * Read files from the working directory
+ */
+export function workTreeReader(workDir: string): BlobReader {
+  return async path => {
+    try {
+      return await readFile(join(workDir, path));
+    } catch {
+      return null;
+    }
+  };
+}
+
+/**
+ * Render the previews of the binary and image files of a diff, by file index. Images are published through the
+ * publisher as `<assetPrefix>-<index>-before|after.<ext>`.
+ */
+export async function renderBinaryPreviews(
+  files: DiffFile[],
+  readOld: BlobReader,
+  readNew: BlobReader,
+  assetPrefix: string,
+  publish: AssetPublisher
+): Promise<(string | undefined)[]> {
+  const previews: (string | undefined)[] = [];
+
+  for (const [index, file] of files.entries()) {
+    // git diffs SVG as text, so images are previewed whether or not the diff is binary
+    const extension = extname(file.isDeleted ? file.oldName : file.newName).toLowerCase();
+    const contentType = IMAGE_TYPES[extension];
+    if (!file.isBinary && !contentType) {
+      previews.push(undefined);
+      continue;
+    }
+
+    const before = file.isNew || file.oldName === '/dev/null' ? null : await readOld(file.oldName);
+    const after = file.isDeleted || file.newName === '/dev/null' ? null : await readNew(file.newName);
+
+    let images = '';
+    if (contentType && Math.max(before?.length ?? 0, after?.length ?? 0) <= MAX_IMAGE_BYTES) {
+      const publishSide = (content: Buffer | null, side: string) =>
+        content ? publish(`${assetPrefix}-${index}-${side}${extension}`, content, contentType) : undefined;
+      images = renderImageCompare(await publishSide(before, 'before'), await publishSide(after, 'after'));
+    }
+
+    previews.push(`<div class="binary-preview">${renderSummary(before, after)}${images}</div>`);
+  }
+
+  return previews;
+}
+
+/**
+ * Insert sections such as previews into rendered diff2html output, before the diff of the file with the same index
+ */
+export function insertFileSections(html: string, sections: (string | undefined)[]): string {
+  if (!sections.some(Boolean)) {
+    return html;
+  }
+
+  const files = [...html.matchAll(FILE_WRAPPER_PATTERN)];
+  if (files.length === 0) {
+    return html;
+  }
+
+  let result = html.substring(0, files[0]!.index);
+  files.forEach((file, i) => {
+    const section = html.substring(file.index!, files[i + 1]?.index ?? html.length);
+    const fileSection = sections[i];
+    result += fileSection ? section.replace(FILE_DIFF_PATTERN, match => `${fileSection}${match}`) : section;
+  });
+
+  return result;
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function renderSummary(before: Buffer | null, after: Buffer | null): string {
+  const size = (content: Buffer | null) => (content ? formatBytes(content.length) : '—');
+  const hash = (content: Buffer | null) =>
+    content ? `<code>${createHash('sha256').update(content).digest('hex').substring(0, 12)}</code>` : '—';
+
+  const delta = (after?.length ?? 0) - (before?.length ?? 0);
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+
+  return [
+    '<div class="binary-summary">',
+    `<span>Size ${size(before)} → ${size(after)} (${sign}${formatBytes(Math.abs(delta))})</span>`,
+    `<span>SHA-256 ${hash(before)} → ${hash(after)}</span>`,
+    '</div>'
+  ].join('');
+}
+
+/**
+ * Before/after images with the page's 2-up, swipe and onion skin modes. Added or deleted images are shown alone.
+ */
+function renderImageCompare(beforeUrl?: string, afterUrl?: string): string {
+  const figure = (url: string, side: string, caption: string) =>
+    `<figure class="image-${side}"><img src="${url}" alt="${caption}" loading="lazy"><figcaption>${caption}</figcaption></figure>`;
+
+  if (!beforeUrl || !afterUrl) {
+    const url = beforeUrl || afterUrl;
+    return url
+      ? `<div class="image-compare">${figure(url, beforeUrl ? 'before' : 'after', beforeUrl ? 'Before' : 'After')}</div>`
+      : '';
+  }
+
+  return [
+    '<div class="image-compare" data-mode="2-up">',
+    '<div class="image-compare-modes">',
+    '<button type="button" data-mode="2-up" class="active">2-up</button>',
+    '<button type="button" data-mode="swipe">Swipe</button>',
+    '<button type="button" data-mode="onion">Onion skin</button>',
+    '</div>',
+    `<div class="image-compare-stage">${figure(beforeUrl, 'before', 'Before')}${figure(afterUrl, 'after', 'After')}</div>`,
+    '<input class="image-compare-slider" type="range" min="0" max="100" value="50" aria-label="Compare">',
+    '</div>'
+  ].join('');
+}
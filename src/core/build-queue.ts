@@ -0,0 +1,87 @@
+/**
+ * Build queue that coalesces runs waiting for the same lock
+ */
+
+import { randomBytes } from 'crypto';
+import fsExtra from 'fs-extra';
+const { outputFile, pathExists, readFile, unlink } = fsExtra;
+import type { FileLockManager } from './lock-manager.js';
+import { LockError } from '../types/index.js';
+
+interface PendingRun {
+  id: string;
+  pid: number;
+  timestamp: number;
+}
+
+/**
+ * Get the marker file naming the newest run waiting for a lock
+ */
+export function getPendingFilePath(lockFile: string): string {
+  return lockFile.replace(/\.lock$/, '') + '.pending';
+}
+
+export class BuildQueue {
+  private readonly defaultTimeout: number = 300; // 5 minutes
+
+  constructor(
+    private readonly lockManager: FileLockManager,
+    private readonly pollInterval: number = 1000
+  ) {}
+
+  /**
+   * Wait until the lock is free. Each waiting run replaces the pending marker, so when several runs queue up
+   * behind a build only the newest one gets its turn: older runs resolve to false and should not build.
+   */
+  async waitForTurn(lockFile: string, timeout?: number): Promise<boolean> {
+    const maxTimeout = (timeout || this.defaultTimeout) * 1000;
+    const startTime = Date.now();
+    const pendingFile = getPendingFilePath(lockFile);
+    const run: PendingRun = {
+      id: `${process.pid}-${randomBytes(4).toString('hex')}`,
+      pid: process.pid,
+      timestamp: startTime
+    };
+
+    await outputFile(pendingFile, JSON.stringify(run, null, 2), 'utf8');
+
+    while (Date.now() - startTime < maxTimeout) {
+      const pending = await this.readPending(pendingFile);
+      if (pending?.id !== run.id) {
+        return false;
+      }
+
+      if (!(await this.lockManager.isLocked(lockFile))) {
+        await this.removePending(pendingFile, run.id);
+        return true;
+      }
+
+      await this.sleep(this.pollInterval);
+    }
+
+    await this.removePending(pendingFile, run.id);
+    throw new LockError(`Lock acquisition timed out after ${maxTimeout / 1000}s`);
+  }
+
+  private async readPending(pendingFile: string): Promise<PendingRun | null> {
+    try {
+      return JSON.parse(await readFile(pendingFile, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove the pending marker unless a newer run has already replaced it
+   */
+  private async removePending(pendingFile: string, id: string): Promise<void> {
+    const pending = await this.readPending(pendingFile);
+    if (pending?.id === id && (await pathExists(pendingFile))) {
+      await unlink(pendingFile).catch(() => undefined);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -3,13 +3,35 @@
  * Provides hook handlers that can be injected into Claude Code's hook system
  */
 
+import { join } from 'path';
 import { Logger } from '../utils/logger.js';
 import { ConfigLoader } from '../config/index.js';
 import { HtmlDiffGenerator } from './diff-generator.js';
 import { NotificationManager } from './notifications/index.js';
+import {
+  captureSnapshot,
+  deleteSnapshot,
+  getSessionSnapshotName,
+  readSessionSnapshot,
+  readSnapshot,
+  saveSnapshot,
+  SESSION_SNAPSHOT
+} from './snapshot.js';
+import type { HookInput } from './hook-input.js';
+import type { CcanywhereConfig, PolicyAction } from '../types/index.js';
+import { formatTranscriptSummary, readTranscriptSummary } from './transcript.js';
+import { getExcludePaths } from './state.js';
+import { requiresApproval, TelegramApprover } from './approval.js';
+import { PolicyEngine } from './policy.js';
+import { getCurrentBranch } from '../utils/git.js';
+import { publishAuditTimeline, ToolAudit } from './audit.js';
+import { formatCost, formatUsage, readTranscriptUsage, UsageStore, type SessionUsage } from './usage.js';
 
 export interface ClaudeHookContext {
   workingDir: string;
+  sessionId?: string;
+  transcriptPath?: string;
+  input?: HookInput; // Payload Claude Code passed on stdin
   command?: string;
   args?: string[];
   env?: Record<string, string>;
@@ -21,6 +43,7 @@ export interface ClaudeHookResult {
   message?: string;
   data?: any;
   block?: boolean; // For PreToolUse hook to block tool execution
+  decision?: PolicyAction; // PreToolUse permission decision reported back to Claude Code
 }
 
 /**
@@ -38,9 +61,9 @@ export class ClaudeHooks {
       this.logger.info('🔍 Running CCanywhere Stop hook');
 
       const configLoader = ConfigLoader.getInstance();
-      const config = await configLoader.loadConfig(context.workingDir);
+      const config = await configLoader.loadConfig(undefined, context.workingDir);
 
-      if (!(config as any).hooks?.Stop) {
+      if (!config.hooks?.Stop) {
         this.logger.debug('Stop hook disabled in configuration');
         return { success: true, message: 'Stop hook disabled' };
       }
@@ -55,22 +78,35 @@ export class ClaudeHooks {
         revision: 'HEAD',
         branch: config.repo?.branch || 'main',
         logDir: 'logs',
-        lockFile: '.ccanywhere.lock'
+        lockFile: '.ccanywhere.lock',
+        sessionId: context.sessionId
       };
 
       const base = config.build?.base || 'origin/main';
       const head = 'HEAD';
 
-      const artifact = await diffGenerator.generate(base, head, runtimeContext);
+      // Prefer the changes made since SessionStart recorded its baseline
+      const sessionBase =
+        config.diff?.scope !== 'branch' ? await readSessionSnapshot(context.workingDir, context.sessionId) : null;
+      const artifact = sessionBase
+        ? await diffGenerator.generateRange(
+            sessionBase,
+            await captureSnapshot(context.workingDir, getExcludePaths(config.build?.excludePaths)),
+            runtimeContext
+          )
+        : await diffGenerator.generate(base, head, runtimeContext);
       const diffPath = artifact?.url;
 
       // Send notification if configured
       if (config.notifications?.channels && config.notifications.channels.length > 0) {
+        const timelineUrl = await this.publishTimeline(context, config);
         const notificationManager = new NotificationManager(config.notifications);
         await notificationManager.send({
           title: '🛑 Claude Code Session Ended',
+          sessionId: context.sessionId,
           diffUrl: diffPath ? `file://${diffPath}` : undefined,
-          extra: 'Session summary generated',
+          ...(timelineUrl ? { links: [{ label: 'Activity timeline', url: timelineUrl }] } : {}),
+          extra: (await this.summarizeTranscript(context)) || 'Session summary generated',
           timestamp: Date.now()
         });
       }
@@ -101,20 +137,30 @@ export class ClaudeHooks {
       this.logger.info('🔧 Running CCanywhere PostToolUse hook');
 
       const configLoader = ConfigLoader.getInstance();
-      const config = await configLoader.loadConfig(context.workingDir);
+      const config = await configLoader.loadConfig(undefined, context.workingDir);
 
-      if (!(config as any).hooks?.PostToolUse) {
+      if (!config.hooks?.PostToolUse) {
         this.logger.debug('PostToolUse hook disabled in configuration');
         return { success: true, message: 'PostToolUse hook disabled' };
       }
 
-      // Log tool usage for audit purposes
+      // Record the tool call in the session's audit trail
       if (context.data?.tool) {
-        this.logger.info(`Tool used: ${context.data.tool}`, {
-          tool: context.data.tool,
-          args: context.data.args,
-          timestamp: Date.now()
-        });
+        if (!context.sessionId) {
+          this.logger.debug('PostToolUse without a session id, tool call not audited');
+        } else {
+          const entry = await new ToolAudit(context.workingDir, context.sessionId).record({
+            tool: context.data.tool,
+            toolUseId: context.data.toolUseId,
+            input: context.data.args,
+            response: context.data.response
+          });
+          this.logger.info(`Tool used: ${entry.tool}`, {
+            step: 'tool',
+            sessionId: context.sessionId,
+            ...entry
+          });
+        }
       }
 
       return {
@@ -138,21 +184,50 @@ export class ClaudeHooks {
       this.logger.info('🔍 Running CCanywhere PreToolUse hook');
 
       const configLoader = ConfigLoader.getInstance();
-      const config = await configLoader.loadConfig(context.workingDir);
+      const config = await configLoader.loadConfig(undefined, context.workingDir);
+
+      // The audit trail takes the duration of a tool call from here to PostToolUse
+      if (config.hooks?.PostToolUse && context.sessionId && context.data?.toolUseId) {
+        await new ToolAudit(context.workingDir, context.sessionId).start(context.data.toolUseId);
+      }
 
-      if (!(config as any).hooks?.PreToolUse) {
+      const approval = config.security?.approval;
+      const policies = config.security?.policies || [];
+      if (!config.hooks?.PreToolUse && !approval?.enabled && policies.length === 0) {
         this.logger.debug('PreToolUse hook disabled in configuration');
         return { success: true, message: 'PreToolUse hook disabled' };
       }
 
-      // Example: Block dangerous operations if configured
-      if ((config as any).security?.blockDangerousOps && context.data?.tool === 'rm') {
-        this.logger.warn('Blocking dangerous operation: rm');
-        return {
-          success: true,
-          message: 'Dangerous operation blocked',
-          block: true
-        };
+      const tool = context.data?.tool;
+      const input = context.data?.args;
+
+      if (tool) {
+        const engine = new PolicyEngine(policies);
+        const policy = engine.evaluate({
+          tool,
+          input,
+          workDir: context.workingDir,
+          branch: engine.usesBranch ? getCurrentBranch(context.workingDir) : undefined
+        });
+
+        if (policy) {
+          this.auditDecision(context, tool, policy.action, policy.reason, { rule: policy.rule, paths: policy.paths });
+
+          if (policy.action === 'ask') {
+            return await this.askForApproval(context, config, tool, policy.reason);
+          }
+
+          return {
+            success: true,
+            message: policy.reason,
+            block: policy.action === 'deny',
+            decision: policy.action
+          };
+        }
+
+        if (approval?.enabled && requiresApproval(tool, approval.tools)) {
+          return await this.askForApproval(context, config, tool);
+        }
       }
 
       return {
@@ -176,9 +251,9 @@ export class ClaudeHooks {
       this.logger.info('💬 Running CCanywhere UserPromptSubmit hook');
 
       const configLoader = ConfigLoader.getInstance();
-      const config = await configLoader.loadConfig(context.workingDir);
+      const config = await configLoader.loadConfig(undefined, context.workingDir);
 
-      if (!(config as any).hooks?.UserPromptSubmit) {
+      if (!config.hooks?.UserPromptSubmit) {
         this.logger.debug('UserPromptSubmit hook disabled in configuration');
         return { success: true, message: 'UserPromptSubmit hook disabled' };
       }
@@ -212,18 +287,34 @@ export class ClaudeHooks {
       this.logger.info('🚀 Running CCanywhere SessionStart hook');
 
       const configLoader = ConfigLoader.getInstance();
-      const config = await configLoader.loadConfig(context.workingDir);
+      const config = await configLoader.loadConfig(undefined, context.workingDir);
+
+      // Record the working tree so Stop can diff only what this session changed
+      if (config.diff?.scope !== 'branch') {
+        // A resumed or compacted session keeps the baseline recorded when it started
+        const name = getSessionSnapshotName(context.sessionId);
+        const existing = context.sessionId ? await readSnapshot(context.workingDir, name) : null;
+        const snapshot =
+          existing || (await captureSnapshot(context.workingDir, getExcludePaths(config.build?.excludePaths)));
+
+        if (!existing) {
+          await saveSnapshot(context.workingDir, name, snapshot);
+        }
+        await saveSnapshot(context.workingDir, SESSION_SNAPSHOT, snapshot);
+        this.logger.info(`Session baseline recorded at ${snapshot.substring(0, 7)}`);
+      }
 
-      if (!(config as any).hooks?.SessionStart) {
+      if (!config.hooks?.SessionStart) {
         this.logger.debug('SessionStart hook disabled in configuration');
         return { success: true, message: 'SessionStart hook disabled' };
       }
 
       // Send session start notification if configured
-      if ((config.notifications as any)?.onSessionStart && config.notifications) {
+      if (config.notifications?.onSessionStart) {
         const notificationManager = new NotificationManager(config.notifications);
         await notificationManager.send({
           title: '🚀 Claude Code Session Started',
+          sessionId: context.sessionId,
           extra: 'New session initiated',
           timestamp: Date.now()
         });
@@ -250,19 +341,32 @@ export class ClaudeHooks {
       this.logger.info('🏁 Running CCanywhere SessionEnd hook');
 
       const configLoader = ConfigLoader.getInstance();
-      const config = await configLoader.loadConfig(context.workingDir);
+      const config = await configLoader.loadConfig(undefined, context.workingDir);
+
+      // The session's baseline is no longer needed, and its ref would keep the snapshot from being collected
+      if (context.sessionId) {
+        await deleteSnapshot(context.workingDir, getSessionSnapshotName(context.sessionId));
+      }
 
-      if (!(config as any).hooks?.SessionEnd) {
+      if (!config.hooks?.SessionEnd) {
         this.logger.debug('SessionEnd hook disabled in configuration');
         return { success: true, message: 'SessionEnd hook disabled' };
       }
 
+      const usage = await this.recordUsage(context, config);
+
       // Send session end notification if configured
-      if ((config.notifications as any)?.onSessionEnd && config.notifications) {
+      if (config.notifications?.onSessionEnd) {
+        const timelineUrl = await this.publishTimeline(context, config);
+        const extra = [await this.summarizeTranscript(context), usage ? formatUsage(usage) : undefined]
+          .filter(Boolean)
+          .join('\n\n');
         const notificationManager = new NotificationManager(config.notifications);
         await notificationManager.send({
           title: '🏁 Claude Code Session Ended',
-          extra: 'Session concluded',
+          sessionId: context.sessionId,
+          ...(timelineUrl ? { links: [{ label: 'Activity timeline', url: timelineUrl }] } : {}),
+          extra: extra || 'Session concluded',
           timestamp: Date.now()
         });
       }
@@ -280,6 +384,154 @@ export class ClaudeHooks {
     }
   }
 
+  /**
+   * Summarize the session transcript for notifications, if the hook input named one
+   */
+  private static async summarizeTranscript(context: ClaudeHookContext): Promise<string | undefined> {
+    if (!context.transcriptPath) {
+      return undefined;
+    }
+
+    try {
+      const summary = await readTranscriptSummary(context.transcriptPath);
+      return summary ? formatTranscriptSummary(summary, context.workingDir) || undefined : undefined;
+    } catch (error) {
+      this.logger.warn('Failed to summarize transcript:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Total the token usage of the session from its transcript and keep it for `ccanywhere usage`
+   */
+  private static async recordUsage(
+    context: ClaudeHookContext,
+    config: CcanywhereConfig
+  ): Promise<SessionUsage | undefined> {
+    if (!context.transcriptPath || !context.sessionId || config.usage?.enabled === false) {
+      return undefined;
+    }
+
+    try {
+      const usage = await readTranscriptUsage(context.transcriptPath, config.usage?.pricing);
+      if (!usage) {
+        return undefined;
+      }
+
+      await new UsageStore(context.workingDir).record(context.sessionId, usage);
+      this.logger.info(`Session usage: ${usage.inputTokens + usage.outputTokens} tokens, ${formatCost(usage.cost)}`, {
+        step: 'usage',
+        sessionId: context.sessionId,
+        cost: usage.cost
+      });
+      return usage;
+    } catch (error) {
+      this.logger.warn('Failed to record token usage:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Publish the activity timeline of the session when PostToolUse recorded any tool calls
+   */
+  private static async publishTimeline(
+    context: ClaudeHookContext,
+    config: CcanywhereConfig
+  ): Promise<string | undefined> {
+    if (!config.hooks?.PostToolUse || !context.sessionId) {
+      return undefined;
+    }
+
+    try {
+      const artifact = await publishAuditTimeline({
+        workDir: context.workingDir,
+        artifactsDir: join(context.workingDir, '.artifacts'),
+        timestamp: Date.now(),
+        config,
+        revision: 'session',
+        branch: config.repo?.branch || 'main',
+        logDir: 'logs',
+        lockFile: '.ccanywhere.lock',
+        sessionId: context.sessionId
+      });
+      return artifact?.url;
+    } catch (error) {
+      this.logger.warn('Failed to publish activity timeline:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Ask on Telegram whether a tool call may run. Without Telegram, a policy 'ask' falls back to Claude Code's own
+   * prompt and the other notification channels are told that the session is waiting.
+   */
+  private static async askForApproval(
+    context: ClaudeHookContext,
+    config: CcanywhereConfig,
+    tool: string,
+    policyReason?: string
+  ): Promise<ClaudeHookResult> {
+    const telegram = config.notifications?.telegram;
+
+    if (!telegram) {
+      if (!policyReason) {
+        this.logger.warn('Remote approval requires Telegram to be configured');
+        return { success: true, message: 'Remote approval skipped: Telegram is not configured' };
+      }
+
+      if (config.notifications) {
+        try {
+          await new NotificationManager(config.notifications).send({
+            title: '⏸️ Claude Code is waiting for approval',
+            sessionId: context.sessionId,
+            extra: policyReason,
+            timestamp: Date.now()
+          });
+        } catch (error) {
+          this.logger.warn('Failed to send approval notification:', error);
+        }
+      }
+
+      return { success: true, message: policyReason, decision: 'ask' };
+    }
+
+    const result = await new TelegramApprover(telegram, config.security?.approval).requestApproval({
+      tool,
+      input: context.data?.args,
+      workDir: context.workingDir,
+      sessionId: context.sessionId
+    });
+    this.auditDecision(context, tool, result.decision, result.reason, { timedOut: result.timedOut });
+
+    return {
+      success: true,
+      message: result.reason,
+      block: result.decision === 'deny',
+      decision: result.decision
+    };
+  }
+
+  /**
+   * Record a permission decision in the audit log
+   */
+  private static auditDecision(
+    context: ClaudeHookContext,
+    tool: string,
+    decision: PolicyAction,
+    reason: string,
+    meta: Record<string, unknown> = {}
+  ): void {
+    const command = context.data?.args?.command;
+    this.logger.info(`${tool}: ${reason}`, {
+      step: 'permission',
+      sessionId: context.sessionId,
+      tool,
+      decision,
+      ...(typeof command === 'string' ? { command } : {}),
+      ...meta
+    });
+  }
+
   /**
    * Get all available hook handlers
    */
@@ -0,0 +1,99 @@
+/**
+ * Debounced Stop handling - each Stop schedules a detached run after a quiet period (hooks.debounceSeconds),
+ * and a later Stop for the same project replaces it, so an interactive session builds once it goes idle
+ */
+
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { openSync, closeSync, pathExists, readFile, unlink, writeFile } = fsExtra;
+import { ensureStateDir, getStateDir } from './state.js';
+
+const DEBOUNCE_FILE = 'debounce.json';
+const DEBOUNCE_LOG = 'debounce.log';
+
+export interface ScheduledRun {
+  id: string;
+  scheduledAt: number;
+  runAt: number; // End of the quiet period
+}
+
+/**
+ * Get the marker file naming the scheduled run of a project
+ */
+export function getDebounceFile(workDir: string): string {
+  return join(getStateDir(workDir), DEBOUNCE_FILE);
+}
+
+export class StopDebouncer {
+  constructor(private readonly workDir: string) {}
+
+  /**
+   * Schedule a run of the CLI with the given arguments (plus --debounced <id>) after the quiet period,
+   * replacing the scheduled one. The run is detached so the hook returns at once; its output goes to
+   * .ccanywhere/debounce.log.
+   */
+  async schedule(args: string[], seconds: number, timestamp: number = Date.now()): Promise<ScheduledRun> {
+    const stateDir = await ensureStateDir(this.workDir);
+    const run: ScheduledRun = {
+      id: `${process.pid}-${randomBytes(4).toString('hex')}`,
+      scheduledAt: timestamp,
+      runAt: timestamp + seconds * 1000
+    };
+    await writeFile(getDebounceFile(this.workDir), JSON.stringify(run, null, 2), 'utf8');
+
+    const log = openSync(join(stateDir, DEBOUNCE_LOG), 'a');
+    try {
+      const child = spawn(process.execPath, [process.argv[1]!, ...args, '--debounced', run.id], {
+        cwd: process.cwd(),
+        detached: true,
+        stdio: ['ignore', log, log]
+      });
+      child.unref();
+    } finally {
+      closeSync(log);
+    }
+
+    return run;
+  }
+
+  /**
+   * Wait for the end of the quiet period of a scheduled run. Resolves to false when a later Stop
+   * rescheduled the run, which then builds instead.
+   */
+  async waitForQuiet(id: string): Promise<boolean> {
+    let run = await this.read();
+    while (run?.id === id && Date.now() < run.runAt) {
+      await this.sleep(run.runAt - Date.now());
+      run = await this.read();
+    }
+
+    if (run?.id !== id) {
+      return false;
+    }
+
+    await unlink(getDebounceFile(this.workDir)).catch(() => undefined);
+    return true;
+  }
+
+  /**
+   * Get the scheduled run, if any
+   */
+  async read(): Promise<ScheduledRun | null> {
+    const file = getDebounceFile(this.workDir);
+    if (!(await pathExists(file))) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -6,6 +6,7 @@ import axios, { AxiosError } from 'axios';
 import type { DeploymentTrigger, DeploymentInfo, RuntimeContext, DeploymentStatus } from '../types/index.js';
 import { BuildError } from '../types/index.js';
 import { getUserAgent } from '../utils/version.js';
+import { EventBus } from './events.js';
 
 export interface WebhookPayload {
   ref?: string;
@@ -31,6 +32,19 @@ export class SimpleDeploymentTrigger implements DeploymentTrigger {
       throw new BuildError('Deployment webhook URL not configured');
     }
 
+    const eventBus = EventBus.getInstance();
+    eventBus.emit('deployment:started', { webhookUrl }, context);
+
+    const deployment = await this.sendWebhook(webhookUrl, context);
+
+    eventBus.emit('deployment:complete', { deployment }, context);
+    return deployment;
+  }
+
+  /**
+   * Post the deployment payload to the webhook
+   */
+  private async sendWebhook(webhookUrl: string, context: RuntimeContext): Promise<DeploymentInfo> {
     const startTime = Date.now();
 
     try {
@@ -0,0 +1,111 @@
+/**
+ * Collapsed files in diff pages - generated and vendored files matching diff.collapse or marked in
+ * .gitattributes show as a one-line stat entry that expands to the diff, so they don't drown the real changes
+ */
+
+import { execa } from 'execa';
+import type { DiffFile } from 'diff2html/lib/types.js';
+import { matchesGlob } from './policy.js';
+import { escapeHtml } from '../utils/html.js';
+
+/**
+ * Collapsed when diff.collapse is not set. Globs without a slash match at any depth, directories cover
+ * everything below them.
+ */
+export const DEFAULT_COLLAPSE_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'go.sum',
+  '*.snap',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  'dist',
+  'vendor',
+  'node_modules'
+];
+
+// linguist-generated and linguist-vendored collapse when set, diff when unset (-diff)
+const COLLAPSE_ATTRIBUTES = ['linguist-generated', 'linguist-vendored', 'diff'];
+
+/**
+ * Why each file of a diff is collapsed, by file index; undefined for files shown in full
+ */
+export async function getCollapseReasons(
+  files: DiffFile[],
+  workDir: string,
+  patterns: string[] = DEFAULT_COLLAPSE_PATTERNS
+): Promise<(string | undefined)[]> {
+  const paths = files.map(getFilePath);
+  const attributes = await readCollapseAttributes(workDir, paths);
+
+  return paths.map(path => {
+    const pattern = patterns.find(glob => matchesGlob(path, glob));
+    return pattern ? `matches ${pattern}` : attributes.get(path);
+  });
+}
+
+/**
+ * Read the .gitattributes markers that collapse files, as the reason by path
+ */
+export async function readCollapseAttributes(workDir: string, paths: string[]): Promise<Map<string, string>> {
+  const reasons = new Map<string, string>();
+  if (paths.length === 0) {
+    return reasons;
+  }
+
+  // Diff paths are relative to the repository root, which may be above the work directory
+  const topLevel = await execa('git', ['rev-parse', '--show-toplevel'], { cwd: workDir, reject: false });
+  if (topLevel.exitCode !== 0) {
+    return reasons;
+  }
+
+  const result = await execa('git', ['check-attr', '-z', '--stdin', ...COLLAPSE_ATTRIBUTES], {
+    cwd: topLevel.stdout.trim(),
+    input: paths.join('\0'),
+    reject: false
+  });
+  if (result.exitCode !== 0) {
+    return reasons;
+  }
+
+  // Output is <path> NUL <attribute> NUL <value> NUL for each path and attribute
+  const fields = result.stdout.split('\0');
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    const [path, attribute, value] = [fields[i]!, fields[i + 1]!, fields[i + 2]!];
+    if (reasons.has(path)) {
+      continue;
+    }
+
+    if (attribute === 'diff' && value === 'unset') {
+      reasons.set(path, 'marked -diff');
+    } else if (attribute !== 'diff' && (value === 'set' || value === 'true')) {
+      reasons.set(path, `marked ${attribute}`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * The one-line stat entry of a collapsed file, which the page expands to the diff below it
+ */
+export function renderCollapsedFile(file: DiffFile, reason: string): string {
+  return (
+    `<div class="diff-collapsed"><span>Collapsed (${escapeHtml(reason)}): ` +
+    `<span class="d2h-lines-added">+${file.addedLines}</span> ` +
+    `<span class="d2h-lines-deleted">−${file.deletedLines}</span></span>` +
+    '<button type="button" class="diff-expand">Show diff</button></div>'
+  );
+}
+
+function getFilePath(file: DiffFile): string {
+  return file.isDeleted || file.newName === '/dev/null' ? file.oldName : file.newName;
+}
@@ -4,17 +4,44 @@
 
 import { resolve, join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { createRequire } from 'module';
 import { promises as fs } from 'fs';
 import fsExtra from 'fs-extra';
-const { readFile, writeFile, ensureDir } = fsExtra;
+const { readFile, ensureDir } = fsExtra;
 import { execa } from 'execa';
 import * as diff2html from 'diff2html';
-import type { DiffGenerator, BuildArtifact, RuntimeContext, CommitInfo, IStorageProvider } from '../types/index.js';
+import type { DiffFile } from 'diff2html/lib/types.js';
+import type {
+  DiffGenerator,
+  DiffOutputFormat,
+  BuildArtifact,
+  RuntimeContext,
+  CommitInfo,
+  IStorageProvider
+} from '../types/index.js';
 import { BuildError } from '../types/index.js';
-import { StorageFactory } from './storage/index.js';
+import { getArtifactFileName, publishArtifact } from './artifacts.js';
+import { getExcludePaths } from './state.js';
+import { EventBus } from './events.js';
+import { highlightDiffHtml } from './highlight.js';
+import { getFragmentGroups, splitDiffHtml } from './diff-pages.js';
+import { getCollapseReasons, renderCollapsedFile } from './diff-collapse.js';
+import { renderSectionStart, type DiffSection } from './diff-sections.js';
+import { createDiffSummary } from './diff-summary.js';
+import { gitBlobReader, insertFileSections, renderBinaryPreviews, workTreeReader } from './binary-preview.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
+const require = createRequire(import.meta.url);
+
+// File anchors of diff2html output, and the links to them from the file list
+const FILE_ANCHOR_PATTERN = /(id="|href="#)(d2h-\d+(?:-s\d+)?)"/g;
+
+interface DiffPart {
+  files: DiffFile[];
+  fileSections: (string | undefined)[]; // Previews and collapsed entries above the diff of each file
+  start?: string; // Opening <section> of a breakdown section
+}
 
 export class HtmlDiffGenerator implements DiffGenerator {
   private readonly templatePath: string;
@@ -32,7 +59,7 @@ export class HtmlDiffGenerator implements DiffGenerator {
       await ensureDir(context.artifactsDir);
 
       // Check if there are actual changes
-      const excludePaths = context.config.build?.excludePaths || ['.artifacts'];
+      const excludePaths = getExcludePaths(context.config.build?.excludePaths);
       const hasChanges = await this.hasChanges(base, head, context.workDir, excludePaths);
 
       if (!hasChanges) {
@@ -46,67 +73,60 @@ export class HtmlDiffGenerator implements DiffGenerator {
         };
       }
 
-      // Initialize storage provider if configured
-      const storageProvider = StorageFactory.create(context.config);
-
-      // Get git diff
-      const diffContent = await this.getDiffContent(base, head, context.workDir, excludePaths);
+      // Get git diff, broken down by commit and by kind of uncommitted changes
+      const sections = await this.getDiffSections(base, head, context.workDir, excludePaths);
 
       // Get commit information
       const commitInfo = await this.getCommitInfo(head, context.workDir);
 
-      // Generate HTML
-      const htmlContent = await this.generateHtml(diffContent, commitInfo, context);
+      return await this.publishDiff(
+        base,
+        head,
+        sections,
+        commitInfo,
+        context,
+        getArtifactFileName(context, 'diff', 'html')
+      );
+    } catch (error) {
+      if (error instanceof BuildError) {
+        throw error;
+      }
+      throw new BuildError(`Failed to generate diff: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      // File naming
-      const fileName = `diff-${context.revision}.html`;
-      const filePath = join(context.artifactsDir, fileName);
+  /**
+   * Generate diff HTML page between two commits or snapshots, ignoring the working directory.
+   * Commit information is taken from HEAD, since snapshots are not real commits.
+   */
+  async generateRange(
+    from: string,
+    to: string,
+    context: RuntimeContext,
+    fileName: string = getArtifactFileName(context, 'diff', 'html')
+  ): Promise<BuildArtifact> {
+    try {
+      await ensureDir(context.artifactsDir);
 
-      // Write to local artifacts directory first
-      await writeFile(filePath, htmlContent, 'utf8');
+      const excludeArgs = getExcludePaths(context.config.build?.excludePaths).map(path => `:(exclude)${path}`);
+      const result = await execa('git', ['diff', '--minimal', from, to, '--', '.', ...excludeArgs], {
+        cwd: context.workDir
+      });
 
-      // Get file size
-      const stats = await fs.stat(filePath);
-
-      let finalUrl: string;
-
-      // Prepare storage key with configurable folder path and project organization
-      const storageFolder = StorageFactory.getStorageFolder(context.config);
-      const projectPath = StorageFactory.getProjectPath(context.config);
-
-      // Construct storage key: {folder}/{projectPath}/diff-{revision}.html
-      // If projectPath is empty, maintains backward compatibility: {folder}/diff-{revision}.html
-      const storageKey = projectPath ? `${storageFolder}/${projectPath}/${fileName}` : `${storageFolder}/${fileName}`;
-
-      // Upload to cloud storage if enabled
-      if (storageProvider) {
-        try {
-          const cloudUrl = await storageProvider.upload(storageKey, htmlContent, 'text/html; charset=utf-8');
-
-          // Use artifacts base URL if configured, otherwise use direct cloud URL
-          const baseUrl = context.config.artifacts?.baseUrl || context.config.urls?.artifacts;
-          finalUrl = baseUrl ? `${baseUrl}/${storageKey}` : cloudUrl;
-        } catch (storageError) {
-          // If cloud storage fails, log warning but continue with local URL
-          console.warn('Cloud storage upload failed:', storageError);
-          const baseUrl = context.config.artifacts?.baseUrl || context.config.urls?.artifacts;
-          finalUrl = `${baseUrl || ''}/${storageKey}`;
-        }
-      } else {
-        // Use local/CDN URL
-        const baseUrl = context.config.artifacts?.baseUrl || context.config.urls?.artifacts;
-        finalUrl = `${baseUrl || ''}/${storageKey}`;
+      if (!result.stdout.trim()) {
+        // Empty URL indicates no changes
+        return { type: 'diff', url: '', path: '', size: 0, timestamp: context.timestamp };
       }
 
-      const artifact: BuildArtifact = {
-        type: 'diff',
-        url: finalUrl,
-        path: filePath,
-        size: stats.size,
-        timestamp: context.timestamp
+      const commitInfo = await this.getCommitInfo('HEAD', context.workDir);
+
+      const section: DiffSection = {
+        diff: result.stdout,
+        readOld: gitBlobReader(context.workDir, from),
+        readNew: gitBlobReader(context.workDir, to)
       };
 
-      return artifact;
+      return await this.publishDiff(from, to, [section], commitInfo, context, fileName);
     } catch (error) {
       if (error instanceof BuildError) {
         throw error;
@@ -115,6 +135,111 @@ export class HtmlDiffGenerator implements DiffGenerator {
     }
   }
 
+  /**
+   * Render the diff page and publish it as a diff artifact. Sections of a breakdown get their own part of the
+   * page. Binary files are read at both sides of their section for previews, whose images are published next to
+   * the page. Large diffs are published as an index page plus fragments of files, which the page loads on demand.
+   */
+  private async publishDiff(
+    base: string,
+    head: string,
+    sections: DiffSection[],
+    commitInfo: CommitInfo,
+    context: RuntimeContext,
+    fileName: string
+  ): Promise<BuildArtifact> {
+    const stem = fileName.replace(/\.html$/, '');
+    const breakdown = sections.some(section => section.kind);
+
+    const parts: DiffPart[] = [];
+    for (const [i, section] of sections.entries()) {
+      const files = diff2html.parse(section.diff);
+      const previews = await renderBinaryPreviews(
+        files,
+        section.readOld,
+        section.readNew,
+        breakdown ? `${stem}-${i + 1}` : stem,
+        async (assetName, content, contentType) => {
+          await publishArtifact(context, assetName, content, contentType);
+          return assetName; // Relative to the page, locally and in cloud storage
+        }
+      );
+
+      // Generated and vendored files get a collapsed stat entry above their diff
+      const collapseReasons = await getCollapseReasons(files, context.workDir, context.config.diff?.collapse);
+
+      parts.push({
+        files,
+        fileSections: files.map((file, j) => {
+          const reason = collapseReasons[j];
+          return (reason ? renderCollapsedFile(file, reason) : '') + (previews[j] ?? '') || undefined;
+        }),
+        start: breakdown ? renderSectionStart(i, section, files) : undefined
+      });
+    }
+    const files = parts.flatMap(part => part.files);
+
+    // Generate HTML diff using diff2html, highlighted here so the page needs no highlighting script
+    let diffHtml = highlightDiffHtml(this.renderDiff(parts, context.config.diff?.outputFormat || 'line-by-line'));
+
+    // Fragments never span sections
+    let fileCount = 0;
+    const sectionStarts = parts.map(part => {
+      const start = fileCount;
+      fileCount += part.files.length;
+      return start;
+    });
+
+    let fragments: string[] = [];
+    const groups = getFragmentGroups(files, context.config.diff, sectionStarts);
+    if (groups.length > 0) {
+      const fragmentNames = groups.map((_group, i) => `${stem}-part-${i + 1}.html`);
+      ({ index: diffHtml, fragments } = splitDiffHtml(diffHtml, files, groups, fragmentNames));
+      for (const [i, fragment] of fragments.entries()) {
+        await publishArtifact(context, fragmentNames[i]!, fragment, 'text/html; charset=utf-8');
+      }
+    }
+
+    // Generate HTML
+    const htmlContent = await this.generateHtml(
+      diffHtml,
+      files,
+      commitInfo,
+      context,
+      fragments.length > 0 ? files : undefined
+    );
+
+    // Write locally and upload to cloud storage if enabled
+    const published = await publishArtifact(context, fileName, htmlContent, 'text/html; charset=utf-8');
+
+    // Structured change data for other tools, next to the page under the same name
+    const summary = createDiffSummary(
+      { base, head, revision: context.revision, timestamp: context.timestamp },
+      sections,
+      parts.map(part => part.files)
+    );
+    const publishedSummary = await publishArtifact(
+      context,
+      `${stem}.json`,
+      JSON.stringify(summary, null, 2),
+      'application/json; charset=utf-8'
+    );
+
+    const artifact: BuildArtifact = {
+      type: 'diff',
+      url: published.url,
+      path: published.path,
+      size: published.size,
+      timestamp: context.timestamp,
+      summaryUrl: publishedSummary.url,
+      ...(fragments.length > 0 && { indexUrl: published.url, fragments: fragments.length })
+    };
+
+    EventBus.getInstance().emit('diff:generated', { base, head, artifact }, context);
+
+    return artifact;
+  }
+
   /**
    * Check if there are changes between base and head, or uncommitted changes in working directory
    */
@@ -167,67 +292,70 @@ export class HtmlDiffGenerator implements DiffGenerator {
     excludePaths: string[] = []
   ): Promise<string> {
     try {
-      const diffParts: string[] = [];
-
       // Get committed changes between base and head
       const excludeArgs = excludePaths.map(path => `:(exclude)${path}`);
       const committedResult = await execa('git', ['diff', '--minimal', `${base}...${head}`, ...excludeArgs], {
         cwd: workDir,
         reject: false
       });
-      if (committedResult.stdout.trim()) {
-        diffParts.push(committedResult.stdout);
-      }
 
-      // Get staged changes
-      const stagedResult = await execa('git', ['diff', '--minimal', '--cached', ...excludeArgs], {
-        cwd: workDir,
-        reject: false
-      });
-      if (stagedResult.stdout.trim()) {
-        diffParts.push(stagedResult.stdout);
-      }
+      // Combine them with the staged, unstaged and untracked changes
+      const workingChanges = await this.getWorkingChanges(workDir, excludeArgs);
+      const combinedDiff = [committedResult.stdout, ...workingChanges.map(section => section.diff)]
+        .filter(part => part.trim())
+        .join('\n');
 
-      // Get working directory changes (unstaged)
-      const workingDirResult = await execa('git', ['diff', '--minimal', ...excludeArgs], {
-        cwd: workDir,
-        reject: false
-      });
-      if (workingDirResult.stdout.trim()) {
-        diffParts.push(workingDirResult.stdout);
+      if (!combinedDiff.trim()) {
+        throw new BuildError('No diff content available');
       }
 
-      // Get untracked files and generate diffs for them (excluding specified paths)
-      const untrackedResult = await execa('git', ['ls-files', '--others', '--exclude-standard', ...excludeArgs], {
-        cwd: workDir,
-        reject: false
-      });
+      return combinedDiff;
+    } catch (error) {
+      if (error instanceof BuildError) {
+        throw error;
+      }
+      throw new BuildError(`Failed to get diff content: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      const untrackedFiles = untrackedResult.stdout.trim().split('\n').filter(Boolean);
-      for (const file of untrackedFiles) {
-        try {
-          // Generate diff for untracked files by comparing with /dev/null
-          const untrackedDiffResult = await execa('git', ['diff', '--no-index', '/dev/null', file], {
-            cwd: workDir,
-            reject: false
+  /**
+   * Get the changes between base and head as a section per commit, followed by the working directory changes
+   */
+  private async getDiffSections(
+    base: string,
+    head: string,
+    workDir: string,
+    excludePaths: string[] = []
+  ): Promise<DiffSection[]> {
+    try {
+      const excludeArgs = excludePaths.map(path => `:(exclude)${path}`);
+      const sections: DiffSection[] = [];
+
+      // Merge commits show what they brought in, against their first parent
+      for (const commit of await this.getCommits(base, head, workDir)) {
+        const result = await execa(
+          'git',
+          ['show', '--format=', '--minimal', '-m', '--first-parent', commit.sha, '--', '.', ...excludeArgs],
+          { cwd: workDir, reject: false }
+        );
+        if (result.stdout.trim()) {
+          sections.push({
+            kind: 'commit',
+            commit,
+            diff: result.stdout,
+            readOld: gitBlobReader(workDir, `${commit.sha}^`),
+            readNew: gitBlobReader(workDir, commit.sha)
           });
-          if (untrackedDiffResult.stdout.trim()) {
-            diffParts.push(untrackedDiffResult.stdout);
-          }
-        } catch (untrackedError) {
-          // If individual file diff fails, continue with others
-          console.warn(`Failed to get diff for untracked file ${file}:`, untrackedError);
         }
       }
 
-      // Combine all diff parts
-      const combinedDiff = diffParts.join('\n');
+      sections.push(...(await this.getWorkingChanges(workDir, excludeArgs)));
 
-      if (!combinedDiff.trim()) {
+      if (sections.length === 0) {
         throw new BuildError('No diff content available');
       }
 
-      return combinedDiff;
+      return sections;
     } catch (error) {
       if (error instanceof BuildError) {
         throw error;
@@ -236,6 +364,98 @@ export class HtmlDiffGenerator implements DiffGenerator {
     }
   }
 
+  /**
+   * Get the commits of head since it branched off base, oldest first, following the first parent of merges
+   */
+  private async getCommits(base: string, head: string, workDir: string): Promise<CommitInfo[]> {
+    const result = await execa(
+      'git',
+      ['log', '--first-parent', '--reverse', '--format=%H%x1f%an%x1f%ct%x1f%s', `${base}..${head}`],
+      { cwd: workDir, reject: false }
+    );
+    if (result.exitCode !== 0) {
+      return [];
+    }
+
+    return result.stdout
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [sha = '', author = '', timestamp = '0', message = ''] = line.split('\x1f');
+        return { sha, shortSha: sha.substring(0, 7), author, message, timestamp: parseInt(timestamp) * 1000 };
+      });
+  }
+
+  /**
+   * Get the staged, unstaged and untracked changes in the working directory, as a section each
+   */
+  private async getWorkingChanges(workDir: string, excludeArgs: string[]): Promise<DiffSection[]> {
+    const sections: DiffSection[] = [];
+    const readIndex = gitBlobReader(workDir, ''); // An empty revision reads the index
+
+    // Get staged changes
+    const stagedResult = await execa('git', ['diff', '--minimal', '--cached', ...excludeArgs], {
+      cwd: workDir,
+      reject: false
+    });
+    if (stagedResult.stdout.trim()) {
+      sections.push({
+        kind: 'staged',
+        diff: stagedResult.stdout,
+        readOld: gitBlobReader(workDir, 'HEAD'),
+        readNew: readIndex
+      });
+    }
+
+    // Get working directory changes (unstaged)
+    const workingDirResult = await execa('git', ['diff', '--minimal', ...excludeArgs], {
+      cwd: workDir,
+      reject: false
+    });
+    if (workingDirResult.stdout.trim()) {
+      sections.push({
+        kind: 'unstaged',
+        diff: workingDirResult.stdout,
+        readOld: readIndex,
+        readNew: workTreeReader(workDir)
+      });
+    }
+
+    // Get untracked files and generate diffs for them (excluding specified paths)
+    const untrackedResult = await execa('git', ['ls-files', '--others', '--exclude-standard', ...excludeArgs], {
+      cwd: workDir,
+      reject: false
+    });
+
+    const untrackedParts: string[] = [];
+    const untrackedFiles = untrackedResult.stdout.trim().split('\n').filter(Boolean);
+    for (const file of untrackedFiles) {
+      try {
+        // Generate diff for untracked files by comparing with /dev/null
+        const untrackedDiffResult = await execa('git', ['diff', '--no-index', '/dev/null', file], {
+          cwd: workDir,
+          reject: false
+        });
+        if (untrackedDiffResult.stdout.trim()) {
+          untrackedParts.push(untrackedDiffResult.stdout);
+        }
+      } catch (untrackedError) {
+        // If individual file diff fails, continue with others
+        console.warn(`Failed to get diff for untracked file ${file}:`, untrackedError);
+      }
+    }
+    if (untrackedParts.length > 0) {
+      sections.push({
+        kind: 'untracked',
+        diff: untrackedParts.join('\n'),
+        readOld: async () => null,
+        readNew: workTreeReader(workDir)
+      });
+    }
+
+    return sections;
+  }
+
   /**
    * Get commit information
    */
@@ -270,21 +490,25 @@ export class HtmlDiffGenerator implements DiffGenerator {
   }
 
   /**
-   * Generate HTML content using template and diff2html
+   * Generate the HTML page from the template around the rendered diff
    */
-  private async generateHtml(diffContent: string, commitInfo: CommitInfo, context: RuntimeContext): Promise<string> {
+  private async generateHtml(
+    diffHtml: string,
+    files: DiffFile[],
+    commitInfo: CommitInfo,
+    context: RuntimeContext,
+    splitFiles?: DiffFile[] // Files of a split page, whose totals the page can't count until all fragments load
+  ): Promise<string> {
     try {
-      // Generate HTML diff using diff2html
-      const diffHtml = diff2html.html(diffContent, {
-        drawFileList: true,
-        matching: 'lines',
-        outputFormat: 'line-by-line'
-      });
-
-      // Get CSS bundle from diff2html
-      const cssPath = resolve(__dirname, '../../node_modules/diff2html/bundles/css/diff2html.min.css');
-      const cssBundle = await readFile(cssPath, 'utf8');
-      const jsBundle = ''; // diff2html doesn't provide default JS
+      // Inline the stylesheets so the page makes no third-party requests
+      const cssBundle = (
+        await Promise.all(
+          ['diff2html/bundles/css/diff2html.min.css', 'highlight.js/styles/github.min.css'].map(file =>
+            readFile(require.resolve(file), 'utf8')
+          )
+        )
+      ).join('\n');
+      const jsBundle = ''; // The page's own script is in the template
 
       // Read template
       const template = await readFile(this.templatePath, 'utf8');
@@ -295,14 +519,21 @@ export class HtmlDiffGenerator implements DiffGenerator {
         .replace(/\{{{cssBundle}}}/g, `<style>${cssBundle}</style>`)
         .replace(/\{{{jsBundle}}}/g, jsBundle)
         .replace(/\{\{commit\.hashAbbrev\}\}/g, commitInfo.shortSha)
-        .replace(/\{\{files\.length\}\}/g, this.getFileCount(diffContent).toString());
+        .replace(/\{\{files\.length\}\}/g, this.getFileCount(files).toString());
 
       // Inject configuration for JavaScript
+      const statsScript = splitFiles
+        ? `
+          window.DIFF_STATS = ${JSON.stringify({
+            additions: splitFiles.reduce((sum, file) => sum + file.addedLines, 0),
+            deletions: splitFiles.reduce((sum, file) => sum + file.deletedLines, 0)
+          })};`
+        : '';
       const configScript = `
         <script>
           window.REPO_KIND = '${context.config.repo?.kind || ''}';
           window.REPO_URL = '${context.config.repo?.url || ''}';
-          window.REV = '${commitInfo.sha}';
+          window.REV = '${commitInfo.sha}';${statsScript}
         </script>
       `;
 
@@ -313,19 +544,40 @@ export class HtmlDiffGenerator implements DiffGenerator {
   }
 
   /**
-   * Count number of files in diff
+   * Render the diff in the configured layout, with the sections of each file (previews, collapsed entries) above
+   * its diff. Each part of a breakdown is rendered in its own <section> with its own file list and anchors, since
+   * a file can change in several. 'both' renders each layout in its own .diff-view container for the page's
+   * toggle; the side-by-side copy gets its own file anchors so the file list of each view works.
    */
-  private getFileCount(diffContent: string): number {
-    const lines = diffContent.split('\n');
-    let count = 0;
-
-    for (const line of lines) {
-      if (line.startsWith('diff --git')) {
-        count++;
-      }
+  private renderDiff(parts: DiffPart[], outputFormat: DiffOutputFormat): string {
+    const render = (format: 'line-by-line' | 'side-by-side') =>
+      parts
+        .map((part, i) => {
+          const html = insertFileSections(
+            diff2html.html(part.files, { drawFileList: true, matching: 'lines', outputFormat: format }),
+            part.fileSections
+          );
+          return part.start ? `${part.start}${html.replace(FILE_ANCHOR_PATTERN, `$1$2-s${i + 1}"`)}</section>` : html;
+        })
+        .join('\n');
+
+    if (outputFormat !== 'both') {
+      return render(outputFormat);
     }
 
-    return count;
+    const sideBySide = render('side-by-side').replace(FILE_ANCHOR_PATTERN, '$1$2-sbs"');
+    return [
+      `<div class="diff-view" data-view="line-by-line">${render('line-by-line')}</div>`,
+      `<div class="diff-view" data-view="side-by-side" hidden>${sideBySide}</div>`
+    ].join('\n');
+  }
+
+  /**
+   * Count the changed files of a diff. A file changed in several sections of a branch diff counts once.
+   */
+  private getFileCount(files: DiffFile[]): number {
+    return new Set(files.map(file => (file.isDeleted || file.newName === '/dev/null' ? file.oldName : file.newName)))
+      .size;
   }
 
   /**
@@ -335,7 +587,7 @@ export class HtmlDiffGenerator implements DiffGenerator {
     try {
       await ensureDir(context.artifactsDir);
 
-      const fileName = `diff-${context.revision}.html`;
+      const fileName = getArtifactFileName(context, 'diff', 'html');
       const outputPath = join(context.artifactsDir, fileName);
 
       // Use diff2html-cli
@@ -345,7 +597,7 @@ export class HtmlDiffGenerator implements DiffGenerator {
           base,
           head,
           context.workDir,
-          context.config.build?.excludePaths || ['.artifacts']
+          getExcludePaths(context.config.build?.excludePaths)
         )
       });
 
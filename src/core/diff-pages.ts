@@ -0,0 +1,138 @@
+/**
+ * Split diff pages - large diffs are published as a light index page plus fragments of files, which the page
+ * fetches as they are scrolled to or tapped, so very large change sets don't freeze mobile browsers
+ */
+
+import type { DiffFile } from 'diff2html/lib/types.js';
+import type { CcanywhereConfig } from '../types/index.js';
+
+export const DEFAULT_SPLIT_LINES = 3000;
+export const DEFAULT_FRAGMENT_LINES = 500;
+
+const FILE_WRAPPER_PATTERN = /<div id="([^"]*)" class="d2h-file-wrapper" data-lang="[^"]*">/g;
+
+export interface SplitDiffPage {
+  index: string;
+  fragments: string[];
+}
+
+/**
+ * Group the files of a diff into fragments of about diff.fragmentLines changed lines, by file index. A file is
+ * never split, so a larger file gets a fragment of its own, and the files at sectionStarts begin a new fragment
+ * so none spans sections of the page. Returns no groups when the diff has no more than diff.splitLines changed
+ * lines (0 disables splitting) or would fit in a single fragment.
+ */
+export function getFragmentGroups(
+  files: DiffFile[],
+  config?: CcanywhereConfig['diff'],
+  sectionStarts: number[] = []
+): number[][] {
+  const splitLines = config?.splitLines ?? DEFAULT_SPLIT_LINES;
+  const fragmentLines = config?.fragmentLines ?? DEFAULT_FRAGMENT_LINES;
+
+  const lines = files.map(file => file.addedLines + file.deletedLines);
+  if (splitLines <= 0 || lines.reduce((sum, count) => sum + count, 0) <= splitLines) {
+    return [];
+  }
+
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let currentLines = 0;
+  lines.forEach((count, index) => {
+    if (current.length > 0 && (currentLines + count > fragmentLines || sectionStarts.includes(index))) {
+      groups.push(current);
+      current = [];
+      currentLines = 0;
+    }
+    current.push(index);
+    currentLines += count;
+  });
+  groups.push(current);
+
+  return groups.length > 1 ? groups : [];
+}
+
+/**
+ * Cut the files of each group out of a rendered diff into fragments, leaving a placeholder in the index that
+ * loads the fragment. With both layouts rendered, a fragment holds the files of each layout as a data-part,
+ * by the order of the layouts on the page.
+ */
+export function splitDiffHtml(
+  html: string,
+  files: DiffFile[],
+  groups: number[][],
+  fragmentNames: string[]
+): SplitDiffPage {
+  const wrappers = [...html.matchAll(FILE_WRAPPER_PATTERN)].map(match => ({
+    id: match[1]!,
+    start: match.index!,
+    end: findElementEnd(html, match.index!)
+  }));
+  if (files.length === 0 || wrappers.length === 0 || wrappers.length % files.length !== 0) {
+    return { index: html, fragments: [] };
+  }
+
+  const views = wrappers.length / files.length;
+  const fragments = groups.map(() => [] as string[]);
+  const cuts: { start: number; end: number; placeholder: string }[] = [];
+
+  for (let view = 0; view < views; view++) {
+    groups.forEach((group, g) => {
+      const first = wrappers[view * files.length + group[0]!]!;
+      const last = wrappers[view * files.length + group[group.length - 1]!]!;
+      const anchors = group.map(index => wrappers[view * files.length + index]!.id);
+
+      fragments[g]!.push(`<div data-part="${view}">${html.substring(first.start, last.end)}</div>`);
+      cuts.push({
+        start: first.start,
+        end: last.end,
+        placeholder: renderPlaceholder(
+          fragmentNames[g]!,
+          view,
+          anchors,
+          group.map(index => files[index]!)
+        )
+      });
+    });
+  }
+
+  let index = '';
+  let position = 0;
+  for (const cut of cuts.sort((a, b) => a.start - b.start)) {
+    index += html.substring(position, cut.start) + cut.placeholder;
+    position = cut.end;
+  }
+  index += html.substring(position);
+
+  return { index, fragments: fragments.map(parts => parts.join('\n')) };
+}
+
+function renderPlaceholder(src: string, part: number, anchors: string[], files: DiffFile[]): string {
+  const added = files.reduce((sum, file) => sum + file.addedLines, 0);
+  const deleted = files.reduce((sum, file) => sum + file.deletedLines, 0);
+  const label = `${files.length} file${files.length === 1 ? '' : 's'} (+${added} −${deleted})`;
+
+  return (
+    `<div class="diff-fragment" data-src="${src}" data-part="${part}" data-anchors="${anchors.join(' ')}">` +
+    `<button type="button" class="diff-fragment-load">Load ${label}</button></div>`
+  );
+}
+
+/**
+ * Find the end of the div starting at the given index. Code in diff2html output is escaped, so every <div
+ * in it is a tag.
+ */
+function findElementEnd(html: string, start: number): number {
+  const tags = /<div\b|<\/div>/g;
+  tags.lastIndex = start;
+
+  let depth = 0;
+  for (let match = tags.exec(html); match; match = tags.exec(html)) {
+    depth += match[0] === '</div>' ? -1 : 1;
+    if (depth === 0) {
+      return match.index + match[0].length;
+    }
+  }
+
+  return html.length;
+}
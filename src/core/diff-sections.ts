@@ -0,0 +1,60 @@
+/**
+ * Diff page sections - a branch diff is broken down into a section per commit in base...head, followed by the
+ * staged, unstaged and untracked changes, each with its own file list and stats
+ */
+
+import type { DiffFile } from 'diff2html/lib/types.js';
+import type { CommitInfo } from '../types/index.js';
+import type { BlobReader } from './binary-preview.js';
+import { escapeHtml } from '../utils/html.js';
+
+export type DiffSectionKind = 'commit' | 'staged' | 'unstaged' | 'untracked';
+
+export interface DiffSection {
+  kind?: DiffSectionKind; // Unset for a plain diff without breakdown
+  commit?: CommitInfo;
+  diff: string;
+  readOld: BlobReader; // Files before the changes of the section
+  readNew: BlobReader; // Files after them
+}
+
+const SECTION_TITLES: Record<Exclude<DiffSectionKind, 'commit'>, string> = {
+  staged: 'Staged changes',
+  unstaged: 'Unstaged changes',
+  untracked: 'Untracked files'
+};
+
+/**
+ * Title of a section: the commit subject, or the kind of uncommitted changes
+ */
+export function getSectionTitle(section: DiffSection): string {
+  if (section.kind === 'commit' || !section.kind) {
+    return section.commit?.message || 'Changes';
+  }
+  return SECTION_TITLES[section.kind];
+}
+
+/**
+ * Open the <section> of a diff page section, with its header. The page steps through sections by data-section.
+ */
+export function renderSectionStart(index: number, section: DiffSection, files: DiffFile[]): string {
+  const title = escapeHtml(getSectionTitle(section));
+  const added = files.reduce((sum, file) => sum + file.addedLines, 0);
+  const deleted = files.reduce((sum, file) => sum + file.deletedLines, 0);
+
+  const meta = [
+    ...(section.commit
+      ? [`<code>${escapeHtml(section.commit.shortSha)}</code>`, escapeHtml(section.commit.author)]
+      : []),
+    `${files.length} file${files.length === 1 ? '' : 's'}`,
+    `<span class="additions">+${added}</span> <span class="deletions">−${deleted}</span>`
+  ];
+
+  return [
+    `<section class="diff-section" data-section="${index}" data-title="${title}">`,
+    '<div class="diff-section-header">',
+    `<div class="diff-section-title">${title}</div>`,
+    `<div class="diff-section-meta">${meta.join(' · ')}</div>`,
+    '</div>'
+  ].join('');
+}
@@ -0,0 +1,131 @@
+/**
+ * Machine-readable diff summary - the changed files of a diff page with their status, line counts, language
+ * and hunk ranges, published as JSON next to the page for reviewers, dashboards and other tools
+ */
+
+import { extname } from 'path';
+import type { DiffFile } from 'diff2html/lib/types.js';
+import { getSectionTitle, type DiffSection, type DiffSectionKind } from './diff-sections.js';
+import { getLanguageName } from './highlight.js';
+
+export type DiffFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface DiffHunkRange {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface DiffFileSummary {
+  path: string;
+  oldPath?: string; // Renamed files
+  status: DiffFileStatus;
+  additions: number;
+  deletions: number;
+  language?: string;
+  binary: boolean;
+  section?: number; // Index in sections, for diffs broken down by commit
+  hunks: DiffHunkRange[];
+}
+
+export interface DiffSummarySection {
+  kind: DiffSectionKind;
+  title: string;
+  commit?: { sha: string; author: string; message: string; timestamp: number };
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffSummary {
+  base: string;
+  head: string;
+  revision: string;
+  timestamp: number;
+  totals: {
+    files: number; // Distinct paths, a file changed in several sections counts once
+    additions: number;
+    deletions: number;
+  };
+  sections?: DiffSummarySection[];
+  files: DiffFileSummary[];
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Summarize the sections of a diff page, given the parsed files of each section
+ */
+export function createDiffSummary(
+  range: Pick<DiffSummary, 'base' | 'head' | 'revision' | 'timestamp'>,
+  sections: DiffSection[],
+  sectionFiles: DiffFile[][]
+): DiffSummary {
+  const breakdown = sections.some(section => section.kind);
+
+  const files = sectionFiles.flatMap((files, i) => files.map(file => summarizeFile(file, breakdown ? i : undefined)));
+
+  return {
+    ...range,
+    totals: {
+      files: new Set(files.map(file => file.path)).size,
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0)
+    },
+    ...(breakdown && {
+      sections: sections.map((section, i) => ({
+        kind: section.kind ?? 'commit',
+        title: getSectionTitle(section),
+        ...(section.commit && {
+          commit: {
+            sha: section.commit.sha,
+            author: section.commit.author,
+            message: section.commit.message,
+            timestamp: section.commit.timestamp
+          }
+        }),
+        files: sectionFiles[i]!.length,
+        additions: sectionFiles[i]!.reduce((sum, file) => sum + file.addedLines, 0),
+        deletions: sectionFiles[i]!.reduce((sum, file) => sum + file.deletedLines, 0)
+      }))
+    }),
+    files
+  };
+}
+
+/**
+ * Summarize one changed file of a diff
+ */
+export function summarizeFile(file: DiffFile, section?: number): DiffFileSummary {
+  const deleted = file.isDeleted || file.newName === '/dev/null';
+  const added = !deleted && (file.isNew || file.isCopy || file.oldName === '/dev/null');
+  const renamed = !added && !deleted && (file.isRename || file.oldName !== file.newName);
+  const path = deleted ? file.oldName : file.newName;
+  // diff2html only knows the language of files with hunks
+  const language = getLanguageName(file.language || extname(path).substring(1));
+
+  return {
+    path,
+    ...(renamed && { oldPath: file.oldName }),
+    status: added ? 'added' : deleted ? 'deleted' : renamed ? 'renamed' : 'modified',
+    additions: file.addedLines,
+    deletions: file.deletedLines,
+    ...(language && { language }),
+    binary: Boolean(file.isBinary),
+    ...(section !== undefined && { section }),
+    hunks: file.blocks.flatMap(block => {
+      const match = HUNK_HEADER_PATTERN.exec(block.header);
+      return match
+        ? [
+            {
+              oldStart: parseInt(match[1]!),
+              oldLines: match[2] === undefined ? 1 : parseInt(match[2]),
+              newStart: parseInt(match[3]!),
+              newLines: match[4] === undefined ? 1 : parseInt(match[4])
+            }
+          ]
+        : [];
+    })
+  };
+}
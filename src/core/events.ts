@@ -0,0 +1,130 @@
+/**
+ * Typed event bus for build lifecycle events
+ */
+
+import type { EventType, EventPayload, EventDataMap, RuntimeContext } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+
+export type EventListener<T extends EventType = EventType> = (payload: EventPayload<T>) => void | Promise<void>;
+
+type AnyEventListener = (payload: EventPayload) => void | Promise<void>;
+
+export class EventBus {
+  private static instance: EventBus | null = null;
+  private readonly listeners: Map<EventType, Set<AnyEventListener>> = new Map();
+  private readonly anyListeners: Set<AnyEventListener> = new Set();
+  private context?: RuntimeContext;
+
+  /**
+   * Get the shared event bus used by all CCanywhere modules
+   */
+  static getInstance(): EventBus {
+    if (!EventBus.instance) {
+      EventBus.instance = new EventBus();
+    }
+    return EventBus.instance;
+  }
+
+  /**
+   * Reset the shared instance (for testing purposes)
+   */
+  static reset(): void {
+    EventBus.instance = null;
+  }
+
+  /**
+   * Set the runtime context attached to events that are emitted without one
+   */
+  setContext(context?: RuntimeContext): void {
+    this.context = context;
+  }
+
+  /**
+   * Subscribe to an event type. Returns a function that removes the listener.
+   */
+  on<T extends EventType>(type: T, listener: EventListener<T>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener as AnyEventListener);
+
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event type only
+   */
+  once<T extends EventType>(type: T, listener: EventListener<T>): () => void {
+    const unsubscribe = this.on(type, payload => {
+      unsubscribe();
+      return listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<T extends EventType>(type: T, listener: EventListener<T>): void {
+    this.listeners.get(type)?.delete(listener as AnyEventListener);
+  }
+
+  /**
+   * Subscribe to every event type. Returns a function that removes the listener.
+   */
+  onAny(listener: AnyEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Remove all listeners
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+
+  /**
+   * Publish an event. Listener failures are reported but never propagate to the emitter.
+   */
+  emit<T extends EventType>(type: T, data: EventDataMap[T], context?: RuntimeContext): void {
+    const payload: EventPayload<T> = {
+      type,
+      timestamp: Date.now(),
+      context: context || this.context,
+      data
+    };
+
+    const listeners = [...(this.listeners.get(type) || []), ...this.anyListeners];
+
+    for (const listener of listeners) {
+      try {
+        const result = listener(payload as EventPayload);
+        if (result && typeof result.catch === 'function') {
+          result.catch(error => this.reportListenerError(type, error));
+        }
+      } catch (error) {
+        this.reportListenerError(type, error);
+      }
+    }
+  }
+
+  /**
+   * Get the number of listeners for an event type
+   */
+  listenerCount(type: EventType): number {
+    return (this.listeners.get(type)?.size || 0) + this.anyListeners.size;
+  }
+
+  private reportListenerError(type: EventType, error: unknown): void {
+    Logger.getInstance().warn(`Event listener for ${type} failed`, {
+      event: type,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
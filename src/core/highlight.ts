@@ -0,0 +1,143 @@
+/**
+ * Server-side syntax highlighting of diff2html output, so diff pages are highlighted without any script
+ */
+
+import hljs from 'highlight.js/lib/common';
+import { escapeHtml } from '../utils/html.js';
+
+const FILE_WRAPPER_PATTERN = /<div id="[^"]*" class="d2h-file-wrapper" data-lang="([^"]*)">/g;
+const CODE_LINE_PATTERN = /<span class="d2h-code-line-ctn">(.*?)<\/span>/g;
+
+interface LineSegment {
+  text: string;
+  tag?: 'ins' | 'del'; // Changed words marked by diff2html
+}
+
+/**
+ * Highlight the code lines of every file whose language highlight.js knows, by the file extension
+ * diff2html puts in data-lang. Files in other languages are left as they are.
+ */
+export function highlightDiffHtml(html: string): string {
+  const files = [...html.matchAll(FILE_WRAPPER_PATTERN)];
+  if (files.length === 0) {
+    return html;
+  }
+
+  let result = html.substring(0, files[0]!.index);
+  files.forEach((file, i) => {
+    const section = html.substring(file.index!, files[i + 1]?.index ?? html.length);
+    const language = getLanguage(file[1]!);
+
+    result += language
+      ? section.replace(CODE_LINE_PATTERN, (_match, line: string) => {
+          return `<span class="d2h-code-line-ctn">${highlightLine(line, language)}</span>`;
+        })
+      : section;
+  });
+
+  return result;
+}
+
+/**
+ * Get the highlight.js language of a file extension, if it is supported
+ */
+export function getLanguage(extension: string): string | undefined {
+  return extension && hljs.getLanguage(extension) ? extension : undefined;
+}
+
+/**
+ * Get the name of the language of a file extension (e.g. 'TypeScript'), if highlight.js knows it
+ */
+export function getLanguageName(extension: string): string | undefined {
+  return extension ? hljs.getLanguage(extension)?.name : undefined;
+}
+
+/**
+ * Highlight one line of diff2html output. Lines with changed words are highlighted as a whole and the
+ * <ins>/<del> marks laid over the result, so both survive.
+ */
+export function highlightLine(line: string, language: string): string {
+  if (line === '<br>') {
+    return line;
+  }
+
+  const segments = parseSegments(line);
+  const text = segments.map(segment => segment.text).join('');
+  const highlighted = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+
+  if (!segments.some(segment => segment.tag)) {
+    return highlighted;
+  }
+
+  const classes = getCharacterClasses(highlighted);
+  const tags = segments.flatMap(segment => Array.from(segment.text, () => segment.tag));
+  const chars = Array.from(text);
+
+  let output = '';
+  for (let start = 0; start < chars.length; ) {
+    let end = start + 1;
+    while (end < chars.length && tags[end] === tags[start] && sameClasses(classes[end], classes[start])) {
+      end++;
+    }
+
+    const spans = classes[start] || [];
+    const content =
+      spans.map(name => `<span class="${name}">`).join('') +
+      escapeHtml(chars.slice(start, end).join('')) +
+      '</span>'.repeat(spans.length);
+    output += tags[start] ? `<${tags[start]}>${content}</${tags[start]}>` : content;
+    start = end;
+  }
+
+  return output;
+}
+
+/**
+ * Split a line into plain and changed text, decoding the HTML escapes of diff2html
+ */
+function parseSegments(line: string): LineSegment[] {
+  const segments: LineSegment[] = [];
+  for (const match of line.matchAll(/<(ins|del)>(.*?)<\/\1>|[^<]+|<[^>]*>/g)) {
+    if (match[1]) {
+      segments.push({ text: decodeHtml(match[2]!), tag: match[1] as 'ins' | 'del' });
+    } else if (!match[0].startsWith('<')) {
+      segments.push({ text: decodeHtml(match[0]) });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Get the highlight.js classes around each character of highlighted code
+ */
+function getCharacterClasses(highlighted: string): string[][] {
+  const classes: string[][] = [];
+  const stack: string[] = [];
+
+  for (const match of highlighted.matchAll(/<span class="([^"]*)">|<\/span>|&[^;]+;|[^<&]+/g)) {
+    if (match[1] !== undefined) {
+      stack.push(match[1]);
+    } else if (match[0] === '</span>') {
+      stack.pop();
+    } else {
+      Array.from(decodeHtml(match[0])).forEach(() => classes.push([...stack]));
+    }
+  }
+
+  return classes;
+}
+
+function sameClasses(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((name, i) => name === b[i]);
+}
+
+function decodeHtml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(
+        entity[1]!.toLowerCase() === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10)
+      );
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Persistent build history store (.ccanywhere/history.jsonl)
+ */
+
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { appendFile, pathExists, readFile, writeFile } = fsExtra;
+import type { BuildResult, BuildHistoryEntry, BuildHistoryFilter } from '../types/index.js';
+import { ensureStateDir, getStateDir } from './state.js';
+
+const HISTORY_FILE = 'history.jsonl';
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export class BuildHistory {
+  private readonly historyFile: string;
+
+  constructor(
+    private readonly workDir: string,
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES
+  ) {
+    this.historyFile = join(getStateDir(workDir), HISTORY_FILE);
+  }
+
+  /**
+   * Append a build result to the history, dropping the oldest entries beyond the limit
+   */
+  async record(result: BuildResult): Promise<BuildHistoryEntry> {
+    await ensureStateDir(this.workDir);
+
+    const entry: BuildHistoryEntry = {
+      id: `${result.timestamp.toString(36)}-${result.revision}`,
+      ...result
+    };
+    await appendFile(this.historyFile, `${JSON.stringify(entry)}\n`, 'utf8');
+
+    const entries = await this.readAll();
+    if (entries.length > this.maxEntries) {
+      const kept = entries.slice(-this.maxEntries);
+      await writeFile(this.historyFile, kept.map(e => `${JSON.stringify(e)}\n`).join(''), 'utf8');
+    }
+
+    return entry;
+  }
+
+  /**
+   * List builds matching the filter, newest first
+   */
+  async list(filter: BuildHistoryFilter = {}): Promise<BuildHistoryEntry[]> {
+    const entries = (await this.readAll()).reverse().filter(entry => {
+      if (filter.branch && entry.branch !== filter.branch) return false;
+      if (filter.sessionId && !entry.sessionId?.startsWith(filter.sessionId)) return false;
+      if (filter.status === 'success' && !entry.success) return false;
+      if (filter.status === 'failed' && entry.success) return false;
+      if (filter.since !== undefined && entry.timestamp < filter.since) return false;
+      if (filter.until !== undefined && entry.timestamp > filter.until) return false;
+      return true;
+    });
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  /**
+   * Find a build by id or revision prefix (newest match wins)
+   */
+  async get(idOrRevision: string): Promise<BuildHistoryEntry | undefined> {
+    const entries = (await this.readAll()).reverse();
+    return (
+      entries.find(entry => entry.id === idOrRevision) || entries.find(entry => entry.revision.startsWith(idOrRevision))
+    );
+  }
+
+  /**
+   * Read all entries in recording order, skipping corrupt lines
+   */
+  private async readAll(): Promise<BuildHistoryEntry[]> {
+    if (!(await pathExists(this.historyFile))) {
+      return [];
+    }
+
+    const content = await readFile(this.historyFile, 'utf8');
+    const entries: BuildHistoryEntry[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Ignore partially written lines
+      }
+    }
+
+    return entries;
+  }
+}
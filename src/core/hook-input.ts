@@ -0,0 +1,117 @@
+/**
+ * Parser for the JSON payload Claude Code passes to hook commands on stdin
+ */
+
+import type { ClaudeHookContext } from './claude-hook.js';
+
+/**
+ * Hook payload with the fields CCanywhere uses; the full payload is kept in raw
+ */
+export interface HookInput {
+  sessionId?: string;
+  transcriptPath?: string;
+  cwd?: string;
+  hookEventName?: string;
+  toolName?: string;
+  toolInput?: Record<string, unknown>;
+  toolUseId?: string; // Pairs the PreToolUse and PostToolUse calls of one tool use
+  toolResponse?: unknown;
+  prompt?: string;
+  source?: string; // SessionStart: startup, resume, clear or compact
+  stopHookActive?: boolean;
+  raw: Record<string, unknown>;
+}
+
+const DEFAULT_READ_TIMEOUT = 1000; // 1 second
+
+/**
+ * Parse a hook payload. Empty or malformed input yields an empty payload so hooks keep working
+ * when run by hand.
+ */
+export function parseHookInput(text: string): HookInput {
+  let raw: Record<string, unknown> = {};
+
+  try {
+    const parsed = text.trim() ? JSON.parse(text) : {};
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      raw = parsed;
+    }
+  } catch {
+    // Not JSON - ignore
+  }
+
+  const string = (key: string): string | undefined =>
+    typeof raw[key] === 'string' && raw[key] ? (raw[key] as string) : undefined;
+  const toolInput = raw.tool_input;
+
+  return {
+    sessionId: string('session_id'),
+    transcriptPath: string('transcript_path'),
+    cwd: string('cwd'),
+    hookEventName: string('hook_event_name'),
+    toolName: string('tool_name'),
+    toolInput:
+      toolInput && typeof toolInput === 'object' && !Array.isArray(toolInput)
+        ? (toolInput as Record<string, unknown>)
+        : undefined,
+    toolUseId: string('tool_use_id'),
+    toolResponse: raw.tool_response,
+    prompt: string('prompt'),
+    source: string('source'),
+    stopHookActive: raw.stop_hook_active === true ? true : undefined,
+    raw
+  };
+}
+
+/**
+ * Read and parse the hook payload from stdin. Returns an empty payload on a terminal or when nothing
+ * arrives within the timeout, so a missing payload never hangs the hook.
+ */
+export async function readHookInput(
+  stream: NodeJS.ReadableStream & { isTTY?: boolean } = process.stdin,
+  timeout: number = DEFAULT_READ_TIMEOUT
+): Promise<HookInput> {
+  if (stream.isTTY) {
+    return parseHookInput('');
+  }
+
+  const text = await new Promise<string>(resolve => {
+    const chunks: Buffer[] = [];
+    const finish = () => {
+      clearTimeout(timer);
+      stream.removeListener('data', onData);
+      stream.removeListener('end', finish);
+      stream.removeListener('error', finish);
+      stream.pause();
+      resolve(Buffer.concat(chunks).toString('utf8'));
+    };
+    const onData = (chunk: Buffer | string) => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    const timer = setTimeout(finish, timeout);
+
+    stream.on('data', onData);
+    stream.once('end', finish);
+    stream.once('error', finish);
+  });
+
+  return parseHookInput(text);
+}
+
+/**
+ * Build the context passed to ClaudeHooks handlers from a hook payload
+ */
+export function createHookContext(input: HookInput, workingDir: string): ClaudeHookContext {
+  return {
+    workingDir,
+    sessionId: input.sessionId,
+    transcriptPath: input.transcriptPath,
+    input,
+    data: {
+      tool: input.toolName,
+      args: input.toolInput,
+      toolUseId: input.toolUseId,
+      response: input.toolResponse,
+      prompt: input.prompt,
+      source: input.source
+    }
+  };
+}
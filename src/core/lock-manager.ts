@@ -5,10 +5,43 @@
 import { hostname } from 'os';
 import fsExtra from 'fs-extra';
 const { readFile, unlink, ensureDir, pathExists, readdir, outputFile } = fsExtra;
-import { dirname, join } from 'path';
+import { basename, dirname, join, resolve } from 'path';
+import { createHash } from 'crypto';
 import { execa } from 'execa';
-import type { LockManager, LockInfo } from '../types/index.js';
+import type { LockManager, LockInfo, CcanywhereConfig } from '../types/index.js';
 import { LockError } from '../types/index.js';
+import { StorageFactory } from './storage/index.js';
+
+export const LOCK_DIR = '/tmp/ccanywhere-locks';
+
+export interface LockEntry {
+  name: string;
+  file: string;
+  info: LockInfo | null;
+  active: boolean;
+}
+
+/**
+ * Derive the lock key of a project from its repository identity (owner/repo) or its work dir,
+ * optionally scoped to a branch
+ */
+export function getLockKey(config: CcanywhereConfig, workDir: string, branch?: string): string {
+  const absoluteWorkDir = resolve(workDir);
+  const repoName = config.repo?.url ? StorageFactory.extractProjectName(config.repo.url) : '';
+  const project =
+    repoName ||
+    `${basename(absoluteWorkDir)}-${createHash('sha1').update(absoluteWorkDir).digest('hex').substring(0, 8)}`;
+  const key = config.build?.lockScope === 'branch' && branch ? `${project}--${branch}` : project;
+
+  return key.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
+
+/**
+ * Get the lock file used by builds of a project (and branch, with branch lock scope)
+ */
+export function getLockFilePath(config: CcanywhereConfig, workDir: string, branch?: string): string {
+  return join(LOCK_DIR, `${getLockKey(config, workDir, branch)}.lock`);
+}
 
 export class FileLockManager implements LockManager {
   private readonly defaultTimeout: number = 300; // 5 minutes
@@ -117,12 +150,37 @@ export class FileLockManager implements LockManager {
   }
 
   /**
-   * Clean up stale locks in a directory
+   * List all lock files in a directory with their owner and whether it is still running
    */
-  async clean(lockDir: string): Promise<void> {
+  async listLocks(lockDir: string = LOCK_DIR): Promise<LockEntry[]> {
+    if (!(await pathExists(lockDir))) {
+      return [];
+    }
+
+    const files = (await readdir(lockDir)).filter(file => file.endsWith('.lock')).sort();
+    const entries: LockEntry[] = [];
+
+    for (const file of files) {
+      const fullPath = join(lockDir, file);
+      const info = await this.readLockInfo(fullPath);
+      entries.push({
+        name: file.slice(0, -'.lock'.length),
+        file: fullPath,
+        info,
+        active: info ? await this.isProcessRunning(info.pid) : false
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Clean up stale locks in a directory. Returns the number of removed locks.
+   */
+  async clean(lockDir: string): Promise<number> {
     try {
       if (!(await pathExists(lockDir))) {
-        return;
+        return 0;
       }
 
       const files = await readdir(lockDir);
@@ -171,6 +229,8 @@ export class FileLockManager implements LockManager {
       if (removedCount > 0) {
         console.log(`Cleaned up ${removedCount} stale lock(s)`);
       }
+
+      return removedCount;
     } catch (error) {
       throw new LockError(`Failed to clean lock directory: ${error instanceof Error ? error.message : String(error)}`);
     }
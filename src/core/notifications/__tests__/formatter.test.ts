@@ -85,6 +85,38 @@ describe('MessageFormatter', () => {
       expect(formatted.content).toContain('&lt;');
       expect(formatted.content).toContain('&gt;');
     });
+
+    it('should render extra links in every format', () => {
+      const messageWithLinks: NotificationMessage = {
+        title: 'Build Success',
+        links: [{ label: 'lint output', url: 'https://example.com/step-lint.log' }],
+        timestamp: Date.now(),
+        isError: false
+      };
+
+      expect(MessageFormatter.format(messageWithLinks, 'plain').content).toContain(
+        'lint output: https://example.com/step-lint.log'
+      );
+      expect(MessageFormatter.format(messageWithLinks, 'markdown').content).toContain(
+        '[lint output](https://example.com/step-lint.log)'
+      );
+      expect(MessageFormatter.format(messageWithLinks, 'html').content).toContain(
+        '<a href="https://example.com/step-lint.log">lint output</a>'
+      );
+    });
+
+    it('should render the short session id in every format', () => {
+      const sessionMessage: NotificationMessage = {
+        title: 'Build Success',
+        sessionId: '3f2a9c1e-7b4d-4e21-9d1a-1c2b3d4e5f60',
+        timestamp: Date.now(),
+        isError: false
+      };
+
+      expect(MessageFormatter.format(sessionMessage, 'plain').content).toContain('Session: 3f2a9c1e\n');
+      expect(MessageFormatter.format(sessionMessage, 'markdown').content).toContain('🧵 Session: 3f2a9c1e');
+      expect(MessageFormatter.format(sessionMessage, 'html').content).toContain('🧵 Session: 3f2a9c1e<br>');
+    });
   });
 
   describe('truncate', () => {
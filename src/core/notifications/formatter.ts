@@ -3,6 +3,7 @@
  */
 
 import type { NotificationMessage, NotificationFormat, FormattedMessage } from './types.js';
+import { escapeHtml } from '../../utils/html.js';
 
 export class MessageFormatter {
   /**
@@ -38,6 +39,14 @@ export class MessageFormatter {
       content += `Test Report: ${message.reportUrl}\n`;
     }
 
+    for (const link of message.links || []) {
+      content += `${link.label}: ${link.url}\n`;
+    }
+
+    if (message.sessionId) {
+      content += `Session: ${this.shortSessionId(message.sessionId)}\n`;
+    }
+
     if (message.extra) {
       content += `\n${message.extra}`;
     }
@@ -67,6 +76,14 @@ export class MessageFormatter {
       content += `📊 [Test Report](${message.reportUrl})\n`;
     }
 
+    for (const link of message.links || []) {
+      content += `🔗 [${link.label}](${link.url})\n`;
+    }
+
+    if (message.sessionId) {
+      content += `🧵 Session: ${this.shortSessionId(message.sessionId)}\n`;
+    }
+
     if (message.extra) {
       content += `\n${message.extra}`;
     }
@@ -82,7 +99,7 @@ export class MessageFormatter {
    * Format message as HTML
    */
   private static formatHtml(message: NotificationMessage): FormattedMessage {
-    let content = `<strong>${this.escapeHtml(message.title)}</strong><br><br>`;
+    let content = `<strong>${escapeHtml(message.title)}</strong><br><br>`;
 
     if (message.diffUrl) {
       content += `📝 <a href="${message.diffUrl}">View Diff</a><br>`;
@@ -96,8 +113,16 @@ export class MessageFormatter {
       content += `📊 <a href="${message.reportUrl}">Test Report</a><br>`;
     }
 
+    for (const link of message.links || []) {
+      content += `🔗 <a href="${link.url}">${escapeHtml(link.label)}</a><br>`;
+    }
+
+    if (message.sessionId) {
+      content += `🧵 Session: ${escapeHtml(this.shortSessionId(message.sessionId))}<br>`;
+    }
+
     if (message.extra) {
-      content += `<br>${this.escapeHtml(message.extra)}`;
+      content += `<br>${escapeHtml(message.extra)}`;
     }
 
     return {
@@ -108,18 +133,10 @@ export class MessageFormatter {
   }
 
   /**
-   * Escape HTML entities
+   * Shorten a session id (usually a UUID) for display
    */
-  private static escapeHtml(text: string): string {
-    const entityMap: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#39;'
-    };
-
-    return text.replace(/[&<>"']/g, (char) => entityMap[char] || char);
+  private static shortSessionId(sessionId: string): string {
+    return sessionId.substring(0, 8);
   }
 
   /**
@@ -15,6 +15,7 @@ import { DingTalkNotifier } from './dingtalk.js';
 import { WeComNotifier } from './wecom.js';
 import { EmailNotifier } from './email.js';
 import { MessageFormatter } from './formatter.js';
+import { EventBus } from '../events.js';
 
 export class NotificationManager implements NotificationSender {
   private readonly notifiers: Map<NotificationChannel, ChannelNotifier> = new Map();
@@ -132,6 +133,12 @@ export class NotificationManager implements NotificationSender {
       });
     }
 
+    EventBus.getInstance().emit('notification:sent', {
+      message,
+      successful: successful.map(r => r.channel),
+      failed: failed.map(r => r.channel)
+    });
+
     // Throw error only if all channels failed (but not if no channels were attempted)
     if (successful.length === 0 && failed.length > 0) {
       const errors = failed.map(r => `${r.channel}: ${r.error}`).join('; ');
@@ -8,6 +8,8 @@ import type { ChannelNotifier, NotificationMessage } from './types.js';
 import { BuildError } from '../../types/index.js';
 import { MessageFormatter } from './formatter.js';
 
+export const TELEGRAM_API_BASE_URL = 'https://api.telegram.org';
+
 export class TelegramNotifier implements ChannelNotifier {
   readonly channel = 'telegram' as const;
   
@@ -18,7 +20,7 @@ export class TelegramNotifier implements ChannelNotifier {
   constructor(config: NonNullable<NonNullable<CcanywhereConfig['notifications']>['telegram']>) {
     this.botToken = config.botToken;
     this.chatId = config.chatId;
-    this.apiUrl = `https://api.telegram.org/bot${this.botToken}`;
+    this.apiUrl = `${(config.apiBaseUrl || TELEGRAM_API_BASE_URL).replace(/\/+$/, '')}/bot${this.botToken}`;
   }
 
   async send(message: NotificationMessage): Promise<void> {
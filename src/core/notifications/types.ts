@@ -2,14 +2,16 @@
  * Notification system types
  */
 
-import type { NotificationChannel } from '../../types/index.js';
+import type { NotificationChannel, NotificationLink } from '../../types/index.js';
 
 export interface NotificationMessage {
   title: string;
   diffUrl?: string;
   previewUrl?: string;
   reportUrl?: string;
+  links?: NotificationLink[];
   extra?: string;
+  sessionId?: string; // Claude Code session that triggered the build
   timestamp: number;
   isError?: boolean;
 }
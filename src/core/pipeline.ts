@@ -12,20 +12,37 @@ import type {
   CcanywhereConfig,
   Logger,
   BuildArtifact,
-  CommitInfo
+  CommitInfo,
+  CcanywherePlugin,
+  NotificationMessage,
+  StepResult
 } from '../types/index.js';
 import { BuildError } from '../types/index.js';
 import { HtmlDiffGenerator } from './diff-generator.js';
 import { createDeploymentTrigger, hasDeploymentConfig } from './deployment-trigger.js';
 import { createTestRunner } from './test-runner.js';
+import { StepRunner } from './step-runner.js';
 import { NotificationManager } from './notifications/manager.js';
-import { FileLockManager } from './lock-manager.js';
+import { FileLockManager, getLockFilePath } from './lock-manager.js';
+import { BuildQueue } from './build-queue.js';
+import { PluginManager } from './plugin-manager.js';
+import { EventBus } from './events.js';
+import { BuildHistory } from './history.js';
+import { captureSnapshot, readSessionSnapshot, saveSnapshot, LAST_BUILD_SNAPSHOT } from './snapshot.js';
+import { getExcludePaths } from './state.js';
+import { getArtifactFileName } from './artifacts.js';
+import { formatTranscriptSummary, readTranscriptSummary } from './transcript.js';
+import { publishAuditTimeline } from './audit.js';
+import { formatUsage, readTranscriptUsage } from './usage.js';
 
 export interface PipelineConfig {
   workDir: string;
   config: CcanywhereConfig;
   logger: Logger;
   dryRun?: boolean;
+  plugins?: CcanywherePlugin[];
+  sessionId?: string; // Claude Code session that triggered the build
+  transcriptPath?: string; // Transcript of that session, summarized in notifications
 }
 
 export class BuildPipeline {
@@ -33,15 +50,28 @@ export class BuildPipeline {
   private readonly config: CcanywhereConfig;
   private readonly logger: Logger;
   private readonly dryRun: boolean;
+  private readonly sessionId?: string;
+  private readonly transcriptPath?: string;
   private readonly lockManager: FileLockManager;
+  private readonly buildQueue: BuildQueue;
   private readonly notificationManager: NotificationManager;
+  private readonly pluginManager: PluginManager;
+  private readonly eventBus: EventBus;
+  private readonly history: BuildHistory;
+  private pluginsLoaded = false;
 
-  constructor({ workDir, config, logger, dryRun = false }: PipelineConfig) {
+  constructor({ workDir, config, logger, dryRun = false, plugins = [], sessionId, transcriptPath }: PipelineConfig) {
     this.workDir = resolve(workDir);
     this.config = config;
     this.logger = logger;
     this.dryRun = dryRun;
+    this.sessionId = sessionId;
+    this.transcriptPath = transcriptPath;
     this.lockManager = new FileLockManager();
+    this.buildQueue = new BuildQueue(this.lockManager);
+    this.pluginManager = new PluginManager(logger, plugins);
+    this.eventBus = EventBus.getInstance();
+    this.history = new BuildHistory(this.workDir);
 
     if (!config.notifications) {
       throw new BuildError('Notifications configuration is required');
@@ -67,10 +97,25 @@ export class BuildPipeline {
         (this.logger as any).setContext(context);
       }
 
+      this.eventBus.setContext(context);
+
       this.logger.buildStart(context.revision, context.branch);
+      this.eventBus.emit('build:start', { revision: context.revision, branch: context.branch });
+
+      // Load and initialize plugins once per pipeline
+      await this.loadPlugins(context);
 
       // Acquire lock
       if (!this.dryRun) {
+        if (this.config.build?.coalesce !== false) {
+          const hasTurn = await this.buildQueue.waitForTurn(lockFile, this.config.build?.lockTimeout);
+          if (!hasTurn) {
+            // Never held the lock, so there is nothing to release
+            lockFile = undefined;
+            return this.createSupersededResult(context, startTime);
+          }
+        }
+
         await this.lockManager.acquire(lockFile, this.config.build?.lockTimeout);
         this.logger.step('lock', 'Build lock acquired');
       }
@@ -79,11 +124,14 @@ export class BuildPipeline {
       await ensureDir(context.artifactsDir);
       await ensureDir(context.logDir);
 
+      await this.pluginManager.beforeBuild(context);
+
       // Pull latest changes
       await this.pullLatestChanges(context);
 
       // Generate diff
-      const diffArtifact = await this.generateDiff(context);
+      const snapshot = await this.captureWorkingTree(context);
+      const diffArtifact = await this.generateDiff(context, snapshot);
 
       // Check if there are no changes (indicated by empty URL)
       if (!diffArtifact.url) {
@@ -91,20 +139,36 @@ export class BuildPipeline {
         this.logger.step('diff', 'No changes detected between base and head');
         this.logger.buildComplete(true, duration, { message: 'No changes to report' });
 
-        return {
+        const noChangesResult = {
           success: true,
           revision: context.revision,
           branch: context.branch,
           timestamp: context.timestamp,
           duration,
           artifacts: [],
-          message: 'No changes detected'
+          message: 'No changes detected',
+          sessionId: context.sessionId
         } as BuildResult;
+
+        await this.recordHistory(noChangesResult);
+        await this.pluginManager.afterBuild(context, noChangesResult);
+        this.eventBus.emit('build:complete', { result: noChangesResult });
+
+        return noChangesResult;
       }
 
+      const incrementalArtifact = await this.generateIncrementalDiff(context, snapshot);
+      const timelineArtifact = await this.generateTimeline(context);
+
+      // Run custom steps (lint, typecheck, build, ...)
+      const stepResults = await this.runSteps(context);
+      const failedStep = stepResults.find(step => step.status === 'failed' && !step.continueOnError);
+
       // Trigger deployment
       let deploymentUrl: string | undefined;
-      if (hasDeploymentConfig(this.config) && !this.dryRun) {
+      if (failedStep) {
+        this.logger.step('deploy', `Deployment skipped (step ${failedStep.name} failed)`);
+      } else if (hasDeploymentConfig(this.config) && !this.dryRun) {
         try {
           deploymentUrl = await this.triggerDeployment(context);
         } catch (error) {
@@ -115,14 +179,30 @@ export class BuildPipeline {
       }
 
       // Run tests
-      const testResult = await this.runTests(context);
+      const testResult = failedStep ? undefined : await this.runTests(context);
 
       // Get commit info
       const commitInfo = await this.getCommitInfo(context);
 
       // Build artifacts
       const artifacts: BuildArtifact[] = [diffArtifact];
-      if (testResult.reportUrl) {
+      if (incrementalArtifact) {
+        artifacts.push(incrementalArtifact);
+      }
+      if (timelineArtifact) {
+        artifacts.push(timelineArtifact);
+      }
+      for (const step of stepResults) {
+        if (step.outputUrl) {
+          artifacts.push({
+            type: 'log',
+            url: step.outputUrl,
+            path: '', // Published by the step runner
+            timestamp: context.timestamp
+          });
+        }
+      }
+      if (testResult?.reportUrl) {
         artifacts.push({
           type: 'report',
           url: testResult.reportUrl,
@@ -133,7 +213,7 @@ export class BuildPipeline {
 
       const duration = Date.now() - startTime;
       const result: BuildResult = {
-        success: true,
+        success: !failedStep,
         revision: context.revision,
         branch: context.branch,
         timestamp: context.timestamp,
@@ -141,13 +221,17 @@ export class BuildPipeline {
         artifacts,
         deploymentUrl,
         testResults: testResult,
-        commitInfo
+        stepResults: stepResults.length > 0 ? stepResults : undefined,
+        commitInfo,
+        snapshot,
+        sessionId: context.sessionId,
+        error: failedStep ? `Step ${failedStep.name} failed: ${failedStep.error}` : undefined
       };
 
-      // Send success notification
+      // Send build notification
       if (!this.dryRun) {
         try {
-          await this.sendSuccessNotification(result);
+          await this.sendBuildNotification(result);
         } catch (error) {
           this.logger.error('Failed to send notification', {
             error: error instanceof Error ? error.message : String(error)
@@ -155,7 +239,11 @@ export class BuildPipeline {
         }
       }
 
-      this.logger.buildComplete(true, duration, { artifactCount: artifacts.length });
+      await this.recordHistory(result);
+      await this.pluginManager.afterBuild(context, result);
+
+      this.logger.buildComplete(result.success, duration, { artifactCount: artifacts.length });
+      this.eventBus.emit('build:complete', { result });
 
       return result;
     } catch (error) {
@@ -164,6 +252,11 @@ export class BuildPipeline {
       const currentStep = this.getCurrentStep(error);
 
       this.logger.buildError(currentStep, errorMessage);
+      this.eventBus.emit('build:error', { step: currentStep, error: errorMessage });
+
+      if (context) {
+        await this.pluginManager.onError(context, error instanceof Error ? error : new Error(errorMessage));
+      }
 
       // Send error notification
       if (!this.dryRun && context) {
@@ -181,13 +274,18 @@ export class BuildPipeline {
         timestamp: context?.timestamp || startTime,
         duration,
         artifacts: [],
-        error: errorMessage
+        error: errorMessage,
+        sessionId: this.sessionId
       };
 
+      await this.recordHistory(result);
+
       this.logger.buildComplete(false, duration, { error: errorMessage });
 
       return result;
     } finally {
+      this.eventBus.setContext(undefined);
+
       // Always release lock
       if (lockFile && !this.dryRun) {
         try {
@@ -200,6 +298,71 @@ export class BuildPipeline {
     }
   }
 
+  /**
+   * Load configured plugins and run their initialize hook on first use
+   */
+  private async loadPlugins(context: RuntimeContext): Promise<void> {
+    if (this.pluginsLoaded) {
+      return;
+    }
+    this.pluginsLoaded = true;
+
+    await this.pluginManager.load(this.config.plugins, this.workDir);
+    await this.pluginManager.initialize(context);
+  }
+
+  /**
+   * Result of a run that gave up its turn to a newer run queued for the same lock
+   */
+  private createSupersededResult(context: RuntimeContext, startTime: number): BuildResult {
+    const duration = Date.now() - startTime;
+    this.logger.step('lock', 'Superseded by a newer queued build, skipping');
+    this.logger.buildComplete(true, duration, { message: 'Superseded by a newer build' });
+
+    const result: BuildResult = {
+      success: true,
+      revision: context.revision,
+      branch: context.branch,
+      timestamp: context.timestamp,
+      duration,
+      artifacts: [],
+      message: 'Superseded by a newer build',
+      superseded: true,
+      sessionId: context.sessionId
+    };
+
+    this.eventBus.emit('build:complete', { result });
+    return result;
+  }
+
+  /**
+   * Persist the build result in the project's build history. The snapshot of a successful build is
+   * pinned under a ref so git never prunes the base of the next incremental diff.
+   */
+  private async recordHistory(result: BuildResult): Promise<void> {
+    if (this.dryRun) {
+      return;
+    }
+
+    try {
+      await this.history.record(result);
+    } catch (error) {
+      this.logger.warn('Failed to record build history', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (result.success && result.snapshot) {
+      try {
+        await saveSnapshot(this.workDir, LAST_BUILD_SNAPSHOT, result.snapshot);
+      } catch (error) {
+        this.logger.warn('Failed to save build snapshot', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
   /**
    * Create runtime context
    */
@@ -216,9 +379,10 @@ export class BuildPipeline {
       workDir: this.workDir,
       artifactsDir: join(this.workDir, '.artifacts'),
       logDir: join(this.workDir, '../logs'),
-      lockFile: '/tmp/ccanywhere-locks/main.lock',
+      lockFile: getLockFilePath(this.config, this.workDir, branch),
       base,
-      head
+      head,
+      sessionId: this.sessionId
     };
 
     return context;
@@ -271,18 +435,114 @@ export class BuildPipeline {
   /**
    * Generate diff HTML
    */
-  private async generateDiff(context: RuntimeContext): Promise<BuildArtifact> {
+  private async generateDiff(context: RuntimeContext, snapshot?: string): Promise<BuildArtifact> {
+    const diffGenerator = new HtmlDiffGenerator();
+
+    // Show only what changed since the Claude Code session started
+    const sessionBase =
+      snapshot && this.config.diff?.scope !== 'branch'
+        ? await readSessionSnapshot(this.workDir, context.sessionId)
+        : null;
+
+    if (snapshot && sessionBase) {
+      this.logger.step('diff', `Generating diff since session start (${sessionBase.substring(0, 7)})`);
+      const artifact = await diffGenerator.generateRange(sessionBase, snapshot, context);
+
+      this.logger.step('diff', 'Diff generation completed', { url: artifact.url, fragments: artifact.fragments });
+      return artifact;
+    }
+
     const baseBranch = context.base || this.config.build?.base || 'origin/main';
     const headBranch = context.head || 'HEAD';
     this.logger.step('diff', `Generating diff from ${baseBranch} to ${headBranch}`);
 
-    const diffGenerator = new HtmlDiffGenerator();
     const artifact = await diffGenerator.generate(baseBranch, headBranch, context);
 
-    this.logger.step('diff', 'Diff generation completed', { url: artifact.url });
+    this.logger.step('diff', 'Diff generation completed', { url: artifact.url, fragments: artifact.fragments });
     return artifact;
   }
 
+  /**
+   * Snapshot the working tree for session and incremental diffs. Explicit ranges diff refs, not the working tree.
+   */
+  private async captureWorkingTree(context: RuntimeContext): Promise<string | undefined> {
+    const diffConfig = this.config.diff;
+    if (context.base || context.head || (diffConfig?.scope === 'branch' && diffConfig.incremental === false)) {
+      return undefined;
+    }
+
+    try {
+      return await captureSnapshot(this.workDir, getExcludePaths(this.config.build?.excludePaths));
+    } catch (error) {
+      this.logger.warn('Failed to snapshot working tree', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Generate the diff of changes since the previous successful build, if there was one
+   */
+  private async generateIncrementalDiff(
+    context: RuntimeContext,
+    snapshot?: string
+  ): Promise<BuildArtifact | undefined> {
+    if (!snapshot || this.config.diff?.incremental === false) {
+      return undefined;
+    }
+
+    try {
+      const [previous] = (await this.history.list({ status: 'success' })).filter(entry => entry.snapshot);
+      if (!previous?.snapshot) {
+        return undefined;
+      }
+
+      this.logger.step('diff', `Generating diff since last build (${previous.revision})`);
+      const diffGenerator = new HtmlDiffGenerator();
+      const artifact = await diffGenerator.generateRange(
+        previous.snapshot,
+        snapshot,
+        context,
+        getArtifactFileName(context, 'diff-incremental', 'html')
+      );
+
+      if (!artifact.url) {
+        this.logger.step('diff', 'No changes since last build');
+        return undefined;
+      }
+
+      return { ...artifact, type: 'diff-incremental' };
+    } catch (error) {
+      this.logger.warn('Failed to generate incremental diff', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Publish the activity timeline of the session's tool calls, recorded by the PostToolUse hook
+   */
+  private async generateTimeline(context: RuntimeContext): Promise<BuildArtifact | undefined> {
+    if (!context.sessionId || !this.config.hooks?.PostToolUse) {
+      return undefined;
+    }
+
+    try {
+      const artifact = await publishAuditTimeline(context);
+      if (artifact) {
+        this.logger.step('audit', 'Activity timeline generated', { url: artifact.url });
+      }
+      return artifact;
+    } catch (error) {
+      this.logger.warn('Failed to generate activity timeline', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Trigger deployment
    */
@@ -304,6 +564,21 @@ export class BuildPipeline {
     }
   }
 
+  /**
+   * Run custom pipeline steps
+   */
+  private async runSteps(context: RuntimeContext): Promise<StepResult[]> {
+    const steps = this.config.steps || [];
+    if (steps.length === 0) {
+      return [];
+    }
+
+    this.logger.step('step', `Running ${steps.length} custom step(s)`);
+
+    const stepRunner = new StepRunner(this.logger);
+    return stepRunner.run(steps, context);
+  }
+
   /**
    * Run tests
    */
@@ -367,25 +642,114 @@ export class BuildPipeline {
   }
 
   /**
-   * Send success notification
+   * Send build result notification, including custom step results
    */
-  private async sendSuccessNotification(result: BuildResult): Promise<void> {
+  private async sendBuildNotification(result: BuildResult): Promise<void> {
     const diffUrl = result.artifacts.find(a => a.type === 'diff')?.url;
     const reportUrl = result.testResults?.reportUrl;
-    const extra = result.commitInfo
+    const summary = result.commitInfo
       ? `Commit: ${result.commitInfo.message} by ${result.commitInfo.author} (${Math.round(result.duration / 1000)}s)`
       : `Build completed in ${Math.round(result.duration / 1000)}s`;
+    const steps = result.stepResults || [];
+    const stepSummary = steps.length > 0 ? this.formatStepResults(steps) : undefined;
+    const transcriptSummary = await this.getTranscriptSummary();
+    const usageSummary = await this.getUsageSummary();
+
+    let message: NotificationMessage;
+    if (result.success) {
+      const extra = [transcriptSummary, usageSummary, stepSummary, summary].filter(Boolean).join('\n\n');
+      message = this.notificationManager.createSuccessNotification(
+        result.revision,
+        diffUrl,
+        result.deploymentUrl,
+        reportUrl,
+        extra
+      );
+    } else {
+      const failure = this.notificationManager.createErrorNotification(
+        result.revision,
+        result.error || 'Step failed',
+        'steps'
+      );
+      message = {
+        ...failure,
+        diffUrl,
+        extra: [failure.extra, transcriptSummary, usageSummary, stepSummary].filter(Boolean).join('\n\n')
+      };
+    }
+
+    const incrementalUrl = result.artifacts.find(a => a.type === 'diff-incremental')?.url;
+    const timelineUrl = result.artifacts.find(a => a.type === 'timeline')?.url;
+    const links = [
+      ...(incrementalUrl ? [{ label: 'Changes since last build', url: incrementalUrl }] : []),
+      ...(timelineUrl ? [{ label: 'Activity timeline', url: timelineUrl }] : []),
+      ...steps
+        .filter(step => step.outputUrl)
+        .map(step => ({ label: `${step.name} output`, url: step.outputUrl as string }))
+    ];
+
+    await this.notificationManager.send({
+      ...message,
+      ...(links.length > 0 ? { links } : {}),
+      ...(result.sessionId ? { sessionId: result.sessionId } : {})
+    });
+    this.logger.step('notify', `${result.success ? 'Success' : 'Failure'} notification sent`);
+  }
+
+  /**
+   * Summarize the Claude Code transcript of the session that triggered the build
+   */
+  private async getTranscriptSummary(): Promise<string | undefined> {
+    if (!this.transcriptPath) {
+      return undefined;
+    }
+
+    try {
+      const summary = await readTranscriptSummary(this.transcriptPath);
+      return summary ? formatTranscriptSummary(summary, this.workDir) || undefined : undefined;
+    } catch (error) {
+      this.logger.warn('Failed to summarize transcript', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
 
-    const message = this.notificationManager.createSuccessNotification(
-      result.revision,
-      diffUrl,
-      result.deploymentUrl,
-      reportUrl,
-      extra
-    );
+  /**
+   * Total the token usage of the session that triggered the build, so far
+   */
+  private async getUsageSummary(): Promise<string | undefined> {
+    if (!this.transcriptPath || this.config.usage?.enabled === false) {
+      return undefined;
+    }
+
+    try {
+      const usage = await readTranscriptUsage(this.transcriptPath, this.config.usage?.pricing);
+      return usage ? formatUsage(usage) : undefined;
+    } catch (error) {
+      this.logger.warn('Failed to read token usage', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Format step statuses for notifications
+   */
+  private formatStepResults(steps: StepResult[]): string {
+    const lines = steps.map(step => {
+      switch (step.status) {
+        case 'passed':
+          return `✅ ${step.name} (${Math.round(step.duration / 1000)}s)`;
+        case 'failed':
+          return `❌ ${step.name}: ${step.error}${step.continueOnError ? ' (ignored)' : ''}`;
+        default:
+          return `⏭️ ${step.name} skipped`;
+      }
+    });
 
-    await this.notificationManager.send(message);
-    this.logger.step('notify', 'Success notification sent');
+    return `Steps:\n${lines.join('\n')}`;
   }
 
   /**
@@ -394,7 +758,7 @@ export class BuildPipeline {
   private async sendErrorNotification(context: RuntimeContext, error: string, step: string): Promise<void> {
     const message = this.notificationManager.createErrorNotification(context.revision, error, step);
 
-    await this.notificationManager.send(message);
+    await this.notificationManager.send(context.sessionId ? { ...message, sessionId: context.sessionId } : message);
     this.logger.step('notify', 'Error notification sent');
   }
 
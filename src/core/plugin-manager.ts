@@ -0,0 +1,155 @@
+/**
+ * Plugin loader and lifecycle dispatcher for the build pipeline
+ */
+
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  CcanywherePlugin,
+  CcanywherePluginFactory,
+  PluginSpec,
+  RuntimeContext,
+  BuildResult,
+  Logger
+} from '../types/index.js';
+import { ConfigurationError } from '../types/index.js';
+
+type PluginHook = 'initialize' | 'beforeBuild' | 'afterBuild' | 'onError';
+
+export class PluginManager {
+  private readonly plugins: CcanywherePlugin[] = [];
+  private readonly logger: Logger;
+
+  constructor(logger: Logger, plugins: CcanywherePlugin[] = []) {
+    this.logger = logger;
+    plugins.forEach(plugin => this.register(plugin));
+  }
+
+  /**
+   * Register an already constructed plugin
+   */
+  register(plugin: CcanywherePlugin): void {
+    if (!plugin || typeof plugin.name !== 'string' || !plugin.name) {
+      throw new ConfigurationError('Plugin must have a name');
+    }
+
+    if (this.plugins.some(existing => existing.name === plugin.name)) {
+      this.logger.warn(`Plugin ${plugin.name} is already registered, skipping`);
+      return;
+    }
+
+    this.plugins.push(plugin);
+  }
+
+  /**
+   * Load plugins declared in configuration. A plugin that fails to load is skipped.
+   */
+  async load(specs: PluginSpec[] | undefined, workDir: string): Promise<void> {
+    for (const spec of specs || []) {
+      const moduleId = typeof spec === 'string' ? spec : spec.module;
+      const options = typeof spec === 'string' ? {} : spec.options || {};
+
+      if (typeof spec !== 'string' && spec.enabled === false) {
+        this.logger.debug(`Plugin ${moduleId} disabled by configuration`);
+        continue;
+      }
+
+      try {
+        const plugin = await this.loadPlugin(moduleId, options, workDir);
+        this.register(plugin);
+        this.logger.step('plugin', `Loaded plugin ${plugin.name}@${plugin.version || 'unknown'}`, {
+          module: moduleId
+        });
+      } catch (error) {
+        this.logger.error(`Failed to load plugin ${moduleId}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Get registered plugins
+   */
+  getPlugins(): CcanywherePlugin[] {
+    return [...this.plugins];
+  }
+
+  async initialize(context: RuntimeContext): Promise<void> {
+    await this.invoke('initialize', plugin => plugin.initialize?.(context));
+  }
+
+  async beforeBuild(context: RuntimeContext): Promise<void> {
+    await this.invoke('beforeBuild', plugin => plugin.beforeBuild?.(context));
+  }
+
+  async afterBuild(context: RuntimeContext, result: BuildResult): Promise<void> {
+    await this.invoke('afterBuild', plugin => plugin.afterBuild?.(context, result));
+  }
+
+  async onError(context: RuntimeContext, error: Error): Promise<void> {
+    await this.invoke('onError', plugin => plugin.onError?.(context, error));
+  }
+
+  /**
+   * Call a hook on every plugin in registration order, isolating failures per plugin
+   */
+  private async invoke(hook: PluginHook, call: (plugin: CcanywherePlugin) => Promise<void> | undefined): Promise<void> {
+    for (const plugin of this.plugins) {
+      if (typeof plugin[hook] !== 'function') {
+        continue;
+      }
+
+      try {
+        await call(plugin);
+      } catch (error) {
+        this.logger.error(`Plugin ${plugin.name} failed in ${hook}`, {
+          plugin: plugin.name,
+          hook,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Import a plugin module and turn its export into a plugin instance
+   */
+  private async loadPlugin(
+    moduleId: string,
+    options: Record<string, unknown>,
+    workDir: string
+  ): Promise<CcanywherePlugin> {
+    const imported = await this.importModule(moduleId, workDir);
+    const exported = imported.default ?? imported;
+
+    const plugin: unknown =
+      typeof exported === 'function' ? await (exported as CcanywherePluginFactory)(options) : exported;
+
+    if (!plugin || typeof plugin !== 'object' || typeof (plugin as { name?: unknown }).name !== 'string') {
+      throw new ConfigurationError(`Plugin ${moduleId} must export a plugin object or factory function`);
+    }
+
+    return plugin as CcanywherePlugin;
+  }
+
+  /**
+   * Resolve local paths against the project and packages from the project's node_modules
+   */
+  private async importModule(moduleId: string, workDir: string): Promise<{ default?: unknown }> {
+    if (moduleId.startsWith('.') || isAbsolute(moduleId)) {
+      return import(pathToFileURL(resolve(workDir, moduleId)).href);
+    }
+
+    let resolvedPath: string;
+    try {
+      resolvedPath = createRequire(join(workDir, 'package.json')).resolve(moduleId);
+    } catch {
+      // Fall back to resolution relative to CCanywhere itself (e.g. globally installed plugins)
+      return import(moduleId);
+    }
+
+    return import(pathToFileURL(resolvedPath).href);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * PreToolUse policy engine - decides tool calls from the rules in security.policies
+ */
+
+import { isAbsolute, relative } from 'path';
+import type { PolicyAction, PolicyRule } from '../types/index.js';
+
+export interface PolicyRequest {
+  tool: string;
+  input?: Record<string, unknown>;
+  workDir?: string; // Makes absolute file paths project relative before matching
+  branch?: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: string; // Rule name, or its 1-based position when unnamed
+  reason: string;
+  paths: string[];
+}
+
+/**
+ * Whether a tool name matches any of the patterns, where '*' matches anything (e.g. 'mcp__github__*')
+ */
+export function matchesToolName(tool: string, patterns: string | string[]): boolean {
+  return toArray(patterns).some(pattern => new RegExp(`^${escapeRegExp(pattern).replace(/\\\*/g, '.*')}$`).test(tool));
+}
+
+/**
+ * Whether a path matches a glob. '**' spans directories, '*' and '?' stay within one. Globs without a slash
+ * match the file name at any depth, like .gitignore ('.env' matches 'config/.env'), and a matching
+ * directory covers everything below it.
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '');
+  const pattern = glob.replace(/^\.\//, '');
+  const prefix = pattern.includes('/') ? '' : '(?:.*/)?';
+
+  return new RegExp(`^${prefix}${globToRegExp(pattern)}(?:/.*)?$`).test(normalized);
+}
+
+/**
+ * Whether a branch name matches a glob exactly ('release/*' matches 'release/1.0', 'main' only 'main')
+ */
+export function matchesBranch(branch: string, glob: string): boolean {
+  return new RegExp(`^${globToRegExp(glob)}$`).test(branch);
+}
+
+/**
+ * File paths a tool call touches, relative to the project when inside it
+ */
+export function getToolPaths(input: Record<string, unknown> = {}, workDir?: string): string[] {
+  const paths: string[] = [];
+
+  for (const key of ['file_path', 'notebook_path', 'path']) {
+    const value = input[key];
+    if (typeof value !== 'string' || !value) continue;
+
+    const relativePath = workDir && isAbsolute(value) ? relative(workDir, value) : value;
+    paths.push(relativePath && !relativePath.startsWith('..') ? relativePath : value);
+  }
+
+  return paths;
+}
+
+export class PolicyEngine {
+  constructor(private readonly rules: PolicyRule[] = []) {}
+
+  /**
+   * Whether any rule needs the current branch, so callers only look it up when it matters
+   */
+  get usesBranch(): boolean {
+    return this.rules.some(rule => rule.branch !== undefined);
+  }
+
+  /**
+   * Decide a tool call with the first matching rule, or return null when no rule matches
+   */
+  evaluate(request: PolicyRequest): PolicyDecision | null {
+    const paths = getToolPaths(request.input, request.workDir);
+
+    for (const [index, rule] of this.rules.entries()) {
+      if (!this.matches(rule, request, paths)) continue;
+
+      const name = rule.name || `#${index + 1}`;
+      return {
+        action: rule.action,
+        rule: name,
+        reason: rule.reason || `${request.tool} ${ACTION_VERBS[rule.action]} by policy ${name}`,
+        paths
+      };
+    }
+
+    return null;
+  }
+
+  private matches(rule: PolicyRule, request: PolicyRequest, paths: string[]): boolean {
+    if (rule.tool !== undefined && !matchesToolName(request.tool, rule.tool)) {
+      return false;
+    }
+
+    if (rule.command !== undefined) {
+      const command = request.input?.command;
+      if (typeof command !== 'string' || !new RegExp(rule.command).test(command)) {
+        return false;
+      }
+    }
+
+    if (rule.paths !== undefined && !paths.some(path => rule.paths!.some(glob => matchesGlob(path, glob)))) {
+      return false;
+    }
+
+    if (rule.branch !== undefined) {
+      const branch = request.branch;
+      if (!branch || !toArray(rule.branch).some(glob => matchesBranch(branch, glob))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+const ACTION_VERBS: Record<PolicyAction, string> = {
+  allow: 'allowed',
+  deny: 'denied',
+  ask: 'needs approval'
+};
+
+function globToRegExp(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' also matches no directory at all
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,136 @@
+/**
+ * Working tree snapshots stored as commit objects under refs/ccanywhere/
+ */
+
+import { randomBytes } from 'crypto';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import fsExtra from 'fs-extra';
+const { copy, pathExists, remove } = fsExtra;
+import { execa } from 'execa';
+import { BuildError } from '../types/index.js';
+
+/** Snapshot taken when the latest Claude Code session started */
+export const SESSION_SNAPSHOT = 'session';
+
+/** Snapshot of the last successful build, kept so incremental diffs can use it */
+export const LAST_BUILD_SNAPSHOT = 'last-build';
+
+// Baselines of individual sessions are kept under refs/ccanywhere/sessions/
+const SESSIONS_DIR = 'sessions';
+
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'ccanywhere',
+  GIT_AUTHOR_EMAIL: 'ccanywhere@localhost',
+  GIT_COMMITTER_NAME: 'ccanywhere',
+  GIT_COMMITTER_EMAIL: 'ccanywhere@localhost'
+};
+
+/**
+ * Get the ref a named snapshot is stored under
+ */
+export function getSnapshotRef(name: string): string {
+  return `refs/ccanywhere/${name}`;
+}
+
+/**
+ * Record the working tree (tracked, staged and untracked files) as a commit object without touching
+ * the real index, HEAD or any branch. Returns the commit sha.
+ */
+export async function captureSnapshot(workDir: string, excludePaths: string[] = []): Promise<string> {
+  const indexFile = join(tmpdir(), `ccanywhere-index-${process.pid}-${randomBytes(4).toString('hex')}`);
+  const env = { ...SNAPSHOT_IDENTITY, GIT_INDEX_FILE: indexFile };
+
+  try {
+    // Start from the real index so unchanged files are not hashed again
+    const gitIndex = await execa('git', ['rev-parse', '--git-path', 'index'], { cwd: workDir });
+    const gitIndexPath = resolve(workDir, gitIndex.stdout.trim());
+    if (await pathExists(gitIndexPath)) {
+      await copy(gitIndexPath, indexFile);
+    }
+
+    const excludeArgs = excludePaths.map(path => `:(exclude)${path}`);
+    await execa('git', ['add', '--all', '--', '.', ...excludeArgs], { cwd: workDir, env });
+    const tree = (await execa('git', ['write-tree'], { cwd: workDir, env })).stdout.trim();
+
+    const head = await execa('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd: workDir, reject: false });
+    const parentArgs = head.exitCode === 0 ? ['-p', head.stdout.trim()] : [];
+    const commit = await execa('git', ['commit-tree', tree, ...parentArgs, '-m', 'ccanywhere snapshot'], {
+      cwd: workDir,
+      env
+    });
+
+    return commit.stdout.trim();
+  } catch (error) {
+    throw new BuildError(`Failed to snapshot working tree: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await remove(indexFile).catch(() => undefined);
+  }
+}
+
+/**
+ * Store a snapshot under a name, replacing the previous one
+ */
+export async function saveSnapshot(workDir: string, name: string, commit: string): Promise<void> {
+  await execa('git', ['update-ref', getSnapshotRef(name), commit], { cwd: workDir });
+}
+
+/**
+ * Get the commit of a named snapshot, or null if none was saved
+ */
+export async function readSnapshot(workDir: string, name: string): Promise<string | null> {
+  const result = await execa('git', ['rev-parse', '--verify', '--quiet', `${getSnapshotRef(name)}^{commit}`], {
+    cwd: workDir,
+    reject: false
+  });
+
+  return result.exitCode === 0 && result.stdout.trim() ? result.stdout.trim() : null;
+}
+
+/**
+ * Get the snapshot name of a session's baseline, or of the latest session without a session id
+ */
+export function getSessionSnapshotName(sessionId?: string): string {
+  return sessionId ? `${SESSIONS_DIR}/${sessionId.replace(/[^A-Za-z0-9._-]+/g, '_')}` : SESSION_SNAPSHOT;
+}
+
+/**
+ * Get the baseline of a session, falling back to the baseline of the latest session
+ */
+export async function readSessionSnapshot(workDir: string, sessionId?: string): Promise<string | null> {
+  const snapshot = sessionId ? await readSnapshot(workDir, getSessionSnapshotName(sessionId)) : null;
+  return snapshot || (await readSnapshot(workDir, SESSION_SNAPSHOT));
+}
+
+/**
+ * Delete a named snapshot
+ */
+export async function deleteSnapshot(workDir: string, name: string): Promise<void> {
+  await execa('git', ['update-ref', '-d', getSnapshotRef(name)], { cwd: workDir, reject: false });
+}
+
+/**
+ * Delete the session baselines taken before a cutoff time, for sessions that ended without a SessionEnd hook.
+ * Returns the number of snapshots deleted.
+ */
+export async function cleanSessionSnapshots(workDir: string, before: number): Promise<number> {
+  const result = await execa(
+    'git',
+    ['for-each-ref', '--format=%(refname) %(committerdate:unix)', getSnapshotRef(SESSIONS_DIR)],
+    { cwd: workDir, reject: false }
+  );
+  if (result.exitCode !== 0) {
+    return 0;
+  }
+
+  let deleted = 0;
+  for (const line of result.stdout.split('\n')) {
+    const [ref, timestamp] = line.trim().split(' ');
+    if (ref && timestamp && parseInt(timestamp) * 1000 < before) {
+      await execa('git', ['update-ref', '-d', ref], { cwd: workDir, reject: false });
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
@@ -0,0 +1,39 @@
+/**
+ * Per-project state directory (.ccanywhere) for history and other local data
+ */
+
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, pathExists, writeFile } = fsExtra;
+
+export const STATE_DIR_NAME = '.ccanywhere';
+
+/**
+ * Get the state directory of a project
+ */
+export function getStateDir(workDir: string): string {
+  return join(workDir, STATE_DIR_NAME);
+}
+
+/**
+ * Create the state directory, ignored by git so it never shows up as a change
+ */
+export async function ensureStateDir(workDir: string): Promise<string> {
+  const stateDir = getStateDir(workDir);
+  await ensureDir(stateDir);
+
+  const gitignorePath = join(stateDir, '.gitignore');
+  if (!(await pathExists(gitignorePath))) {
+    await writeFile(gitignorePath, '*\n', 'utf8');
+  }
+
+  return stateDir;
+}
+
+/**
+ * Paths excluded from diffs: the configured ones plus the state directory
+ */
+export function getExcludePaths(excludePaths?: string[]): string[] {
+  const paths = excludePaths || ['.artifacts'];
+  return paths.includes(STATE_DIR_NAME) ? paths : [...paths, STATE_DIR_NAME];
+}
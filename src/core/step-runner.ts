@@ -0,0 +1,101 @@
+/**
+ * Custom pipeline step runner (lint, typecheck, build, ...)
+ */
+
+import { resolve } from 'path';
+import { execa } from 'execa';
+import type { PipelineStep, StepResult, RuntimeContext, Logger } from '../types/index.js';
+import { getArtifactFileName, publishArtifact } from './artifacts.js';
+import { EventBus } from './events.js';
+
+const DEFAULT_STEP_TIMEOUT = 600; // seconds
+
+export class StepRunner {
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Run steps in order. A failing step stops the remaining steps unless it sets continueOnError.
+   */
+  async run(steps: PipelineStep[], context: RuntimeContext): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+    let blocked = false;
+
+    for (const step of steps) {
+      if (blocked) {
+        results.push({ name: step.name, status: 'skipped', duration: 0, continueOnError: step.continueOnError });
+        continue;
+      }
+
+      const result = await this.runStep(step, context);
+      results.push(result);
+      EventBus.getInstance().emit('step:complete', { result }, context);
+
+      if (result.status === 'failed' && !step.continueOnError) {
+        blocked = true;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a single step and publish its combined output as a log artifact
+   */
+  private async runStep(step: PipelineStep, context: RuntimeContext): Promise<StepResult> {
+    const startTime = Date.now();
+    this.logger.step('step', `Running ${step.name}: ${step.command}`);
+
+    const execution = await execa(step.command, {
+      shell: true,
+      cwd: resolve(context.workDir, step.cwd || '.'),
+      env: step.env,
+      timeout: (step.timeout || DEFAULT_STEP_TIMEOUT) * 1000,
+      all: true,
+      reject: false
+    });
+
+    const duration = Date.now() - startTime;
+    const passed = !execution.failed && execution.exitCode === 0;
+    let error: string | undefined;
+    if (execution.timedOut) {
+      error = `Timed out after ${step.timeout || DEFAULT_STEP_TIMEOUT}s`;
+    } else if (!passed) {
+      error = `Exited with code ${execution.exitCode}`;
+    }
+
+    const result: StepResult = {
+      name: step.name,
+      status: passed ? 'passed' : 'failed',
+      exitCode: execution.exitCode,
+      duration,
+      continueOnError: step.continueOnError,
+      error
+    };
+
+    try {
+      const log = `$ ${step.command}\n\n${execution.all || ''}\n\n${error || 'Completed successfully'} (${duration}ms)\n`;
+      const artifact = await publishArtifact(
+        context,
+        getArtifactFileName(context, `step-${this.toFileSafeName(step.name)}`, 'log'),
+        log,
+        'text/plain; charset=utf-8'
+      );
+      result.outputUrl = artifact.url;
+    } catch (publishError) {
+      this.logger.warn(`Failed to publish output of step ${step.name}`, {
+        error: publishError instanceof Error ? publishError.message : String(publishError)
+      });
+    }
+
+    this.logger.step('step', `${step.name} ${result.status}`, {
+      exitCode: result.exitCode,
+      duration
+    });
+
+    return result;
+  }
+
+  private toFileSafeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-');
+  }
+}
@@ -460,4 +460,20 @@ describe('StorageFactory', () => {
       expect(projectPath).toBe('');
     });
   });
-});
\ No newline at end of file
+
+  describe('getStorageKey', () => {
+    it('should place artifacts under the folder and project path', () => {
+      const config: CcanywhereConfig = {
+        repo: { url: 'https://github.com/owner/repo' },
+        artifacts: { storage: { provider: 'r2', folder: 'builds' } as any }
+      };
+      expect(StorageFactory.getStorageKey(config, 'step-lint-abc123.log')).toBe(
+        'builds/owner/repo/step-lint-abc123.log'
+      );
+    });
+
+    it('should omit the project path when no repo URL is configured', () => {
+      expect(StorageFactory.getStorageKey({}, 'diff-abc123.html')).toBe('diffs/diff-abc123.html');
+    });
+  });
+});
@@ -132,6 +132,17 @@ export class StorageFactory {
     return cleanFolder.replace(/\/+$/, '');
   }
 
+  /**
+   * Get the storage key for an artifact: {folder}/{projectPath}/{fileName}
+   * If projectPath is empty, maintains backward compatibility: {folder}/{fileName}
+   */
+  static getStorageKey(config: CcanywhereConfig, fileName: string): string {
+    const storageFolder = this.getStorageFolder(config);
+    const projectPath = this.getProjectPath(config);
+
+    return projectPath ? `${storageFolder}/${projectPath}/${fileName}` : `${storageFolder}/${fileName}`;
+  }
+
   static create(config: CcanywhereConfig): IStorageProvider | null {
     // Try new artifacts.storage configuration first, then fall back to legacy storage config
     const storageConfig = config.artifacts?.storage || config.storage;
@@ -10,6 +10,7 @@ import type { ExecaError } from 'execa';
 import { glob } from 'glob';
 import type { TestRunner, TestResult, RuntimeContext, TestStatus } from '../types/index.js';
 import { BuildError } from '../types/index.js';
+import { EventBus } from './events.js';
 
 export interface PlaywrightConfig {
   configFile?: string;
@@ -42,6 +43,9 @@ export class PlaywrightTestRunner implements TestRunner {
    */
   async run(context: RuntimeContext): Promise<TestResult> {
     const startTime = Date.now();
+    const eventBus = EventBus.getInstance();
+
+    eventBus.emit('test:started', { configFile: this.config.configFile }, context);
 
     try {
       // Check if Playwright is available and configured
@@ -59,6 +63,8 @@ export class PlaywrightTestRunner implements TestRunner {
       // Copy artifacts
       await this.copyTestArtifacts(context, testResult);
 
+      eventBus.emit('test:complete', { result: testResult }, context);
+
       return testResult;
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -67,7 +73,7 @@ export class PlaywrightTestRunner implements TestRunner {
         throw error;
       }
 
-      return {
+      const failedResult: TestResult = {
         status: 'failed',
         passed: 0,
         failed: 1,
@@ -75,6 +81,10 @@ export class PlaywrightTestRunner implements TestRunner {
         duration,
         error: error instanceof Error ? error.message : String(error)
       };
+
+      eventBus.emit('test:complete', { result: failedResult }, context);
+
+      return failedResult;
     }
   }
 
@@ -0,0 +1,138 @@
+/**
+ * Claude Code transcript (JSONL) summaries for notifications
+ */
+
+import { isAbsolute, relative } from 'path';
+import fsExtra from 'fs-extra';
+const { pathExists, readFile } = fsExtra;
+
+export interface TranscriptSummary {
+  lastPrompt?: string;
+  finalMessage?: string;
+  toolCalls: Record<string, number>; // Tool name -> number of calls
+  filesEdited: string[];
+}
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+interface TranscriptEntry {
+  type?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  message?: { content?: unknown };
+}
+
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+const MAX_PROMPT_LENGTH = 300;
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_FILES = 10;
+
+/**
+ * Summarize a transcript: the last user prompt, the final assistant message, tool calls by name and edited files.
+ * Subagent (sidechain) entries and unparseable lines are ignored.
+ */
+export function summarizeTranscript(content: string): TranscriptSummary {
+  const summary: TranscriptSummary = { toolCalls: {}, filesEdited: [] };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: TranscriptEntry | null;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if (!entry?.message || entry.isSidechain || entry.isMeta) continue;
+
+    const blocks = toBlocks(entry.message.content);
+    const text = blocks
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text!.trim())
+      .join('\n')
+      .trim();
+
+    if (entry.type === 'user') {
+      // Tool results are sent back as user messages; only count what the user typed
+      if (text && !text.startsWith('<command-') && !text.startsWith('<local-command-')) {
+        summary.lastPrompt = text;
+      }
+    } else if (entry.type === 'assistant') {
+      if (text) {
+        summary.finalMessage = text;
+      }
+
+      for (const block of blocks) {
+        if (block.type !== 'tool_use' || !block.name) continue;
+
+        summary.toolCalls[block.name] = (summary.toolCalls[block.name] || 0) + 1;
+
+        const file = block.input?.file_path || block.input?.notebook_path;
+        if (EDIT_TOOLS.includes(block.name) && typeof file === 'string' && !summary.filesEdited.includes(file)) {
+          summary.filesEdited.push(file);
+        }
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Read and summarize a transcript file, or return null if it does not exist
+ */
+export async function readTranscriptSummary(transcriptPath: string): Promise<TranscriptSummary | null> {
+  if (!(await pathExists(transcriptPath))) {
+    return null;
+  }
+
+  return summarizeTranscript(await readFile(transcriptPath, 'utf8'));
+}
+
+/**
+ * Format a summary for NotificationMessage.extra. File paths are shown relative to the project.
+ */
+export function formatTranscriptSummary(summary: TranscriptSummary, workDir?: string): string {
+  const lines: string[] = [];
+
+  if (summary.lastPrompt) {
+    lines.push(`💬 Prompt: ${truncate(summary.lastPrompt, MAX_PROMPT_LENGTH)}`);
+  }
+
+  if (summary.finalMessage) {
+    lines.push(`🤖 Claude: ${truncate(summary.finalMessage, MAX_MESSAGE_LENGTH)}`);
+  }
+
+  const tools = Object.entries(summary.toolCalls).sort(([, a], [, b]) => b - a);
+  if (tools.length > 0) {
+    lines.push(`🛠️ Tools: ${tools.map(([name, count]) => `${name} ×${count}`).join(', ')}`);
+  }
+
+  if (summary.filesEdited.length > 0) {
+    const files = summary.filesEdited.map(file =>
+      workDir && isAbsolute(file) && !relative(workDir, file).startsWith('..') ? relative(workDir, file) : file
+    );
+    const more = files.length > MAX_FILES ? ` (+${files.length - MAX_FILES} more)` : '';
+    lines.push(`📝 Files: ${files.slice(0, MAX_FILES).join(', ')}${more}`);
+  }
+
+  return lines.join('\n');
+}
+
+function toBlocks(content: unknown): ContentBlock[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  return Array.isArray(content) ? content.filter(block => block && typeof block === 'object') : [];
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength - 1)}…` : singleLine;
+}
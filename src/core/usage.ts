@@ -0,0 +1,302 @@
+/**
+ * Token usage and cost of Claude Code sessions, read from the transcript and kept in .ccanywhere/usage.jsonl
+ */
+
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { appendFile, pathExists, readFile } = fsExtra;
+import type { ModelPrice } from '../types/index.js';
+import { ensureStateDir, getStateDir } from './state.js';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface SessionUsage extends TokenUsage {
+  models: Record<string, TokenUsage>; // Model name -> tokens used by it
+  cost: number; // Estimated USD of the models with a known price
+  unpricedModels: string[]; // Models left out of the cost
+}
+
+export interface UsageRecord extends SessionUsage {
+  sessionId: string;
+  timestamp: number;
+}
+
+export type UsagePeriod = 'day' | 'week' | 'session';
+
+export interface UsageTotals extends TokenUsage {
+  key: string; // Day (YYYY-MM-DD), first day of the week or session id
+  sessions: number;
+  cost: number;
+}
+
+interface TranscriptEntry {
+  type?: string;
+  requestId?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+  };
+}
+
+/**
+ * USD per million tokens (https://www.anthropic.com/pricing). The longest prefix of the model name wins.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 }
+};
+
+const USAGE_FILE = 'usage.jsonl';
+
+/**
+ * Add up the tokens of a transcript by model. Claude Code writes one line per content block of a response,
+ * each repeating the usage of the whole response, so responses are counted once by message id.
+ * Subagent (sidechain) responses are included since they are billed too.
+ */
+export function summarizeUsage(content: string): Record<string, TokenUsage> {
+  const responses = new Map<string, { model: string; usage: TokenUsage }>();
+  let anonymous = 0;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: TranscriptEntry | null;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const usage = entry?.message?.usage;
+    if (entry?.type !== 'assistant' || !usage) continue;
+
+    const model = entry.message?.model || 'unknown';
+    if (model === '<synthetic>') continue;
+
+    const id = entry.message?.id || entry.requestId || `#${anonymous++}`;
+    responses.set(id, {
+      model,
+      usage: {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadTokens: usage.cache_read_input_tokens || 0
+      }
+    });
+  }
+
+  const models: Record<string, TokenUsage> = {};
+  for (const { model, usage } of responses.values()) {
+    models[model] = addUsage(models[model] || emptyUsage(), usage);
+  }
+  return models;
+}
+
+/**
+ * Find the price of a model: the configured prices first, then the built-in ones
+ */
+export function getModelPrice(model: string, pricing: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+  for (const table of [pricing, DEFAULT_MODEL_PRICES]) {
+    const key = Object.keys(table)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    if (key) {
+      return table[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Total the tokens of all models and estimate their cost
+ */
+export function calculateUsage(
+  models: Record<string, TokenUsage>,
+  pricing: Record<string, ModelPrice> = {}
+): SessionUsage {
+  let total = emptyUsage();
+  let cost = 0;
+  const unpricedModels: string[] = [];
+
+  for (const [model, usage] of Object.entries(models)) {
+    total = addUsage(total, usage);
+
+    const price = getModelPrice(model, pricing);
+    if (!price) {
+      unpricedModels.push(model);
+      continue;
+    }
+
+    cost +=
+      (usage.inputTokens * price.input +
+        usage.outputTokens * price.output +
+        usage.cacheCreationTokens * (price.cacheWrite ?? price.input * 1.25) +
+        usage.cacheReadTokens * (price.cacheRead ?? price.input * 0.1)) /
+      1_000_000;
+  }
+
+  return { ...total, models, cost, unpricedModels };
+}
+
+/**
+ * Read the usage of a transcript file, or return null if it does not exist
+ */
+export async function readTranscriptUsage(
+  transcriptPath: string,
+  pricing?: Record<string, ModelPrice>
+): Promise<SessionUsage | null> {
+  if (!(await pathExists(transcriptPath))) {
+    return null;
+  }
+
+  return calculateUsage(summarizeUsage(await readFile(transcriptPath, 'utf8')), pricing);
+}
+
+/**
+ * Format the usage of a session for NotificationMessage.extra
+ */
+export function formatUsage(usage: SessionUsage): string {
+  const tokens = [
+    `${formatTokens(usage.inputTokens)} in`,
+    `${formatTokens(usage.outputTokens)} out`,
+    ...(usage.cacheReadTokens ? [`${formatTokens(usage.cacheReadTokens)} cache read`] : []),
+    ...(usage.cacheCreationTokens ? [`${formatTokens(usage.cacheCreationTokens)} cache write`] : [])
+  ];
+  const unpriced = usage.unpricedModels.length > 0 ? ` (no price for ${usage.unpricedModels.join(', ')})` : '';
+
+  return `🪙 Tokens: ${tokens.join(', ')}\n💰 Cost: ~${formatCost(usage.cost)}${unpriced}`;
+}
+
+/**
+ * Shorten a token count: 950, 12.3k, 1.2M
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Add up usage records by day, week (starting Monday) or session, newest first. Days are in local time.
+ */
+export function groupUsage(records: UsageRecord[], period: UsagePeriod): UsageTotals[] {
+  const groups = new Map<string, UsageTotals>();
+
+  for (const record of records) {
+    const key = period === 'session' ? record.sessionId : getPeriodStart(record.timestamp, period);
+    const group = groups.get(key) || { key, sessions: 0, cost: 0, ...emptyUsage() };
+
+    groups.set(key, {
+      ...group,
+      ...addUsage(group, record),
+      sessions: group.sessions + 1,
+      cost: group.cost + record.cost
+    });
+  }
+
+  const newest = new Map(records.map(record => [record.sessionId, record.timestamp]));
+  return [...groups.values()].sort((a, b) =>
+    period === 'session' ? newest.get(b.key)! - newest.get(a.key)! : b.key.localeCompare(a.key)
+  );
+}
+
+/**
+ * Add up grouped totals, e.g. the days of a project or the projects of a report
+ */
+export function totalUsage(totals: UsageTotals[], key: string): UsageTotals {
+  return totals.reduce(
+    (total, group) => ({
+      ...total,
+      ...addUsage(total, group),
+      sessions: total.sessions + group.sessions,
+      cost: total.cost + group.cost
+    }),
+    { key, sessions: 0, cost: 0, ...emptyUsage() }
+  );
+}
+
+export class UsageStore {
+  private readonly usageFile: string;
+
+  constructor(private readonly workDir: string) {
+    this.usageFile = join(getStateDir(workDir), USAGE_FILE);
+  }
+
+  /**
+   * Append the usage of a session. A resumed session is recorded again with its grown totals.
+   */
+  async record(sessionId: string, usage: SessionUsage, timestamp: number = Date.now()): Promise<UsageRecord> {
+    await ensureStateDir(this.workDir);
+
+    const record: UsageRecord = { sessionId, timestamp, ...usage };
+    await appendFile(this.usageFile, `${JSON.stringify(record)}\n`, 'utf8');
+    return record;
+  }
+
+  /**
+   * List the latest record of each session, optionally only those since a timestamp
+   */
+  async list(since?: number): Promise<UsageRecord[]> {
+    if (!(await pathExists(this.usageFile))) {
+      return [];
+    }
+
+    const sessions = new Map<string, UsageRecord>();
+    for (const line of (await readFile(this.usageFile, 'utf8')).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: UsageRecord = JSON.parse(line);
+        sessions.delete(record.sessionId);
+        sessions.set(record.sessionId, record);
+      } catch {
+        // Ignore partially written lines
+      }
+    }
+
+    return [...sessions.values()].filter(record => since === undefined || record.timestamp >= since);
+  }
+}
+
+function getPeriodStart(timestamp: number, period: 'day' | 'week'): string {
+  const date = new Date(timestamp);
+  const offset = period === 'week' ? (date.getDay() + 6) % 7 : 0;
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`;
+}
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+}
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens
+  };
+}
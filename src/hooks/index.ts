@@ -31,11 +31,17 @@ export const UserPromptSubmit = async (context: ClaudeHookContext): Promise<Clau
   return ClaudeHooks.UserPromptSubmit(context);
 };
 
+// Export SessionStart hook handler (records the baseline for session-scoped diffs)
+export const SessionStart = async (context: ClaudeHookContext): Promise<ClaudeHookResult> => {
+  return ClaudeHooks.SessionStart(context);
+};
+
 // Export all handlers as a group
 export const hooks = {
   Stop,
   PostToolUse,
-  UserPromptSubmit
+  UserPromptSubmit,
+  SessionStart
 };
 
 // Default export for CommonJS compatibility
@@ -46,4 +52,5 @@ module.exports = hooks;
 module.exports.Stop = Stop;
 module.exports.PostToolUse = PostToolUse;
 module.exports.UserPromptSubmit = UserPromptSubmit;
+module.exports.SessionStart = SessionStart;
 module.exports.hooks = hooks;
@@ -8,12 +8,27 @@ export * from './core/pipeline.js';
 export * from './core/diff-generator.js';
 export * from './core/deployment-trigger.js';
 export * from './core/test-runner.js';
+export * from './core/step-runner.js';
+export * from './core/artifacts.js';
+export * from './core/history.js';
+export * from './core/state.js';
+export * from './core/snapshot.js';
 export * from './core/lock-manager.js';
+export * from './core/build-queue.js';
 export * from './core/logger.js';
+export * from './core/plugin-manager.js';
+export * from './core/events.js';
 export * from './core/notifications/index.js';
 
 // Claude Code integration
 export * from './core/claude-hook.js';
+export * from './core/hook-input.js';
+export * from './core/transcript.js';
+export * from './core/approval.js';
+export * from './core/policy.js';
+export * from './core/audit.js';
+export * from './core/usage.js';
+export * from './core/agents/index.js';
 export * from './utils/claude-detector.js';
 export * from './utils/hook-injector.js';
 export * from './utils/error-handler.js';
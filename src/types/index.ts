@@ -14,6 +14,8 @@ export type DeploymentStatus = 'pending' | 'running' | 'success' | 'failed' | 'c
 
 export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
 
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
 /**
  * Core configuration interface
  */
@@ -43,6 +45,7 @@ export interface CcanywhereConfig {
     telegram?: {
       botToken: string;
       chatId: string;
+      apiBaseUrl?: string; // Bot API server (default: https://api.telegram.org)
     };
     dingtalk?: string;
     wecom?: string;
@@ -56,6 +59,8 @@ export interface CcanywhereConfig {
         pass: string;
       };
     };
+    onSessionStart?: boolean; // Notify when a Claude Code session starts
+    onSessionEnd?: boolean; // Notify when it ends, with its summary and token usage
   };
 
   /** Build configuration */
@@ -64,6 +69,8 @@ export interface CcanywhereConfig {
     lockTimeout?: number;
     cleanupDays?: number;
     excludePaths?: string[]; // Paths to exclude from diff generation
+    lockScope?: 'project' | 'branch'; // Builds of different branches run concurrently with 'branch'
+    coalesce?: boolean; // Only the newest run waiting for the lock builds (default: true)
   };
 
   /** Test configuration */
@@ -79,6 +86,8 @@ export interface CcanywhereConfig {
   security?: {
     readOnly?: boolean;
     linkExpiry?: number;
+    approval?: ApprovalConfig;
+    policies?: PolicyRule[]; // Evaluated in order by the PreToolUse hook, the first matching rule decides
   };
 
   /** Artifacts configuration - unified storage and URL configuration */
@@ -112,6 +121,28 @@ export interface CcanywhereConfig {
     };
   };
 
+  /** Diff generation settings */
+  diff?: {
+    scope?: DiffScope;
+    incremental?: boolean; // Also publish the changes since the previous successful build (default: true)
+    outputFormat?: DiffOutputFormat; // Default: line-by-line
+    splitLines?: number; // Changed lines above which the page loads files in fragments (default: 3000, 0 disables)
+    fragmentLines?: number; // Changed lines per fragment of a split page (default: 500)
+    collapse?: string[]; // Globs of generated and vendored files shown collapsed (default: lockfiles, dist/, ...)
+  };
+
+  /** Claude Code hook handlers to enable */
+  hooks?: HooksConfig;
+
+  /** Token usage and cost reporting of Claude Code sessions */
+  usage?: UsageConfig;
+
+  /** Plugins loaded into the build pipeline - npm package names or local paths */
+  plugins?: PluginSpec[];
+
+  /** Custom shell commands run between diff generation and deployment */
+  steps?: PipelineStep[];
+
   /** Storage configuration (deprecated - use artifacts.storage instead) */
   storage?: {
     provider: StorageProvider;
@@ -139,6 +170,90 @@ export interface CcanywhereConfig {
   };
 }
 
+/**
+ * What the diff page shows: changes since the Claude Code session started (falls back to the branch diff
+ * when no session snapshot exists) or the whole branch against build.base
+ */
+export type DiffScope = 'session' | 'branch';
+
+/**
+ * Layout of the diff page. 'both' renders both layouts with a toggle, side-by-side on wide screens.
+ */
+export type DiffOutputFormat = 'line-by-line' | 'side-by-side' | 'both';
+
+export type ApprovalDecision = 'allow' | 'deny';
+
+/**
+ * Remote approval of Claude Code tool calls over Telegram
+ */
+export interface ApprovalConfig {
+  enabled?: boolean;
+  tools?: string[]; // Tool names needing approval, '*' wildcards allowed (default: Bash, Write, Edit, MultiEdit, NotebookEdit)
+  timeout?: number; // Seconds to wait for an answer (default: 120)
+  defaultDecision?: ApprovalDecision; // Decision when nobody answers in time (default: deny)
+}
+
+/**
+ * What a policy rule does with a matching tool call: run it, block it, or ask for approval
+ */
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+/**
+ * PreToolUse policy rule. Every condition given must match; omitted conditions match anything.
+ */
+export interface PolicyRule {
+  name?: string;
+  tool?: string | string[]; // Tool names, '*' wildcards allowed
+  command?: string; // Regular expression tested against the Bash command
+  paths?: string[]; // Globs of project relative file paths, e.g. '.env' or 'migrations/**'
+  branch?: string | string[]; // Globs of the current git branch
+  action: PolicyAction;
+  reason?: string; // Shown to Claude Code and in notifications
+}
+
+/**
+ * Claude Code hook events handled by ClaudeHooks, and the quiet period of Stop builds
+ */
+export interface HooksConfig {
+  Stop?: boolean;
+  PostToolUse?: boolean;
+  PreToolUse?: boolean;
+  UserPromptSubmit?: boolean;
+  SessionStart?: boolean;
+  SessionEnd?: boolean;
+  debounceSeconds?: number; // Build only once Stop has been quiet this long (default: 0, build on every Stop)
+}
+
+/**
+ * Price of a model in USD per million tokens. Cache prices default to 1.25x (write) and 0.1x (read) the input price.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite?: number;
+  cacheRead?: number;
+}
+
+/**
+ * Token usage reporting
+ */
+export interface UsageConfig {
+  enabled?: boolean; // Record the usage of each session at SessionEnd (default: true)
+  pricing?: Record<string, ModelPrice>; // Model name prefix -> price, overrides the built-in prices
+}
+
+/**
+ * Custom pipeline step (e.g. lint, typecheck, build)
+ */
+export interface PipelineStep {
+  name: string;
+  command: string;
+  timeout?: number; // Seconds (default: 600)
+  cwd?: string; // Relative to the project root
+  env?: Record<string, string>;
+  continueOnError?: boolean;
+}
+
 /**
  * Runtime context passed between modules
  */
@@ -153,17 +268,21 @@ export interface RuntimeContext {
   lockFile: string;
   base?: string;
   head?: string;
+  sessionId?: string; // Claude Code session that triggered the build
 }
 
 /**
  * Build artifact information
  */
 export interface BuildArtifact {
-  type: 'diff' | 'report' | 'trace';
+  type: 'diff' | 'diff-incremental' | 'report' | 'trace' | 'log' | 'timeline';
   url: string;
   path: string;
   size?: number;
   timestamp: number;
+  indexUrl?: string; // Split diff pages: the index page, which loads the fragments
+  fragments?: number; // Split diff pages: number of fragments published next to the index page
+  summaryUrl?: string; // Diff pages: JSON summary of the changed files, published next to the page
 }
 
 /**
@@ -178,9 +297,29 @@ export interface BuildResult {
   artifacts: BuildArtifact[];
   deploymentUrl?: string;
   testResults?: TestResult;
+  stepResults?: StepResult[];
   commitInfo?: CommitInfo;
   error?: string;
   message?: string; // Optional message for special cases like no changes
+  superseded?: boolean; // Skipped because a newer run was queued for the same lock
+  snapshot?: string; // Commit object of the working tree the diffs were generated from
+  sessionId?: string; // Claude Code session that triggered the build
+}
+
+/**
+ * Build result persisted in the project's build history
+ */
+export interface BuildHistoryEntry extends BuildResult {
+  id: string;
+}
+
+export interface BuildHistoryFilter {
+  branch?: string;
+  sessionId?: string; // Session id or prefix
+  status?: 'success' | 'failed';
+  since?: number;
+  until?: number;
+  limit?: number;
 }
 
 /**
@@ -208,6 +347,19 @@ export interface TestResult {
   error?: string;
 }
 
+/**
+ * Custom step execution result
+ */
+export interface StepResult {
+  name: string;
+  status: StepStatus;
+  exitCode?: number;
+  duration: number;
+  outputUrl?: string;
+  continueOnError?: boolean;
+  error?: string;
+}
+
 /**
  * Deployment information
  */
@@ -252,11 +404,21 @@ export interface NotificationMessage {
   diffUrl?: string;
   previewUrl?: string;
   reportUrl?: string;
+  links?: NotificationLink[];
   extra?: string;
+  sessionId?: string;
   isError?: boolean;
   timestamp: number;
 }
 
+/**
+ * Extra link shown in a notification (e.g. custom step output)
+ */
+export interface NotificationLink {
+  label: string;
+  url: string;
+}
+
 /**
  * CLI command options
  */
@@ -279,6 +441,24 @@ export interface CcanywherePlugin {
   onError?(context: RuntimeContext, error: Error): Promise<void>;
 }
 
+/**
+ * Factory exported by a plugin module, receives the options from the plugin config entry
+ */
+export type CcanywherePluginFactory = (
+  options: Record<string, unknown>
+) => CcanywherePlugin | Promise<CcanywherePlugin>;
+
+/**
+ * Plugin config entry - a module specifier or an object with options
+ */
+export type PluginSpec =
+  | string
+  | {
+      module: string;
+      options?: Record<string, unknown>;
+      enabled?: boolean;
+    };
+
 /**
  * Event system types
  */
@@ -291,13 +471,34 @@ export type EventType =
   | 'deployment:complete'
   | 'test:started'
   | 'test:complete'
+  | 'step:complete'
   | 'notification:sent';
 
-export interface EventPayload {
-  type: EventType;
+/**
+ * Data carried by each event type
+ */
+export interface EventDataMap {
+  'build:start': { revision: string; branch: string };
+  'build:complete': { result: BuildResult };
+  'build:error': { step: string; error: string };
+  'diff:generated': { base: string; head: string; artifact: BuildArtifact };
+  'deployment:started': { webhookUrl: string };
+  'deployment:complete': { deployment: DeploymentInfo };
+  'test:started': { configFile?: string };
+  'test:complete': { result: TestResult };
+  'step:complete': { result: StepResult };
+  'notification:sent': {
+    message: NotificationMessage;
+    successful: NotificationChannel[];
+    failed: NotificationChannel[];
+  };
+}
+
+export interface EventPayload<T extends EventType = EventType> {
+  type: T;
   timestamp: number;
-  context: RuntimeContext;
-  data: any;
+  context?: RuntimeContext; // Not set for events emitted outside a pipeline run
+  data: EventDataMap[T];
 }
 
 /**
@@ -335,7 +536,7 @@ export interface NotificationSender {
 export interface LockManager {
   acquire(lockFile: string, timeout?: number): Promise<LockInfo>;
   release(lockFile: string): Promise<void>;
-  clean(lockDir: string): Promise<void>;
+  clean(lockDir: string): Promise<number>;
   isLocked(lockFile: string): Promise<boolean>;
 }
 
@@ -19,7 +19,7 @@ jest.unstable_mockModule('fs-extra', () => ({
 }));
 
 // Import the module after mocking
-const { detectGitInfo, getCurrentCommitSha, getRecentCommits } = await import('../git.js');
+const { detectGitInfo, getCurrentCommitSha, getCurrentBranch, getRecentCommits } = await import('../git.js');
 
 describe('git utilities', () => {
   beforeEach(() => {
@@ -169,6 +169,32 @@ describe('git utilities', () => {
     });
   });
 
+  describe('getCurrentBranch', () => {
+    it('should return the current branch', () => {
+      mockExecSync.mockReturnValue('feature/login\n');
+
+      expect(getCurrentBranch('/test/project')).toBe('feature/login');
+      expect(mockExecSync).toHaveBeenCalledWith('git branch --show-current', {
+        cwd: '/test/project',
+        encoding: 'utf8'
+      });
+    });
+
+    it('should return undefined on a detached HEAD', () => {
+      mockExecSync.mockReturnValue('\n');
+
+      expect(getCurrentBranch('/test/project')).toBeUndefined();
+    });
+
+    it('should handle git command errors', () => {
+      mockExecSync.mockImplementation(() => {
+        throw new Error('Not a git repository');
+      });
+
+      expect(getCurrentBranch('/test/project')).toBeUndefined();
+    });
+  });
+
   describe('getRecentCommits', () => {
     it('should return recent commit list', () => {
       mockExecSync.mockReturnValue('abc123 Latest commit\ndef456 Previous commit\nghi789 Older commit');
@@ -0,0 +1,182 @@
+/**
+ * Tests for Claude Code hook injection
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fsExtra from 'fs-extra';
+const { ensureDir, readJson, remove, writeJson } = fsExtra;
+
+// Mock ClaudeCodeDetector
+const mockGetClaudeCodePaths = jest.fn() as any;
+jest.unstable_mockModule('@/utils/claude-detector', () => ({
+  ClaudeCodeDetector: { getClaudeCodePaths: mockGetClaudeCodePaths }
+}));
+
+// Import the module after mocking
+const { HookInjector } = await import('../hook-injector.js');
+
+describe('HookInjector', () => {
+  let configDir: string;
+  let settingsPath: string;
+
+  const readHooks = async () => (await readJson(settingsPath)).hooks;
+
+  beforeEach(async () => {
+    configDir = join(tmpdir(), `ccanywhere-hooks-${Date.now()}`);
+    settingsPath = join(configDir, 'settings.json');
+    await ensureDir(configDir);
+    mockGetClaudeCodePaths.mockResolvedValue({
+      configDir,
+      hooksConfig: join(configDir, 'hooks.js'),
+      backup: join(configDir, 'hooks.ccanywhere.backup')
+    });
+  });
+
+  afterEach(async () => {
+    try {
+      await remove(configDir);
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should register Stop and SessionStart by default', async () => {
+    const result = await HookInjector.injectHooks({ createBackup: false });
+
+    expect(result.success).toBe(true);
+    expect(result.hooksAdded).toEqual(['SessionStart', 'Stop']);
+    expect(Object.keys(await readHooks())).toEqual(['SessionStart', 'Stop']);
+  });
+
+  it('should register a chosen subset of events with matchers', async () => {
+    const result = await HookInjector.injectHooks({
+      events: ['PostToolUse', 'PreToolUse', 'SessionEnd'],
+      matchers: { PreToolUse: 'Bash|Edit' },
+      createBackup: false
+    });
+    const hooks = await readHooks();
+
+    expect(result.hooksAdded).toEqual(['PreToolUse', 'PostToolUse', 'SessionEnd']);
+    expect(hooks.PreToolUse).toEqual([
+      {
+        matcher: 'Bash|Edit',
+        hooks: [
+          {
+            type: 'command',
+            command: HookInjector.getHookCommand('PreToolUse'),
+            timeout: HookInjector.APPROVAL_HOOK_TIMEOUT
+          }
+        ]
+      }
+    ]);
+    expect(hooks.PostToolUse[0]).toEqual({
+      matcher: '.*',
+      hooks: [{ type: 'command', command: HookInjector.getHookCommand('PostToolUse') }]
+    });
+    expect(hooks.Stop).toBeUndefined();
+  });
+
+  it('should skip identical hooks and update changed ones', async () => {
+    await HookInjector.injectHooks({ events: ['Stop', 'PreToolUse'], createBackup: false });
+
+    const result = await HookInjector.injectHooks({
+      events: ['Stop', 'PreToolUse'],
+      matchers: { PreToolUse: 'Bash' },
+      createBackup: false
+    });
+    const hooks = await readHooks();
+
+    expect(result.hooksSkipped).toEqual(['Stop']);
+    expect(result.hooksUpdated).toEqual(['PreToolUse']);
+    expect(hooks.PreToolUse).toHaveLength(1);
+    expect(hooks.PreToolUse[0].matcher).toBe('Bash');
+  });
+
+  it('should keep hooks of other tools', async () => {
+    const otherHook = { matcher: 'Write', hooks: [{ type: 'command', command: 'prettier --write' }] };
+    await writeJson(settingsPath, { model: 'opus', hooks: { PostToolUse: [otherHook] } });
+
+    await HookInjector.injectHooks({ events: ['PostToolUse'], createBackup: false });
+    const settings = await readJson(settingsPath);
+
+    expect(settings.model).toBe('opus');
+    expect(settings.hooks.PostToolUse).toEqual([otherHook, expect.objectContaining({ matcher: '.*' })]);
+  });
+
+  it('should remove only the given events', async () => {
+    await HookInjector.injectHooks({ events: ['Stop', 'SessionStart', 'PostToolUse'], createBackup: false });
+
+    const result = await HookInjector.removeHooks(['PostToolUse']);
+
+    expect(result.hooksAdded).toEqual(['PostToolUse']);
+    expect(Object.keys(await readHooks())).toEqual(['SessionStart', 'Stop']);
+    expect(await HookInjector.getInjectedHooks()).toEqual({ SessionStart: '.*', Stop: '.*' });
+  });
+
+  it('should remove all CCanywhere hooks', async () => {
+    await HookInjector.injectHooks({ events: ['Stop', 'UserPromptSubmit'], createBackup: false });
+
+    await HookInjector.removeHooks();
+
+    expect(await readHooks()).toEqual({});
+    expect(await HookInjector.getInjectedHooks()).toEqual({});
+  });
+
+  describe('project scope', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = join(configDir, 'project');
+      await ensureDir(projectDir);
+    });
+
+    it('should write hooks to .claude/settings.json of the project', async () => {
+      const result = await HookInjector.injectHooks({ scope: 'project', projectDir, createBackup: false });
+
+      expect(result.success).toBe(true);
+      expect((await readJson(join(projectDir, '.claude', 'settings.json'))).hooks.Stop).toHaveLength(1);
+      expect(await HookInjector.areHooksInjected({ scope: 'project', projectDir })).toBe(true);
+      expect(await HookInjector.areHooksInjected()).toBe(false);
+    });
+
+    it('should write local hooks to .claude/settings.local.json', async () => {
+      await HookInjector.injectHooks({ scope: 'local', projectDir, events: ['PostToolUse'], createBackup: false });
+
+      expect(await HookInjector.getInjectedHooks({ scope: 'local', projectDir })).toEqual({ PostToolUse: '.*' });
+      expect(await HookInjector.getInjectedHooks({ scope: 'project', projectDir })).toEqual({});
+    });
+
+    it('should back up and restore the project settings', async () => {
+      const settingsFile = join(projectDir, '.claude', 'settings.json');
+      await ensureDir(join(projectDir, '.claude'));
+      await writeJson(settingsFile, { permissions: { allow: ['Bash(npm test)'] } });
+
+      const result = await HookInjector.injectHooks({ scope: 'project', projectDir });
+      const backups = await HookInjector.listBackups({ scope: 'project', projectDir });
+
+      expect(result.backupPath).toContain(join(projectDir, '.ccanywhere'));
+      expect(backups).toEqual([result.backupPath]);
+
+      await HookInjector.restoreFromBackup(backups[0]!, { scope: 'project', projectDir });
+
+      expect(await readJson(settingsFile)).toEqual({ permissions: { allow: ['Bash(npm test)'] } });
+    });
+
+    it('should remove hooks from the project only', async () => {
+      await HookInjector.injectHooks({ createBackup: false });
+      await HookInjector.injectHooks({ scope: 'project', projectDir, createBackup: false });
+
+      await HookInjector.removeHooks(undefined, { scope: 'project', projectDir });
+
+      expect(await HookInjector.areHooksInjected({ scope: 'project', projectDir })).toBe(false);
+      expect(await HookInjector.areHooksInjected()).toBe(true);
+    });
+  });
+
+  it('should keep stdout of PreToolUse for the permission decision', () => {
+    expect(HookInjector.getHookCommand('Stop')).toContain('ccanywhere run --hook-mode 2>&1 >>');
+    expect(HookInjector.getHookCommand('PreToolUse')).toContain('ccanywhere hook PreToolUse 2>>');
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Tests for HTML helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { escapeHtml } from '../html.js';
+
+describe('escapeHtml', () => {
+  it('should escape markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;'
+    );
+  });
+
+  it('should leave plain text alone', () => {
+    expect(escapeHtml('Add a toggle')).toBe('Add a toggle');
+  });
+});
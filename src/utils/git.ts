@@ -104,6 +104,22 @@ export function getCurrentCommitSha(projectPath: string): string | undefined {
   }
 }
 
+/**
+ * 获取当前分支名称（detached HEAD 时返回 undefined）
+ */
+export function getCurrentBranch(projectPath: string): string | undefined {
+  try {
+    return (
+      execSync('git branch --show-current', {
+        cwd: projectPath,
+        encoding: 'utf8'
+      }).trim() || undefined
+    );
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * 获取最近的提交信息
  */
@@ -4,14 +4,52 @@
  */
 
 import path from 'path';
+import { isDeepStrictEqual } from 'util';
 import fs from 'fs-extra';
 import { Logger } from './logger.js';
 import { ClaudeCodeDetector } from './claude-detector.js';
 import { ClaudeHooks } from '../core/claude-hook.js';
 import { ErrorHandler, ClaudeCodeError } from './error-handler.js';
+import { ensureStateDir, getStateDir } from '../core/state.js';
 
-export interface HookInjectionOptions {
+/**
+ * Claude Code hook events CCanywhere can register, in settings.json order
+ */
+export const HOOK_EVENTS = [
+  'SessionStart',
+  'UserPromptSubmit',
+  'PreToolUse',
+  'PostToolUse',
+  'Stop',
+  'SessionEnd'
+] as const;
+
+export type HookEvent = (typeof HOOK_EVENTS)[number];
+
+/**
+ * Which settings file hooks go to: the user's, the repository's shared .claude/settings.json,
+ * or the repository's personal .claude/settings.local.json
+ */
+export type HookScope = 'user' | 'project' | 'local';
+
+export interface HookTarget {
+  scope?: HookScope; // Default: user
+  projectDir?: string; // Repository of the project and local scopes (default: cwd)
+}
+
+interface SettingsTarget {
+  configDir: string;
+  settingsPath: string;
+  backup: string; // Backup path, timestamped when written
+  projectDir?: string; // Set for the project and local scopes
+}
+
+export interface HookInjectionOptions extends HookTarget {
+  events?: HookEvent[]; // Exact set of events to register, overrides the enable* flags
+  matchers?: Partial<Record<HookEvent, string>>; // Per-event matcher (default: '.*')
   enableStop?: boolean;
+  enableSessionStart?: boolean; // Records the session baseline for session-scoped diffs
+  enablePreToolUse?: boolean; // Remote approval of tool calls (off by default)
   createBackup?: boolean;
   force?: boolean;
 }
@@ -22,19 +60,23 @@ export interface HookInjectionResult {
   backupPath?: string;
   hooksAdded: string[];
   hooksSkipped: string[];
+  hooksUpdated?: string[]; // Registered before with a different matcher or command
   configPath?: string;
 }
 
+export interface HookSettingsEntry {
+  matcher: string;
+  hooks: Array<{
+    type: string;
+    command?: string;
+    handler?: string;
+    timeout?: number;
+  }>;
+}
+
 export interface SettingsConfig {
   hooks?: {
-    [key: string]: Array<{
-      matcher: string;
-      hooks: Array<{
-        type: string;
-        command?: string;
-        handler?: string;
-      }>;
-    }>;
+    [key: string]: HookSettingsEntry[];
   };
   [key: string]: any;
 }
@@ -45,6 +87,9 @@ export interface SettingsConfig {
 export class HookInjector {
   private static logger = Logger.getInstance();
 
+  // Seconds Claude Code waits for the PreToolUse hook - longer than any security.approval.timeout
+  static readonly APPROVAL_HOOK_TIMEOUT = 3600;
+
   /**
    * Inject CCanywhere hooks into Claude Code configuration
    */
@@ -57,15 +102,13 @@ export class HookInjector {
     };
 
     try {
-      // Detect Claude Code environment
-      const claudePaths = await ClaudeCodeDetector.getClaudeCodePaths();
-      if (!claudePaths) {
+      const target = await this.resolveTarget(options);
+      if (!target) {
         result.message = 'Claude Code environment not detected';
         return result;
       }
 
-      // Path to settings.json
-      const settingsPath = path.join(claudePaths.configDir, 'settings.json');
+      const { settingsPath } = target;
       result.configPath = settingsPath;
 
       // Read existing settings.json
@@ -76,7 +119,10 @@ export class HookInjector {
 
         // Create backup if requested
         if (options.createBackup !== false) {
-          const backupPath = await this.createBackup(settingsPath, claudePaths.backup);
+          if (target.projectDir) {
+            await ensureStateDir(target.projectDir);
+          }
+          const backupPath = await this.createBackup(settingsPath, target.backup);
           if (backupPath) {
             result.backupPath = backupPath;
             this.logger.info(`Created backup: ${backupPath}`);
@@ -89,58 +135,42 @@ export class HookInjector {
         settings.hooks = {};
       }
 
-      // Add Stop hook for CCanywhere
-      if (options.enableStop !== false) {
-        const ccanywhereHook = {
-          matcher: '.*',
-          hooks: [
-            {
-              type: 'command',
-              command:
-                'cd "$CLAUDE_PROJECT_DIR" && npx ccanywhere run --hook-mode 2>&1 >> /tmp/ccanywhere-hook.log || true'
-            }
-          ]
-        };
-
-        // Check if Stop hook already exists
-        if (!settings.hooks.Stop) {
-          settings.hooks.Stop = [];
-        }
+      result.hooksUpdated = [];
 
-        // Check if our hook is already registered
-        const isAlreadyRegistered = settings.hooks.Stop.some(hookEntry =>
-          hookEntry.hooks.some(h => h.command && h.command.includes('ccanywhere run'))
-        );
+      for (const event of this.getSelectedEvents(options)) {
+        const entries = settings.hooks[event] || [];
+        const desired = this.createHookEntry(event, options.matchers?.[event]);
+        const existing = entries.filter(hookEntry => hookEntry.hooks.some(h => this.isCcanywhereCommand(h.command)));
 
-        if (isAlreadyRegistered && !options.force) {
-          result.hooksSkipped.push('Stop');
-        } else {
-          // Remove old ccanywhere hooks if force is true
-          if (options.force) {
-            settings.hooks.Stop = settings.hooks.Stop.filter(
-              hookEntry => !hookEntry.hooks.some(h => h.command && h.command.includes('ccanywhere run'))
-            );
-          }
-
-          // Add our hook
-          settings.hooks.Stop.push(ccanywhereHook);
-          result.hooksAdded.push('Stop');
+        // Keep an identical registration, replace one with another matcher or an older command
+        if (existing.length > 0 && !options.force && existing.every(e => isDeepStrictEqual(e, desired))) {
+          result.hooksSkipped.push(event);
+          continue;
         }
+
+        settings.hooks[event] = [...entries.filter(hookEntry => !existing.includes(hookEntry)), desired];
+        (existing.length > 0 ? result.hooksUpdated : result.hooksAdded).push(event);
       }
 
-      // Write the updated settings.json
+      // Write the updated settings file
+      await fs.ensureDir(target.configDir);
       await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2), 'utf8');
 
       result.success = true;
-      result.message = `Successfully injected CCanywhere hooks into settings.json`;
+      result.message = `Successfully injected CCanywhere hooks into ${path.basename(settingsPath)}`;
 
       this.logger.info(`Hooks injected: ${result.hooksAdded.join(', ')}`);
+      if (result.hooksUpdated.length > 0) {
+        this.logger.info(`Hooks updated: ${result.hooksUpdated.join(', ')}`);
+      }
       if (result.hooksSkipped.length > 0) {
         this.logger.info(`Hooks skipped (already exist): ${result.hooksSkipped.join(', ')}`);
       }
 
       // Clean up old files
-      await this.cleanupOldFiles(claudePaths.configDir);
+      if (!target.projectDir) {
+        await this.cleanupOldFiles(target.configDir);
+      }
     } catch (error) {
       result.message = `Failed to inject hooks: ${error instanceof Error ? error.message : String(error)}`;
       this.logger.error('Hook injection failed:', error);
@@ -150,9 +180,82 @@ export class HookInjector {
   }
 
   /**
-   * Remove CCanywhere hooks from Claude Code configuration
+   * Resolve the settings file of a scope. The user scope needs a detected Claude Code installation; project
+   * scopes keep their backups in the gitignored state directory so they never end up in a commit.
+   */
+  private static async resolveTarget(target: HookTarget = {}): Promise<SettingsTarget | null> {
+    if (!target.scope || target.scope === 'user') {
+      const claudePaths = await ClaudeCodeDetector.getClaudeCodePaths();
+      return claudePaths
+        ? {
+            configDir: claudePaths.configDir,
+            settingsPath: path.join(claudePaths.configDir, 'settings.json'),
+            backup: claudePaths.backup
+          }
+        : null;
+    }
+
+    const projectDir = path.resolve(target.projectDir || process.cwd());
+    const configDir = path.join(projectDir, '.claude');
+    return {
+      configDir,
+      settingsPath: path.join(configDir, target.scope === 'local' ? 'settings.local.json' : 'settings.json'),
+      backup: path.join(getStateDir(projectDir), `hooks-${target.scope}.ccanywhere.backup`),
+      projectDir
+    };
+  }
+
+  /**
+   * Events to register: the explicit list, or Stop and SessionStart plus PreToolUse when enabled
+   */
+  private static getSelectedEvents(options: HookInjectionOptions): HookEvent[] {
+    if (options.events) {
+      return HOOK_EVENTS.filter(event => options.events!.includes(event));
+    }
+
+    const enabled: Record<string, boolean> = {
+      Stop: options.enableStop !== false,
+      SessionStart: options.enableSessionStart !== false,
+      PreToolUse: options.enablePreToolUse === true
+    };
+    return HOOK_EVENTS.filter(event => enabled[event]);
+  }
+
+  /**
+   * Build the settings.json entry of an event
+   */
+  private static createHookEntry(event: HookEvent, matcher = '.*'): HookSettingsEntry {
+    return {
+      matcher,
+      hooks: [
+        event === 'PreToolUse'
+          ? { type: 'command', command: this.getHookCommand(event), timeout: this.APPROVAL_HOOK_TIMEOUT }
+          : { type: 'command', command: this.getHookCommand(event) }
+      ]
+    };
+  }
+
+  /**
+   * Get the shell command Claude Code runs for an event
+   */
+  static getHookCommand(event: string): string {
+    const ccanywhereCommand = event === 'Stop' ? 'run --hook-mode' : `hook ${event}`;
+    // Claude Code reads the PreToolUse decision from stdout, so only stderr goes to the log
+    const redirect = event === 'PreToolUse' ? '2>> /tmp/ccanywhere-hook.log' : '2>&1 >> /tmp/ccanywhere-hook.log';
+    return `cd "$CLAUDE_PROJECT_DIR" && npx ccanywhere ${ccanywhereCommand} ${redirect} || true`;
+  }
+
+  /**
+   * Check whether a hook command was registered by CCanywhere
+   */
+  private static isCcanywhereCommand(command?: string): boolean {
+    return !!command && (command.includes('ccanywhere run') || command.includes('ccanywhere hook'));
+  }
+
+  /**
+   * Remove CCanywhere hooks from Claude Code configuration, from every event or only the given ones
    */
-  static async removeHooks(): Promise<HookInjectionResult> {
+  static async removeHooks(events?: HookEvent[], target: HookTarget = {}): Promise<HookInjectionResult> {
     const result: HookInjectionResult = {
       success: false,
       message: '',
@@ -161,16 +264,16 @@ export class HookInjector {
     };
 
     try {
-      const claudePaths = await ClaudeCodeDetector.getClaudeCodePaths();
-      if (!claudePaths) {
+      const settingsTarget = await this.resolveTarget(target);
+      if (!settingsTarget) {
         result.message = 'Claude Code environment not detected';
         return result;
       }
 
-      const settingsPath = path.join(claudePaths.configDir, 'settings.json');
+      const { settingsPath } = settingsTarget;
 
       if (!(await fs.pathExists(settingsPath))) {
-        result.message = 'No settings.json found';
+        result.message = `No ${path.basename(settingsPath)} found`;
         return result;
       }
 
@@ -185,21 +288,22 @@ export class HookInjector {
 
       let removedCount = 0;
 
-      // Remove CCanywhere hooks from Stop event
-      if (settings.hooks.Stop) {
-        const originalLength = settings.hooks.Stop.length;
-        settings.hooks.Stop = settings.hooks.Stop.filter(
-          hookEntry => !hookEntry.hooks.some(h => h.command && h.command.includes('ccanywhere run'))
-        );
+      // Remove CCanywhere hooks from the selected events
+      const selected = Object.keys(settings.hooks).filter(event => !events || events.includes(event as HookEvent));
+      for (const event of selected) {
+        const entries = settings.hooks[event]!;
+        const remaining = entries.filter(hookEntry => !hookEntry.hooks.some(h => this.isCcanywhereCommand(h.command)));
 
-        if (settings.hooks.Stop.length < originalLength) {
+        if (remaining.length < entries.length) {
           removedCount++;
-          result.hooksAdded.push('Stop'); // Using hooksAdded to track removed hooks
+          result.hooksAdded.push(event); // Using hooksAdded to track removed hooks
         }
 
         // Clean up empty arrays
-        if (settings.hooks.Stop.length === 0) {
-          delete settings.hooks.Stop;
+        if (remaining.length === 0) {
+          delete settings.hooks[event];
+        } else {
+          settings.hooks[event] = remaining;
         }
       }
 
@@ -213,7 +317,9 @@ export class HookInjector {
       await fs.writeFile(settingsPath, JSON.stringify(settings, null, 2), 'utf8');
 
       // Clean up old files
-      await this.cleanupOldFiles(claudePaths.configDir);
+      if (!settingsTarget.projectDir) {
+        await this.cleanupOldFiles(settingsTarget.configDir);
+      }
 
       result.success = true;
       result.message = `Removed ${removedCount} CCanywhere hooks`;
@@ -272,12 +378,12 @@ export class HookInjector {
   }
 
   /**
-   * Restore configuration from backup
+   * Restore a settings file from one of its backups
    */
-  static async restoreFromBackup(backupPath: string): Promise<boolean> {
+  static async restoreFromBackup(backupPath: string, target: HookTarget = {}): Promise<boolean> {
     try {
-      const claudePaths = await ClaudeCodeDetector.getClaudeCodePaths();
-      if (!claudePaths) {
+      const settingsTarget = await this.resolveTarget(target);
+      if (!settingsTarget) {
         return false;
       }
 
@@ -286,7 +392,7 @@ export class HookInjector {
         return false;
       }
 
-      await fs.copy(backupPath, claudePaths.hooksConfig);
+      await fs.copy(backupPath, settingsTarget.settingsPath);
       this.logger.info(`Restored configuration from backup: ${backupPath}`);
       return true;
     } catch (error) {
@@ -298,20 +404,22 @@ export class HookInjector {
   /**
    * List available backups
    */
-  static async listBackups(): Promise<string[]> {
+  static async listBackups(target: HookTarget = {}): Promise<string[]> {
     try {
-      const claudePaths = await ClaudeCodeDetector.getClaudeCodePaths();
-      if (!claudePaths) {
+      const settingsTarget = await this.resolveTarget(target);
+      if (!settingsTarget) {
         return [];
       }
 
-      const backupDir = path.dirname(claudePaths.backup);
+      const backupDir = path.dirname(settingsTarget.backup);
       if (!(await fs.pathExists(backupDir))) {
         return [];
       }
 
+      // Timestamped copies of the backup path, e.g. hooks.ccanywhere.2025-01-01T00-00-00-000Z.backup
+      const prefix = path.basename(settingsTarget.backup).replace(/\.backup$/, '.');
       const files = await fs.readdir(backupDir);
-      const backupFiles = files.filter(file => file.includes('hooks') && file.includes('.backup'));
+      const backupFiles = files.filter(file => file.startsWith(prefix) && file.endsWith('.backup'));
 
       return backupFiles.map(file => path.join(backupDir, file));
     } catch (error) {
@@ -321,37 +429,56 @@ export class HookInjector {
   }
 
   /**
-   * Check if CCanywhere hooks are already injected
+   * Get the events CCanywhere hooks are registered for, with their matchers
    */
-  static async areHooksInjected(): Promise<boolean> {
+  static async getInjectedHooks(target: HookTarget = {}): Promise<Partial<Record<HookEvent, string>>> {
+    const injected: Partial<Record<HookEvent, string>> = {};
+
     try {
-      const claudePaths = await ClaudeCodeDetector.getClaudeCodePaths();
-      if (!claudePaths) {
-        return false;
+      const settings = await this.readSettings(target);
+      for (const event of HOOK_EVENTS) {
+        const entry = settings?.hooks?.[event]?.find(e => e.hooks.some(h => this.isCcanywhereCommand(h.command)));
+        if (entry) {
+          injected[event] = entry.matcher;
+        }
       }
+    } catch (error) {
+      this.logger.debug('Error reading injected hooks:', error);
+    }
 
-      const settingsPath = path.join(claudePaths.configDir, 'settings.json');
-
-      if (!(await fs.pathExists(settingsPath))) {
-        return false;
-      }
+    return injected;
+  }
 
-      const content = await fs.readFile(settingsPath, 'utf8');
-      const settings: SettingsConfig = JSON.parse(content);
+  /**
+   * Check if CCanywhere hooks are already injected
+   */
+  static async areHooksInjected(target: HookTarget = {}): Promise<boolean> {
+    try {
+      const settings = await this.readSettings(target);
 
-      if (!settings.hooks || !settings.hooks.Stop) {
+      if (!settings?.hooks || !settings.hooks.Stop) {
         return false;
       }
 
       // Check if CCanywhere hook is present in Stop hooks
-      return settings.hooks.Stop.some(hookEntry =>
-        hookEntry.hooks.some(h => h.command && h.command.includes('ccanywhere run'))
-      );
+      return settings.hooks.Stop.some(hookEntry => hookEntry.hooks.some(h => this.isCcanywhereCommand(h.command)));
     } catch (error) {
       this.logger.debug('Error checking hook injection status:', error);
       return false;
     }
   }
+
+  /**
+   * Read the settings file of a scope, or null when it does not exist
+   */
+  private static async readSettings(target: HookTarget): Promise<SettingsConfig | null> {
+    const settingsTarget = await this.resolveTarget(target);
+    if (!settingsTarget || !(await fs.pathExists(settingsTarget.settingsPath))) {
+      return null;
+    }
+
+    return JSON.parse(await fs.readFile(settingsTarget.settingsPath, 'utf8'));
+  }
 }
 
 export default HookInjector;